@@ -1,25 +1,165 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { MapController } from './components/MapController';
 import { Sidebar } from './components/Sidebar';
-import { analyzeLocation, generateTravelPhoto, blobToBase64 } from './services/geminiService';
-import { Coordinates, LocationContext, AppStatus, TimeEra, VisualStyle, PointOfInterest } from './types';
-import { Key, MapPin } from 'lucide-react';
+import { Gallery } from './components/Gallery';
+import { PromptSettings } from './components/PromptSettings';
+import { KeyManager } from './components/KeyManager';
+import { OfflineQueuePanel } from './components/OfflineQueuePanel';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { TripPlanner } from './components/TripPlanner';
+import { TripAlbum } from './components/TripAlbum';
+import { prepareReferencePeople } from './services/geminiService';
+import { createAIProvider, getConfiguredProviderId, TravelPhotoRequest } from './services/aiProvider';
+import { createShotId, deleteShot, listShots, saveShot } from './services/galleryStore';
+import { buildTimelineYears, eraForYear } from './services/years';
+import { eraFromText, parseHistoricalDate, yearFromText } from './services/historicalDate';
+import { plausibilityKey } from './services/plausibility';
+import { DEFAULT_SHOT_PLAN } from './services/shotPresets';
+import { createGenerationQueue, isAbortError } from './services/generationQueue';
+import { AppError, NoImageReturnedError, ParseFailedError, SafetyBlockedError, describeError, toAppError } from './services/errors';
+import { KeyVault } from './services/keyVault';
+import { withAnalysisCache } from './services/analysisCache';
+import { createOfflineQueue } from './services/offlineQueue';
+import { createTripStop, loadItinerary, MAX_TRIP_STOPS, moveStop, saveItinerary } from './services/itinerary';
+import { imageUrlToReference, instructionsFor, versionsFromGallery, versionsOf } from './services/imageEditing';
+import { readUrlState, writeUrlState } from './services/urlState';
+import { createGeocoder, getConfiguredGeocoderId } from './services/geocoder';
+import { shotsNearby, toLightboxImage } from './services/comparison';
+import { createWeatherSource, getConfiguredWeatherSourceId, resolveSceneConditions } from './services/weather';
+import { DEFAULT_STYLE, loadStyleCatalog, resolveStyle, saveStyleCatalog } from './services/styleCatalog';
+import { commitPresetEdit, createPresetId, DEFAULT_PROMPT_PRESET, loadActivePresetId, loadPromptPresets, saveActivePresetId, savePromptPresets, toPresetRef } from './services/promptPresets';
+import { Coordinates, LocationContext, AppStatus, TimeEra, VisualStyle, PointOfInterest, SavedShot, TimelineRun, TimelineSettings, ShotSpec, ShotRun, Traveler, ReferencePerson, SceneSettings, DEFAULT_SCENE_SETTINGS, PromptPreset, SceneConditions, ImageVersion, GeneratedImageResult, QueuedGeneration, TripStop, TripStopRun, PlausibilityCheck, PlausibilityReport } from './types';
+import { FileText, Images, Route } from 'lucide-react';
+
+// Everything needed to (re)generate any shot of the current batch
+interface BatchContext {
+  batchId: string;
+  coords: Coordinates;
+  locationInfo: LocationContext;
+  era: TimeEra;
+  year?: string;
+  customPrompt?: string;
+  style: VisualStyle;
+  people: ReferencePerson[];
+  promptPreset: PromptPreset;
+  conditions: SceneConditions;
+  plausibility?: PlausibilityReport;
+}
+
+const TIMELINE_VARIATION = "Timeline Frame (Same framing across years)";
+
+// Wait for the year field to settle before checking it against the place
+const PLAUSIBILITY_DEBOUNCE_MS = 800;
+
+// Each trip stop gets one establishing shot
+const TRIP_SHOT: ShotSpec = { id: 'trip-stop', label: 'Trip Stop', description: 'Trip Stop (Establishing shot of the traveler at this stop of the journey)' };
 
 const App: React.FC = () => {
+  const { locale, t, formatYear } = useI18n();
+  // For long-lived services that describe errors after the language may have changed
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
   const [apiKey, setApiKey] = useState<string>('');
   const [apiKeyReady, setApiKeyReady] = useState(false);
+  // Unlocked key vault (kept in memory only) and why the key screen was reopened
+  const [keyVault, setKeyVault] = useState<KeyVault | null>(null);
+  const [keyNotice, setKeyNotice] = useState<string | null>(null);
   
   const [selectedLocation, setSelectedLocation] = useState<Coordinates | null>(null);
   const [locationInfo, setLocationInfo] = useState<LocationContext | null>(null);
   const [status, setStatus] = useState<AppStatus>('idle');
+
+  // Era/year/style/prompt, pre-filled from a shared link if there is one
+  const initialUrlState = useRef(readUrlState());
+  const urlRestoredRef = useRef(false);
+  const [sceneSettings, setSceneSettings] = useState<SceneSettings>(
+    () => {
+      const settings = { ...DEFAULT_SCENE_SETTINGS, ...initialUrlState.current.settings };
+      // The era follows from the year whenever there is one
+      return settings.year ? { ...settings, era: eraFromText(settings.year, settings.era) } : settings;
+    }
+  );
   
-  // Store array of images now
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // One entry per planned shot in the current batch
+  const [shotRuns, setShotRuns] = useState<ShotRun[]>([]);
+  const generatedImages = useMemo(
+    () => shotRuns.filter(run => run.imageUrl).map(run => run.imageUrl as string),
+    [shotRuns]
+  );
+  const [appError, setAppError] = useState<AppError | null>(null);
+
+  // Locally persisted generations (IndexedDB)
+  const [savedShots, setSavedShots] = useState<SavedShot[]>([]);
+  const [showGallery, setShowGallery] = useState(false);
+  // Earlier shots of the selected place, for "then vs now" in the lightbox
+  const comparisonShots = useMemo(
+    () => selectedLocation ? shotsNearby(savedShots, selectedLocation).map(toLightboxImage) : [],
+    [savedShots, selectedLocation]
+  );
+
+  // Prompt templates: built-in plus user presets from localStorage
+  const [promptPresets, setPromptPresets] = useState<PromptPreset[]>(loadPromptPresets);
+  const [activePresetId, setActivePresetId] = useState<string>(loadActivePresetId);
+  const [showPromptSettings, setShowPromptSettings] = useState(false);
+  const activePreset = promptPresets.find(p => p.id === activePresetId) || DEFAULT_PROMPT_PRESET;
+
+  // Built-in and user-defined visual styles
+  const [styleCatalog, setStyleCatalog] = useState<VisualStyle[]>(loadStyleCatalog);
+
+  // Timeline mode: one frame per year
+  const [timeline, setTimeline] = useState<TimelineRun | null>(null);
+
+  // Trip mode: ordered stops, each analyzed and generated in turn
+  const [showTrip, setShowTrip] = useState(false);
+  const [tripStops, setTripStops] = useState<TripStop[]>(loadItinerary);
+  const [tripRuns, setTripRuns] = useState<TripStopRun[]>([]);
+  const [isTripRunning, setIsTripRunning] = useState(false);
+  const [showAlbum, setShowAlbum] = useState(false);
+  const [tripFocus, setTripFocus] = useState<Coordinates | null>(null);
+  // Independent of runAbortRef so picking a place in the Sidebar doesn't stop the trip
+  const tripAbortRef = useRef<AbortController | null>(null);
+
+  // Shared by batches, shot retries and timelines: aborting it stops whatever is in flight
+  const runAbortRef = useRef<AbortController | null>(null);
+  const batchContextRef = useRef<BatchContext | null>(null);
+  // Follow-up edit in flight, if any; independent of the batch run
+  const editAbortRef = useRef<AbortController | null>(null);
+  const activeShotsRef = useRef(0);
+  const generationQueue = useMemo(() => createGenerationQueue(), []);
+
+  const providerId = getConfiguredProviderId();
+  const provider = useMemo(() => withAnalysisCache(createAIProvider(providerId, apiKey)), [providerId, apiKey]);
+  const offlineQueue = useMemo(() => createOfflineQueue(error => describeError(error, localeRef.current)), []);
+  const [queuedJobs, setQueuedJobs] = useState<QueuedGeneration[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const geocoder = useMemo(() => createGeocoder(getConfiguredGeocoderId()), []);
+  const weatherSource = useMemo(() => createWeatherSource(getConfiguredWeatherSourceId()), []);
+
+  // Weather and light at the selected place, for the chosen year and overrides
+  const [sceneConditions, setSceneConditions] = useState<SceneConditions | null>(null);
+
+  // Plausibility of the selected place at the chosen date. `key` names the inputs a
+  // check belongs to, so a report for another place, date or style is never shown or sent.
+  const [plausibility, setPlausibility] = useState<{ key: string; check: PlausibilityCheck } | null>(null);
+  const [plausibilityAttempt, setPlausibilityAttempt] = useState(0);
+  const plausibilityReportsRef = useRef(new Map<string, PlausibilityReport>());
+  const plausibilityRequestKey = selectedLocation && locationInfo && parseHistoricalDate(sceneSettings.year)
+    ? plausibilityKey({ ...selectedLocation, year: sceneSettings.year, style: resolveStyle(styleCatalog, sceneSettings.style), locale })
+    : null;
+  const plausibilityCheck: PlausibilityCheck = plausibility && plausibility.key === plausibilityRequestKey
+    ? plausibility.check
+    : { kind: 'idle' };
 
   // Initialize: Check for stored key or environment key
   useEffect(() => {
     const initApiKey = async () => {
+      // 0. Offline providers (e.g. mock) need no key at all
+      if (!provider.requiresApiKey) {
+        setApiKeyReady(true);
+        return;
+      }
+
       // 1. Check AI Studio (Dev env)
       const win = window as any;
       if (win.aistudio) {
@@ -44,29 +184,41 @@ const App: React.FC = () => {
         return;
       }
 
-      // 3. Check Local Storage (User persistence for web)
-      const storedKey = localStorage.getItem('gemini_api_key');
-      if (storedKey) {
-          setApiKey(storedKey);
-          setApiKeyReady(true);
-      }
+      // 3. Otherwise the key screen unlocks the encrypted vault
     };
     initApiKey();
   }, []);
 
-  const handleManualKeySubmit = (e: React.FormEvent, keyInput: string) => {
-      e.preventDefault();
-      if (keyInput.trim().length > 0) {
-          setApiKey(keyInput.trim());
-          localStorage.setItem('gemini_api_key', keyInput.trim());
-          setApiKeyReady(true);
-      }
+  useEffect(() => offlineQueue.subscribe(setQueuedJobs), [offlineQueue]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    listShots()
+      .then(setSavedShots)
+      .catch(e => console.error("Failed to load gallery", e));
+  }, []);
+
+  const handleUseKey = (key: string) => {
+      setApiKey(key);
+      setKeyNotice(null);
+      setApiKeyReady(true);
   };
 
-  const clearApiKey = () => {
+  // Back to the key screen; the vault stays unlocked so switching profiles needs no passphrase
+  const openKeyManager = (notice?: string) => {
+      if (!provider.requiresApiKey) return;
       setApiKey('');
       setApiKeyReady(false);
-      localStorage.removeItem('gemini_api_key');
+      setKeyNotice(notice || null);
       // If in AI Studio, try to open selector
       const win = window as any;
       if (win.aistudio) {
@@ -74,169 +226,851 @@ const App: React.FC = () => {
       }
   };
 
-  const handleError = async (error: any, defaultMsg: string) => {
+  const handleError = (error: any, defaultMsg: string) => {
     console.error(defaultMsg, error);
     setStatus('error');
-    
-    const msg = error.message || JSON.stringify(error);
-    
-    if (msg.includes("429") || msg.includes("Quota") || msg.includes("RESOURCE_EXHAUSTED")) {
-        const retryMatch = msg.match(/retry in ([0-9.]+)s/);
-        const retryTime = retryMatch ? retryMatch[1] : null;
-        let displayMsg = "Quota/Rate limit exceeded.";
-        if (retryTime) {
-            displayMsg += ` Please wait ${Math.ceil(parseFloat(retryTime))} seconds before trying again.`;
-        } else {
-            displayMsg += " Please try again later or check your billing.";
-        }
-        setErrorMessage(displayMsg);
-    } else if (msg.includes("400") || msg.includes("expired") || msg.includes("API_KEY_INVALID") || msg.includes("not found")) {
-        setErrorMessage("Invalid API Key. Please update your key.");
-        clearApiKey();
-    } else {
-        setErrorMessage(defaultMsg + ": " + (error.message || "Unknown error"));
-    }
+    // The Sidebar offers the remediation (retry countdown, key change, prompt edit)
+    setAppError(toAppError(error, defaultMsg));
   };
 
-  const handleLocationSelect = useCallback(async (coords: Coordinates) => {
+  const stopRun = () => {
+    runAbortRef.current?.abort();
+    runAbortRef.current = null;
+    batchContextRef.current = null;
+    editAbortRef.current?.abort();
+  };
+
+  const handleLocationSelect = useCallback(async (coords: Coordinates, options: { fromHistory?: boolean } = {}) => {
     if (!apiKeyReady) return;
 
+    if (!options.fromHistory) {
+      // One history entry per place so back/forward walks between them
+      writeUrlState({ location: coords, settings: readUrlState().settings }, 'push');
+    }
+
+    stopRun();
     setSelectedLocation(coords);
-    setGeneratedImages([]); // Clear previous images
+    setShotRuns([]); // Clear previous images
+    setTimeline(null);
     setStatus('analyzing_location');
     setLocationInfo(null);
-    setErrorMessage(null);
+    setAppError(null);
 
     try {
-      const info = await analyzeLocation(coords.lat, coords.lng, apiKey);
-      setLocationInfo(info);
+      const result = await provider.analyzeLocation(coords.lat, coords.lng, activePreset, locale);
+      if (result.kind === 'failure') {
+        console.error("Location analysis failed", result.error);
+        setAppError(new ParseFailedError(`Could not analyze this location. ${result.error.message}`, result.error.issues));
+        setStatus('error');
+        return;
+      }
+      if (result.warnings.length > 0) console.warn("Location analysis warnings", result.warnings);
+      setLocationInfo(result.context);
       setStatus('ready_to_generate');
     } catch (error) {
-      await handleError(error, "Failed to analyze location");
+      handleError(error, "Failed to analyze location");
     }
-  }, [apiKeyReady, apiKey]);
+  }, [apiKeyReady, provider, activePreset, locale]);
 
   const handlePoiSelect = useCallback((poi: PointOfInterest) => {
       handleLocationSelect({ lat: poi.lat, lng: poi.lng });
   }, [handleLocationSelect]);
 
-  const handleGenerate = async (file: File, era: TimeEra, year?: string, customPrompt?: string, style: VisualStyle = 'Realistic') => {
+  const recordShot = (fields: Omit<SavedShot, 'id' | 'createdAt'>): SavedShot => {
+    const shot: SavedShot = { ...fields, id: createShotId(), createdAt: Date.now() };
+    setSavedShots(prev => [shot, ...prev]);
+    saveShot(shot).catch(e => console.error("Failed to save shot to gallery", e));
+    return shot;
+  };
+
+  const buildShotRequest = (shot: ShotSpec, batch: BatchContext, signal?: AbortSignal): TravelPhotoRequest => ({
+    lat: batch.coords.lat,
+    lng: batch.coords.lng,
+    locationName: batch.locationInfo.name,
+    era: batch.era,
+    people: batch.people,
+    weatherCondition: batch.locationInfo.weather.condition,
+    conditions: batch.conditions,
+    year: batch.year,
+    customPrompt: batch.customPrompt,
+    style: batch.style,
+    variation: shot.description,
+    aspectRatio: shot.aspectRatio || batch.style.defaultAspectRatio,
+    promptPreset: batch.promptPreset,
+    plausibility: batch.plausibility,
+    signal
+  });
+
+  const recordBatchShot = (shot: ShotSpec, batch: BatchContext, result: GeneratedImageResult) => recordShot({
+    batchId: batch.batchId,
+    coords: batch.coords,
+    locationInfo: batch.locationInfo,
+    era: batch.era,
+    year: batch.year,
+    style: batch.style.id,
+    variation: shot.label,
+    prompt: result.promptUsed,
+    promptPreset: toPresetRef(batch.promptPreset),
+    imageUrl: result.imageUrl
+  });
+
+  /**
+   * Holds shots requested while offline; they are sent when the connection returns
+   * and land in the gallery instead of the Sidebar.
+   */
+  const queueOffline = (label: string, shots: { shot: ShotSpec; batch: BatchContext }[]) => {
+    offlineQueue.enqueue(label, shots.map(({ shot, batch }) => async (signal) => {
+      const result = await generationQueue.run(taskSignal => provider.generateTravelPhoto(buildShotRequest(shot, batch, taskSignal)), signal);
+      return recordBatchShot(shot, batch, result).id;
+    }));
+  };
+
+  /**
+   * Generates one planned shot through the shared queue.
+   * Resolves with the error on failure so one bad shot never rejects the batch.
+   */
+  const runShot = async (shot: ShotSpec, batch: BatchContext, signal: AbortSignal): Promise<any> => {
+    // Ignore updates from a batch that has since been replaced
+    const update = (patch: Partial<ShotRun>) => {
+      if (batchContextRef.current !== batch) return;
+      setShotRuns(prev => prev.map(run => run.shot.id === shot.id ? { ...run, ...patch } : run));
+    };
+
+    update({ state: 'queued', error: undefined, report: undefined });
+    activeShotsRef.current++;
+    try {
+      const result = await generationQueue.run(taskSignal => {
+        update({ state: 'running' });
+        return provider.generateTravelPhoto(buildShotRequest(shot, batch, taskSignal));
+      }, signal);
+
+      const { imageUrl, mimeType, ...report } = result;
+      const saved = recordBatchShot(shot, batch, result);
+      update({ state: 'done', imageUrl, prompt: result.promptUsed, mimeType, report, savedShotId: saved.id, versions: [], activeVersionId: undefined });
+      return null;
+    } catch (error) {
+      if (isAbortError(error)) {
+        update({ state: 'cancelled' });
+        return null;
+      }
+      console.error(`Shot "${shot.label}" failed`, error);
+      // Refusals keep the model's report so the Sidebar can explain them
+      const report = error instanceof SafetyBlockedError || error instanceof NoImageReturnedError ? error.report : null;
+      update({ state: 'failed', error: describeError(toAppError(error), locale), report: report || undefined });
+      return error;
+    } finally {
+      activeShotsRef.current--;
+    }
+  };
+
+  // Weather and light are resolved per batch so every shot in it agrees.
+  // `place` defaults to the Sidebar's location and its plausibility report; trips pass each stop's own.
+  const buildBatch = async (
+    people: ReferencePerson[],
+    era: TimeEra,
+    year: string | undefined,
+    customPrompt: string | undefined,
+    styleId: string,
+    batchId: string = createShotId(),
+    place: { coords: Coordinates; locationInfo: LocationContext; plausibility?: PlausibilityReport } = {
+      coords: selectedLocation,
+      locationInfo,
+      plausibility: plausibilityCheck.kind === 'ready' ? plausibilityCheck.report : undefined
+    }
+  ): Promise<BatchContext> => ({
+    batchId,
+    coords: place.coords,
+    locationInfo: place.locationInfo,
+    era,
+    year,
+    customPrompt,
+    style: resolveStyle(styleCatalog, styleId),
+    people,
+    promptPreset: activePreset,
+    plausibility: place.plausibility,
+    conditions: await resolveSceneConditions(
+      weatherSource,
+      { ...place.coords, year: year ? yearFromText(year) : undefined },
+      sceneSettings.conditions
+    )
+  });
+
+  // Only remote providers need the network; those are the ones that take a key
+  const mustQueueOffline = () => provider.requiresApiKey && !navigator.onLine;
+
+  const handleGenerate = async (travelers: Traveler[], era: TimeEra, year?: string, customPrompt?: string, styleId: string = DEFAULT_STYLE.id, shots: ShotSpec[] = DEFAULT_SHOT_PLAN) => {
     if (!selectedLocation || !locationInfo) return;
 
+    if (mustQueueOffline()) {
+      const batch = await buildBatch(await prepareReferencePeople(travelers), era, year, customPrompt, styleId);
+      queueOffline(year ? `${locationInfo.name} · ${formatYear(year)}` : locationInfo.name, shots.map(shot => ({ shot, batch })));
+      return;
+    }
+
+    stopRun();
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+
     setStatus('generating_image');
-    setErrorMessage(null);
-    setGeneratedImages([]);
-    
+    setAppError(null);
+    setTimeline(null);
+    setShotRuns(shots.map(shot => ({ shot, state: 'queued' })));
+
     try {
-      const base64Image = await blobToBase64(file);
-      
-      // Generate 2 distinct images
-      const variations = [
-          "Wide Angle Shot (Establishing Context)",
-          "Medium Shot (Character Interaction)"
-      ];
-
-      for (const variation of variations) {
-          const imageUrl = await generateTravelPhoto(
-            apiKey,
-            selectedLocation.lat,
-            selectedLocation.lng,
-            locationInfo.name,
+      const batch = await buildBatch(await prepareReferencePeople(travelers), era, year, customPrompt, styleId);
+      batchContextRef.current = batch;
+
+      const errors = await Promise.all(shots.map(shot => runShot(shot, batch, controller.signal)));
+      if (runAbortRef.current !== controller) return;
+
+      const failures = errors.filter(Boolean);
+      if (failures.length === shots.length) {
+        // Nothing came back: treat it as a batch-level error (quota, key, ...)
+        handleError(failures[0], "Image generation failed");
+      } else if (activeShotsRef.current === 0) {
+        setStatus('complete');
+      }
+    } catch (error) {
+      handleError(error, "Image generation failed");
+    }
+  };
+
+  const handleRetryShot = async (shotId: string) => {
+    const batch = batchContextRef.current;
+    const run = shotRuns.find(r => r.shot.id === shotId);
+    if (!batch || !run) return;
+
+    // Reuse the live controller so "Stop" also cancels retries
+    if (!runAbortRef.current || runAbortRef.current.signal.aborted) {
+      runAbortRef.current = new AbortController();
+    }
+    const controller = runAbortRef.current;
+
+    setStatus('generating_image');
+    setAppError(null);
+    await runShot(run.shot, batch, controller.signal);
+
+    if (runAbortRef.current === controller && activeShotsRef.current === 0) {
+      setStatus('complete');
+    }
+  };
+
+  const handleGenerateTimeline = async (travelers: Traveler[], settings: TimelineSettings, customPrompt?: string, styleId: string = DEFAULT_STYLE.id) => {
+    if (!selectedLocation || !locationInfo) return;
+
+    const years = buildTimelineYears(settings.startYear, settings.endYear, settings.step);
+    if (years.length === 0) return;
+
+    if (mustQueueOffline()) {
+      const people = await prepareReferencePeople(travelers);
+      const batchId = createShotId();
+      const frame: ShotSpec = { id: 'timeline-frame', label: TIMELINE_VARIATION, description: TIMELINE_VARIATION };
+      const frames = await Promise.all(years.map(async year => ({
+        shot: frame,
+        // The Sidebar's report is for one date, so frames go without it
+        batch: await buildBatch(people, eraForYear(parseInt(year)), year, customPrompt, styleId, batchId, { coords: selectedLocation, locationInfo })
+      })));
+      queueOffline(`${locationInfo.name} · ${formatYear(years[0])} – ${formatYear(years[years.length - 1])}`, frames);
+      return;
+    }
+
+    stopRun();
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+
+    setStatus('generating_image');
+    setAppError(null);
+    setShotRuns([]);
+    setTimeline({ years, frames: [] });
+
+    const batchId = createShotId();
+    const variation = TIMELINE_VARIATION;
+    const promptPreset = activePreset;
+    const style = resolveStyle(styleCatalog, styleId);
+
+    try {
+      const people = await prepareReferencePeople(travelers);
+
+      // Frames run one after another so the filmstrip fills in order
+      for (const year of years) {
+          if (controller.signal.aborted) break;
+
+          const era = eraForYear(parseInt(year));
+          const conditions = await resolveSceneConditions(
+            weatherSource,
+            { ...selectedLocation, year: parseInt(year) },
+            sceneSettings.conditions
+          );
+          const result = await generationQueue.run(taskSignal => provider.generateTravelPhoto({
+            lat: selectedLocation.lat,
+            lng: selectedLocation.lng,
+            locationName: locationInfo.name,
             era,
-            base64Image,
-            locationInfo.weather.condition,
+            people,
+            weatherCondition: locationInfo.weather.condition,
+            conditions,
             year,
             customPrompt,
             style,
-            variation
+            variation,
+            aspectRatio: style.defaultAspectRatio,
+            promptPreset,
+            signal: taskSignal
+          }), controller.signal);
+
+          // A newer run or a location change took over while this frame rendered
+          if (runAbortRef.current !== controller) return;
+
+          setTimeline(prev => prev && { ...prev, frames: [...prev.frames, { year, imageUrl: result.imageUrl, mimeType: result.mimeType }] });
+          recordShot({
+            batchId,
+            coords: selectedLocation,
+            locationInfo,
+            era,
+            year,
+            style: style.id,
+            variation,
+            prompt: result.promptUsed,
+            promptPreset: toPresetRef(promptPreset),
+            imageUrl: result.imageUrl
+          });
+      }
+
+      if (runAbortRef.current === controller) setStatus('complete');
+    } catch (error) {
+      if (runAbortRef.current !== controller) return;
+      if (isAbortError(error)) {
+        setStatus('complete');
+        return;
+      }
+      // Partial frames stay visible next to the error
+      handleError(error, "Timeline generation failed");
+    } finally {
+      if (runAbortRef.current === controller) runAbortRef.current = null;
+    }
+  };
+
+  const handleAddTripStop = (coords: Coordinates) => {
+    if (tripStops.length >= MAX_TRIP_STOPS) return;
+    setTripStops(prev => [...prev, createTripStop(coords, sceneSettings)]);
+  };
+
+  /**
+   * Analyzes and generates every stop in order, one image each. A failed stop is
+   * marked and skipped so the rest of the trip still runs; results open as an album.
+   */
+  // Best effort: a stop whose check fails is still generated, just without the notes
+  const checkStopPlausibility = async (stop: TripStop, info: LocationContext, signal: AbortSignal): Promise<PlausibilityReport | undefined> => {
+    try {
+      const result = await provider.checkPlausibility({
+        ...stop.coords,
+        context: info,
+        year: stop.year,
+        style: resolveStyle(styleCatalog, stop.style),
+        locale,
+        signal
+      });
+      if (result.kind === 'success') return result.report;
+      console.warn(`Plausibility check for "${info.name}" failed`, result.error);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Plausibility check for "${info.name}" failed`, error);
+    }
+    return undefined;
+  };
+
+  const handleRunTrip = async (travelers: Traveler[], customPrompt?: string) => {
+    if (tripStops.length === 0) return;
+
+    tripAbortRef.current?.abort();
+    const controller = new AbortController();
+    tripAbortRef.current = controller;
+    const stops = tripStops;
+
+    // Ignore updates from a trip that has since been replaced
+    const update = (stopId: string, patch: Partial<TripStopRun>) => {
+      if (tripAbortRef.current !== controller) return;
+      setTripRuns(prev => prev.map(run => run.stop.id === stopId ? { ...run, ...patch } : run));
+    };
+
+    setTripRuns(stops.map(stop => ({ stop, state: 'queued' })));
+    setIsTripRunning(true);
+    setShowAlbum(false);
+
+    try {
+      const people = await prepareReferencePeople(travelers);
+
+      for (const stop of stops) {
+        if (controller.signal.aborted) {
+          update(stop.id, { state: 'cancelled' });
+          continue;
+        }
+        try {
+          update(stop.id, { state: 'analyzing' });
+          const analysis = await provider.analyzeLocation(stop.coords.lat, stop.coords.lng, activePreset, locale);
+          if (analysis.kind === 'failure') {
+            throw new ParseFailedError(`Could not analyze this stop. ${analysis.error.message}`, analysis.error.issues);
+          }
+          const info = analysis.context;
+          // The plan shows place names once they are known
+          setTripStops(prev => prev.map(s => s.id === stop.id ? { ...s, label: info.name } : s));
+          update(stop.id, { state: 'generating', locationInfo: info });
+
+          const plausibility = stop.year && parseHistoricalDate(stop.year)
+            ? await checkStopPlausibility(stop, info, controller.signal)
+            : undefined;
+          const batch = await buildBatch(people, stop.era, stop.year || undefined, customPrompt, stop.style, createShotId(), { coords: stop.coords, locationInfo: info, plausibility });
+          const result = await generationQueue.run(
+            taskSignal => provider.generateTravelPhoto(buildShotRequest(TRIP_SHOT, batch, taskSignal)),
+            controller.signal
           );
-          // Add to array
-          setGeneratedImages(prev => [...prev, imageUrl]);
+          const saved = recordBatchShot(TRIP_SHOT, batch, result);
+          update(stop.id, { state: 'done', imageUrl: result.imageUrl, prompt: result.promptUsed, savedShotId: saved.id });
+        } catch (error) {
+          if (isAbortError(error)) {
+            update(stop.id, { state: 'cancelled' });
+            continue;
+          }
+          console.error(`Trip stop "${stop.label}" failed`, error);
+          update(stop.id, { state: 'failed', error: describeError(toAppError(error), locale) });
+        }
       }
 
-      setStatus('complete');
+      if (tripAbortRef.current === controller) setShowAlbum(true);
+    } catch (error) {
+      // Only reachable when the traveler photos could not be prepared
+      console.error("Trip failed", error);
+      const message = describeError(toAppError(error, "Trip failed"), locale);
+      stops.forEach(stop => update(stop.id, { state: 'failed', error: message }));
+    } finally {
+      if (tripAbortRef.current === controller) {
+        tripAbortRef.current = null;
+        setIsTripRunning(false);
+      }
+    }
+  };
 
+  const handleCancelTrip = () => {
+    tripAbortRef.current?.abort();
+  };
+
+  const handleCancelGeneration = () => {
+    runAbortRef.current?.abort();
+  };
+
+  /**
+   * Applies a follow-up instruction to one version of a shot. The new version becomes
+   * the shot's image and is saved to the gallery with its parent link.
+   * Failures are rethrown as AppErrors for the editor to show.
+   */
+  const handleEditShot = async (shotId: string, baseVersionId: string, instruction: string) => {
+    const run = shotRuns.find(r => r.shot.id === shotId);
+    const batch = batchContextRef.current;
+    if (!run) return;
+    const versions = versionsOf(run);
+    const base = versions.find(v => v.id === baseVersionId);
+    if (!base) return;
+
+    const controller = new AbortController();
+    editAbortRef.current?.abort();
+    editAbortRef.current = controller;
+    try {
+      const image = await imageUrlToReference(base.imageUrl);
+      const result = await generationQueue.run(taskSignal => provider.editImage({
+        image,
+        instruction,
+        history: instructionsFor(versions, base.id),
+        signal: taskSignal
+      }), controller.signal);
+
+      const root = savedShots.find(s => s.id === versions[0].id);
+      const saved = recordShot({
+        batchId: root?.batchId || batch?.batchId || createShotId(),
+        coords: root?.coords || selectedLocation,
+        locationInfo: root?.locationInfo || locationInfo,
+        era: root?.era || sceneSettings.era,
+        year: root?.year,
+        style: root?.style || sceneSettings.style,
+        variation: run.shot.label,
+        prompt: result.promptUsed,
+        imageUrl: result.imageUrl,
+        parentId: base.id,
+        editInstruction: instruction
+      });
+      const version: ImageVersion = {
+        id: saved.id,
+        parentId: base.id,
+        instruction,
+        imageUrl: result.imageUrl,
+        prompt: result.promptUsed,
+        createdAt: saved.createdAt
+      };
+      setShotRuns(prev => prev.map(r => r.shot.id === shotId ? {
+        ...r,
+        versions: [...versionsOf(r), version],
+        activeVersionId: version.id,
+        imageUrl: version.imageUrl,
+        mimeType: result.mimeType
+      } : r));
     } catch (error) {
-      await handleError(error, "Image generation failed");
+      if (isAbortError(error)) return;
+      throw toAppError(error, "Edit failed");
+    } finally {
+      if (editAbortRef.current === controller) editAbortRef.current = null;
     }
   };
 
-  const handleReset = () => {
+  // Step back (or forward) through a shot's edit history
+  const handleSelectVersion = (shotId: string, versionId: string) => {
+    setShotRuns(prev => prev.map(r => {
+      if (r.shot.id !== shotId) return r;
+      const version = versionsOf(r).find(v => v.id === versionId);
+      return version ? { ...r, activeVersionId: version.id, imageUrl: version.imageUrl, prompt: version.prompt } : r;
+    }));
+  };
+
+  // Reopen a saved batch in the Sidebar as if it had just been generated
+  const handleShotSelect = (shot: SavedShot) => {
+    const inBatch = savedShots
+      .filter(s => s.batchId === shot.batchId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    // Edits are folded back into the history of the shot they came from
+    const batch = inBatch.filter(s => !s.parentId);
+    const settings: SceneSettings = { ...sceneSettings, era: shot.era, year: shot.year || '', style: shot.style };
+    writeUrlState({ location: shot.coords, settings }, 'push');
+    setSceneSettings(settings);
+    stopRun();
+    setSelectedLocation(shot.coords);
+    setLocationInfo(shot.locationInfo);
+    setShotRuns(batch.map(s => {
+      const versions = versionsFromGallery(s, inBatch);
+      const latest = versions[versions.length - 1];
+      return {
+        shot: { id: s.id, label: s.variation, description: s.variation },
+        state: 'done',
+        imageUrl: latest?.imageUrl || s.imageUrl,
+        prompt: latest?.prompt || s.prompt,
+        savedShotId: s.id,
+        versions,
+        activeVersionId: latest?.id
+      };
+    }));
+    setTimeline(null);
+    setStatus('complete');
+    setAppError(null);
+  };
+
+  const handleShotDelete = async (id: string) => {
+    setSavedShots(prev => prev.filter(s => s.id !== id));
+    try {
+      await deleteShot(id);
+    } catch (e) {
+      console.error("Failed to delete shot", e);
+    }
+  };
+
+  const handleReset = (options: { fromHistory?: boolean } = {}) => {
+    if (!options.fromHistory) writeUrlState({ location: null, settings: sceneSettings }, 'push');
+    stopRun();
     setSelectedLocation(null);
     setLocationInfo(null);
-    setGeneratedImages([]);
+    setShotRuns([]);
+    setTimeline(null);
     setStatus('idle');
-    setErrorMessage(null);
+    setAppError(null);
+  };
+
+  const handleSettingsChange = (patch: Partial<SceneSettings>) => {
+    setSceneSettings(prev => {
+      const next = { ...prev, ...patch };
+      // The era is derived from the year text; keep the last one while the text can't be read yet
+      if (patch.year !== undefined) next.era = eraFromText(patch.year, prev.era);
+      return next;
+    });
+  };
+
+  const handleStyleCatalogChange = (catalog: VisualStyle[]) => {
+    setStyleCatalog(catalog);
+    saveStyleCatalog(catalog);
+  };
+
+  const handlePresetActivate = (id: string) => {
+    setActivePresetId(id);
+    saveActivePresetId(id);
+  };
+
+  const updatePresets = (presets: PromptPreset[]) => {
+    setPromptPresets(presets);
+    savePromptPresets(presets);
   };
 
+  const handlePresetSave = (draft: PromptPreset) => {
+    const { presets, saved } = commitPresetEdit(promptPresets, draft);
+    updatePresets(presets);
+    handlePresetActivate(saved.id);
+  };
+
+  const handlePresetImport = (preset: PromptPreset) => {
+    // Keep the exported id/revision for traceability, unless it would overwrite a preset
+    const taken = promptPresets.some(p => p.id === preset.id);
+    const imported = taken ? { ...preset, id: createPresetId() } : preset;
+    updatePresets([...promptPresets, imported]);
+    handlePresetActivate(imported.id);
+  };
+
+  const handlePresetDelete = (id: string) => {
+    const preset = promptPresets.find(p => p.id === id);
+    if (!preset || preset.builtIn) return;
+    updatePresets(promptPresets.filter(p => p.id !== id));
+    if (id === activePresetId) handlePresetActivate(DEFAULT_PROMPT_PRESET.id);
+  };
+
+  // What the preset panel renders its preview against: the live scene, or a sample
+  const previewRequest = useMemo<TravelPhotoRequest>(() => ({
+    lat: selectedLocation?.lat ?? 41.8902,
+    lng: selectedLocation?.lng ?? 12.4922,
+    locationName: locationInfo?.name || 'Colosseum, Rome',
+    era: sceneSettings.era,
+    year: sceneSettings.year,
+    people: [{ name: 'Traveler 1', images: [{ data: '', mimeType: 'image/jpeg' }] }],
+    weatherCondition: locationInfo?.weather.condition || 'Sunny',
+    conditions: sceneConditions || undefined,
+    customPrompt: sceneSettings.customPrompt,
+    style: resolveStyle(styleCatalog, sceneSettings.style),
+    variation: DEFAULT_SHOT_PLAN[0].description,
+  }), [selectedLocation, locationInfo, sceneSettings, styleCatalog, sceneConditions]);
+
+  useEffect(() => {
+    saveItinerary(tripStops);
+  }, [tripStops]);
+
+  // Checks the place against the date once typing settles; reports are kept per key for the session
+  useEffect(() => {
+    const key = plausibilityRequestKey;
+    if (!key || !apiKeyReady) return;
+    const cached = plausibilityReportsRef.current.get(key);
+    if (cached) {
+      setPlausibility({ key, check: { kind: 'ready', report: cached } });
+      return;
+    }
+    if (provider.requiresApiKey && !isOnline) return;
+
+    setPlausibility({ key, check: { kind: 'checking' } });
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      provider.checkPlausibility({
+        ...selectedLocation,
+        context: locationInfo,
+        year: sceneSettings.year,
+        style: resolveStyle(styleCatalog, sceneSettings.style),
+        locale,
+        signal: controller.signal
+      })
+        .then(result => {
+          if (result.kind === 'failure') {
+            console.warn("Plausibility check failed", result.error);
+            setPlausibility({ key, check: { kind: 'failed', message: result.error.message } });
+            return;
+          }
+          plausibilityReportsRef.current.set(key, result.report);
+          setPlausibility({ key, check: { kind: 'ready', report: result.report } });
+        })
+        .catch(e => {
+          if (isAbortError(e)) return;
+          console.error("Plausibility check failed", e);
+          setPlausibility({ key, check: { kind: 'failed', message: describeError(toAppError(e), locale) } });
+        });
+    }, PLAUSIBILITY_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [plausibilityRequestKey, plausibilityAttempt, locationInfo, provider, apiKeyReady, isOnline]);
+
+  useEffect(() => {
+    if (!selectedLocation) {
+      setSceneConditions(null);
+      return;
+    }
+    const controller = new AbortController();
+    resolveSceneConditions(
+      weatherSource,
+      { ...selectedLocation, year: yearFromText(sceneSettings.year) },
+      sceneSettings.conditions,
+      new Date(),
+      controller.signal
+    )
+      .then(setSceneConditions)
+      .catch(e => { if (!isAbortError(e)) console.error("Failed to resolve scene conditions", e); });
+    return () => controller.abort();
+  }, [selectedLocation, sceneSettings.year, sceneSettings.conditions, weatherSource]);
+
+  // Deep link: once the app can analyze, open the location from the URL
+  useEffect(() => {
+    if (!apiKeyReady || urlRestoredRef.current) return;
+    urlRestoredRef.current = true;
+    const { location } = initialUrlState.current;
+    if (location) handleLocationSelect(location, { fromHistory: true });
+  }, [apiKeyReady, handleLocationSelect]);
+
+  // Mirror the scene controls into the URL (after the initial restore, so the link isn't wiped first)
+  useEffect(() => {
+    if (!urlRestoredRef.current) return;
+    writeUrlState({ location: selectedLocation, settings: sceneSettings }, 'replace');
+  }, [selectedLocation, sceneSettings]);
+
+  // Back/forward: restore whatever that history entry describes
+  useEffect(() => {
+    const onPopState = () => {
+      const { location, settings } = readUrlState();
+      setSceneSettings({ ...DEFAULT_SCENE_SETTINGS, ...settings });
+      if (location) {
+        handleLocationSelect(location, { fromHistory: true });
+      } else {
+        handleReset({ fromHistory: true });
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [handleLocationSelect]);
+
   // --- WELCOME / API KEY SCREEN ---
   if (!apiKeyReady) {
     return (
-      <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-100 p-4 font-sans">
-        <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full text-center space-y-6">
-            <div className="flex justify-center mb-4">
-                 <div className="w-16 h-16 bg-indigo-100 rounded-full flex items-center justify-center text-indigo-600">
-                    <MapPin className="w-8 h-8" />
-                 </div>
-            </div>
-            <div>
-                <h1 className="text-3xl font-bold text-slate-800 mb-2">ChronoTravel AI</h1>
-                <p className="text-slate-500 text-sm leading-relaxed">
-                    Time travel to 10,000 B.C. or the distant future. 
-                    <br/>Enter your Gemini API Key to begin.
-                </p>
-            </div>
-            
-            <form onSubmit={(e) => {
-                const input = (document.getElementById('apiKeyInput') as HTMLInputElement).value;
-                handleManualKeySubmit(e, input);
-            }} className="space-y-4">
-                <div className="relative">
-                    <Key className="absolute left-3 top-3 w-5 h-5 text-slate-400" />
-                    <input 
-                        id="apiKeyInput"
-                        type="password" 
-                        placeholder="Paste your Gemini API Key here"
-                        className="w-full pl-10 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-800 transition-all"
-                    />
-                </div>
-                <button 
-                    type="submit"
-                    className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition-transform active:scale-95 shadow-lg shadow-indigo-200"
-                >
-                    Start Journey
-                </button>
-            </form>
-
-            <div className="text-xs text-slate-400 pt-4 border-t border-slate-100">
-                Don't have a key? {' '}
-                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline font-semibold">
-                    Get one from Google AI Studio
-                </a>
-            </div>
-        </div>
-      </div>
+      <KeyManager
+        providerId={providerId}
+        vault={keyVault}
+        onVaultChange={setKeyVault}
+        onUseKey={handleUseKey}
+        notice={keyNotice}
+      />
     );
   }
 
   return (
     <div className="h-screen w-screen relative overflow-hidden bg-slate-200">
       <MapController 
-        onLocationSelect={handleLocationSelect} 
-        selectedLocation={selectedLocation}
-      />
-      
-      <Sidebar 
-        location={selectedLocation}
-        locationInfo={locationInfo}
-        status={status}
-        onGenerate={handleGenerate}
-        generatedImages={generatedImages}
-        onReset={handleReset}
-        errorMessage={errorMessage}
-        onChangeKey={clearApiKey}
-        onPoiSelect={handlePoiSelect}
+        onLocationSelect={showTrip ? handleAddTripStop : handleLocationSelect} 
+        selectedLocation={showTrip ? null : selectedLocation}
+        focus={showTrip ? tripFocus : undefined}
+        savedShots={savedShots}
+        onShotSelect={handleShotSelect}
+        geocoder={geocoder}
+        era={sceneSettings.era}
+        year={sceneSettings.year}
+        tripStops={showTrip ? tripStops : undefined}
+        onTripStopSelect={(stop) => setTripFocus(stop.coords)}
       />
+
+      {showGallery ? (
+        <Gallery
+          shots={savedShots}
+          styles={styleCatalog}
+          onSelect={handleShotSelect}
+          onDelete={handleShotDelete}
+          onClose={() => setShowGallery(false)}
+        />
+      ) : showPromptSettings ? (
+        <PromptSettings
+          presets={promptPresets}
+          activePresetId={activePreset.id}
+          previewRequest={previewRequest}
+          onActivate={handlePresetActivate}
+          onSave={handlePresetSave}
+          onDelete={handlePresetDelete}
+          onImport={handlePresetImport}
+          onClose={() => setShowPromptSettings(false)}
+        />
+      ) : (
+        <div className="absolute top-4 left-4 z-[1000] space-y-2">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowGallery(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg text-sm font-semibold text-slate-700 hover:bg-white transition-colors"
+            >
+              <Images className="w-4 h-4 text-indigo-600" /> {t('app.gallery', { count: savedShots.length })}
+            </button>
+            <button
+              onClick={() => setShowPromptSettings(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg text-sm font-semibold text-slate-700 hover:bg-white transition-colors"
+              title={t('app.promptPresetTitle', { name: activePreset.name })}
+            >
+              <FileText className="w-4 h-4 text-indigo-600" /> {t('app.prompts')}
+            </button>
+            <button
+              onClick={() => setShowTrip(!showTrip)}
+              className={`flex items-center gap-2 px-4 py-2 backdrop-blur-xl rounded-xl shadow-lg text-sm font-semibold transition-colors ${
+                showTrip ? 'bg-indigo-600 text-white' : 'bg-white/95 text-slate-700 hover:bg-white'
+              }`}
+              title={t('app.tripTitle')}
+            >
+              <Route className={`w-4 h-4 ${showTrip ? '' : 'text-indigo-600'}`} /> {t('app.trip')}{tripStops.length > 0 ? ` (${tripStops.length})` : ''}
+            </button>
+            <LanguageSwitcher className="px-3 py-2 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg" />
+          </div>
+          <OfflineQueuePanel
+            jobs={queuedJobs}
+            isOnline={isOnline}
+            onOpen={(shotId) => {
+              const shot = savedShots.find(s => s.id === shotId);
+              if (shot) handleShotSelect(shot);
+            }}
+            onRemove={offlineQueue.remove}
+          />
+        </div>
+      )}
+
+      {showAlbum && tripRuns.length > 0 && (
+        <TripAlbum runs={tripRuns} onClose={() => setShowAlbum(false)} />
+      )}
+
+      {showTrip ? (
+        <TripPlanner
+          stops={tripStops}
+          onStopsChange={setTripStops}
+          onMoveStop={(from, to) => setTripStops(prev => moveStop(prev, from, to))}
+          onFocusStop={(stop) => setTripFocus(stop.coords)}
+          styles={styleCatalog}
+          runs={tripRuns}
+          isRunning={isTripRunning}
+          onRun={handleRunTrip}
+          onCancel={handleCancelTrip}
+          onOpenAlbum={() => setShowAlbum(true)}
+          onClose={() => setShowTrip(false)}
+          isOffline={provider.requiresApiKey && !isOnline}
+        />
+      ) : (
+        <Sidebar 
+          location={selectedLocation}
+          locationInfo={locationInfo}
+          status={status}
+          onGenerate={handleGenerate}
+          onGenerateTimeline={handleGenerateTimeline}
+          onCancelGeneration={handleCancelGeneration}
+          onRetryShot={handleRetryShot}
+          onEditShot={handleEditShot}
+          onSelectVersion={handleSelectVersion}
+          generatedImages={generatedImages}
+          shotRuns={shotRuns}
+          timeline={timeline}
+          onReset={() => handleReset()}
+          settings={sceneSettings}
+          onSettingsChange={handleSettingsChange}
+          styles={styleCatalog}
+          onStylesChange={handleStyleCatalogChange}
+          conditions={sceneConditions}
+          error={appError}
+          onRetryAnalysis={() => selectedLocation && handleLocationSelect(selectedLocation)}
+          onChangeKey={provider.requiresApiKey
+            ? () => openKeyManager(appError?.kind === 'auth_invalid' ? t('app.keyRejected') : undefined)
+            : undefined}
+          onPoiSelect={handlePoiSelect}
+          queueWhenOffline={provider.requiresApiKey && !isOnline}
+          plausibility={plausibilityCheck}
+          onRecheckPlausibility={() => setPlausibilityAttempt(n => n + 1)}
+          comparisonShots={comparisonShots}
+        />
+      )}
     </div>
   );
 };
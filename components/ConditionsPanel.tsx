@@ -0,0 +1,104 @@
+import React from 'react';
+import { ClothingItem, ConditionOverrides, SceneConditions, Season, TimeOfDay, WeatherKind } from '../types';
+import { SEASONS, TIMES_OF_DAY, WEATHER_KINDS } from '../services/weather';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { CloudSun, Shirt, Sun, Thermometer } from 'lucide-react';
+
+interface ConditionsPanelProps {
+  conditions: SceneConditions | null;
+  overrides: ConditionOverrides;
+  onOverridesChange: (overrides: ConditionOverrides) => void;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const SEASON_LABELS: Record<Season, MessageKey> = {
+  winter: 'season.winter',
+  spring: 'season.spring',
+  summer: 'season.summer',
+  autumn: 'season.autumn',
+};
+
+const TIME_OF_DAY_LABELS: Record<TimeOfDay, MessageKey> = {
+  dawn: 'timeOfDay.dawn',
+  morning: 'timeOfDay.morning',
+  midday: 'timeOfDay.midday',
+  afternoon: 'timeOfDay.afternoon',
+  dusk: 'timeOfDay.dusk',
+  night: 'timeOfDay.night',
+};
+
+// The prompt keeps services/weather.ts's English labels; these are for display
+const WEATHER_LABELS: Record<WeatherKind, MessageKey> = {
+  clear: 'weather.clear',
+  partly_cloudy: 'weather.partlyCloudy',
+  overcast: 'weather.overcast',
+  fog: 'weather.fog',
+  rain: 'weather.rain',
+  storm: 'weather.storm',
+  snow: 'weather.snow',
+};
+
+const CLOTHING_LABELS: Record<ClothingItem, MessageKey> = {
+  heavy_insulated: 'clothing.heavyInsulated',
+  winter_coat: 'clothing.winterCoat',
+  warm_coat: 'clothing.warmCoat',
+  light_jacket: 'clothing.lightJacket',
+  light_layers: 'clothing.lightLayers',
+  breathable: 'clothing.breathable',
+  waterproof: 'clothing.waterproof',
+  boots: 'clothing.boots',
+  extra_layer: 'clothing.extraLayer',
+  sun_hat: 'clothing.sunHat',
+};
+
+export const ConditionsPanel: React.FC<ConditionsPanelProps> = ({ conditions, overrides, onOverridesChange }) => {
+  const { t } = useI18n();
+  // An empty select value means "auto", which removes the override
+  const setOverride = <K extends keyof ConditionOverrides>(key: K, value: string) => {
+    const next = { ...overrides };
+    if (value) next[key] = value as ConditionOverrides[K];
+    else delete next[key];
+    onOverridesChange(next);
+  };
+
+  // e.g. "Autumn afternoon · 10.5h daylight", in the order the language puts them
+  const describeLight = (c: SceneConditions) =>
+    `${capitalize(t('conditions.seasonTime', { season: t(SEASON_LABELS[c.season]), timeOfDay: t(TIME_OF_DAY_LABELS[c.timeOfDay]) }))} · ${t('conditions.daylight', { hours: c.daylightHours })}`;
+
+  const selectClass = "w-full p-1.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-600";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <select value={overrides.season || ''} onChange={(e) => setOverride('season', e.target.value)} className={selectClass} title={t('conditions.season')}>
+          <option value="">{t('conditions.seasonAuto')}</option>
+          {SEASONS.map((s: Season) => <option key={s} value={s}>{capitalize(t(SEASON_LABELS[s]))}</option>)}
+        </select>
+        <select value={overrides.timeOfDay || ''} onChange={(e) => setOverride('timeOfDay', e.target.value)} className={selectClass} title={t('conditions.timeOfDay')}>
+          <option value="">{t('conditions.timeAuto')}</option>
+          {TIMES_OF_DAY.map((time: TimeOfDay) => <option key={time} value={time}>{capitalize(t(TIME_OF_DAY_LABELS[time]))}</option>)}
+        </select>
+        <select value={overrides.weather || ''} onChange={(e) => setOverride('weather', e.target.value)} className={selectClass} title={t('conditions.weather')}>
+          <option value="">{t('conditions.weatherAuto')}</option>
+          {WEATHER_KINDS.map((w: WeatherKind) => <option key={w} value={w}>{capitalize(t(WEATHER_LABELS[w]))}</option>)}
+        </select>
+      </div>
+
+      {conditions && (
+        <div className="bg-sky-50/70 border border-sky-100 rounded-lg p-2.5 space-y-1.5">
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-600">
+            <span className="flex items-center gap-1"><CloudSun className="w-3.5 h-3.5 text-sky-600" /> {capitalize(t(WEATHER_LABELS[conditions.weather]))}</span>
+            <span className="flex items-center gap-1"><Thermometer className="w-3.5 h-3.5 text-sky-600" /> {conditions.temperatureC}°C · {t('conditions.precipitation', { mm: conditions.precipitationMm })}</span>
+            <span className="flex items-center gap-1"><Sun className="w-3.5 h-3.5 text-sky-600" /> {describeLight(conditions)}</span>
+          </div>
+          <p className="text-[11px] text-slate-500 flex items-start gap-1">
+            <Shirt className="w-3.5 h-3.5 text-sky-600 shrink-0 mt-px" /> {capitalize(conditions.clothingItems.map(item => t(CLOTHING_LABELS[item])).join(t('clothing.separator')))}
+          </p>
+          <p className="text-[9px] text-slate-400">{t('conditions.source', { source: conditions.source })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
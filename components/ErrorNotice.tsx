@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppError, NoImageReturnedError, ParseFailedError, RateLimitedError, SafetyBlockedError } from '../services/errors';
+import { RefusalDetails } from './RefusalDetails';
+import { useI18n } from './I18nProvider';
+import { AlertCircle, ImageOff, Key, PenTool, RefreshCw, ShieldAlert, Timer, WifiOff } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: AppError;
+  onRetry?: () => void;
+  onChangeKey?: () => void;
+  onEditPrompt?: () => void;
+}
+
+// Used when a rate-limit reply carries no "retry in" hint
+const DEFAULT_RETRY_AFTER_MS = 30000;
+
+const ICONS = {
+  rate_limited: Timer,
+  auth_invalid: Key,
+  safety_blocked: ShieldAlert,
+  no_image: ImageOff,
+  network_offline: WifiOff,
+  parse_failed: AlertCircle,
+  unexpected: AlertCircle,
+};
+
+const actionClass = "text-xs bg-white border border-red-200 text-red-600 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors font-semibold flex items-center gap-1";
+
+/**
+ * Explains a failure and offers the fix that fits it: waiting out a rate limit,
+ * changing the key, rewording the prompt or simply retrying.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onChangeKey, onEditPrompt }) => {
+  const { t } = useI18n();
+  const retryAfterMs = error instanceof RateLimitedError ? (error.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS) : 0;
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  // The error whose auto-retry the user cancelled; a new error starts a new countdown
+  const [cancelledFor, setCancelledFor] = useState<AppError | null>(null);
+  // The latest handler, so a retry fired later uses the settings at that time, not at the error
+  const onRetryRef = useRef(onRetry);
+  onRetryRef.current = onRetry;
+
+  // Rate limits count down and retry by themselves
+  useEffect(() => {
+    if (!(error instanceof RateLimitedError) || !onRetry || cancelledFor === error) {
+      setSecondsLeft(null);
+      return;
+    }
+    const retryAt = Date.now() + retryAfterMs;
+    setSecondsLeft(Math.ceil(retryAfterMs / 1000));
+    const timer = setInterval(() => {
+      const left = Math.ceil((retryAt - Date.now()) / 1000);
+      if (left <= 0) {
+        clearInterval(timer);
+        setSecondsLeft(null);
+        onRetryRef.current?.();
+      } else {
+        setSecondsLeft(left);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, cancelledFor]);
+
+  // Going offline retries as soon as the connection is back
+  useEffect(() => {
+    if (error.kind !== 'network_offline' || !onRetry) return;
+    const retry = () => onRetryRef.current?.();
+    window.addEventListener('online', retry, { once: true });
+    return () => window.removeEventListener('online', retry);
+  }, [error]);
+
+  const Icon = ICONS[error.kind];
+  const retryButton = onRetry && (
+    <button onClick={onRetry} className={actionClass}><RefreshCw className="w-3 h-3" /> {t('error.retry')}</button>
+  );
+  const editPromptButton = onEditPrompt && (
+    <button onClick={onEditPrompt} className={actionClass}><PenTool className="w-3 h-3" /> {t('error.editPrompt')}</button>
+  );
+
+  let title = error.message;
+  let hint: React.ReactNode = null;
+  let actions: React.ReactNode = retryButton;
+
+  switch (error.kind) {
+    case 'rate_limited':
+      title = t('error.rateLimitTitle');
+      hint = secondsLeft !== null
+        ? t('error.retryingIn', { seconds: secondsLeft })
+        : t('error.rateLimitHint');
+      actions = secondsLeft !== null
+        ? <button onClick={() => setCancelledFor(error)} className={actionClass}>{t('error.cancelAutoRetry')}</button>
+        : retryButton;
+      break;
+    case 'auth_invalid':
+      title = t('error.authTitle');
+      hint = t('error.authHint');
+      actions = onChangeKey && <button onClick={onChangeKey} className={actionClass}><Key className="w-3 h-3" /> {t('error.changeKey')}</button>;
+      break;
+    case 'safety_blocked': {
+      const { reason, report } = error as SafetyBlockedError;
+      title = t('error.safetyTitle');
+      hint = report
+        ? <RefusalDetails report={report} />
+        : t('error.safetyHint', { reason });
+      actions = editPromptButton;
+      break;
+    }
+    case 'no_image': {
+      const report = (error as NoImageReturnedError).report;
+      title = t('error.noImageTitle');
+      hint = report?.modelText ? <RefusalDetails report={report} /> : t('error.noImageHint');
+      actions = <>{retryButton}{editPromptButton}</>;
+      break;
+    }
+    case 'network_offline':
+      title = t('error.offlineTitle');
+      hint = t('error.offlineHint');
+      break;
+    case 'parse_failed':
+      title = t('error.parseTitle');
+      hint = (error as ParseFailedError).issues.length > 0 && (
+        <ul className="list-disc pl-4 space-y-0.5">
+          {(error as ParseFailedError).issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+        </ul>
+      );
+      actions = onRetry && <button onClick={onRetry} className={actionClass}><RefreshCw className="w-3 h-3" /> {t('error.retryAnalysis')}</button>;
+      break;
+  }
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+        <div className="space-y-2">
+          <p className="text-sm text-red-700 font-medium">{title}</p>
+          {hint && <div className="text-xs text-red-600/80">{hint}</div>}
+          {actions && <div className="flex flex-wrap gap-2">{actions}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
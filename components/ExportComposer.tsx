@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ExportDetails,
+  ExportFormat,
+  ExportImage,
+  ExportLayout,
+  ExportRequest,
+  LAYOUT_SIZES,
+  MAX_COLLAGE_IMAGES,
+  PRINT_DPI,
+  composeCanvas,
+  exportComposition,
+  exportFileName
+} from '../services/exportComposer';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Download, Loader2, Printer, X } from 'lucide-react';
+
+interface ExportComposerProps {
+  images: ExportImage[];
+  details: ExportDetails;
+  defaultCaption: string;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  pdf: 'PDF',
+};
+
+const LAYOUT_LABELS: Record<ExportLayout, MessageKey> = {
+  postcard: 'export.postcard',
+  collage: 'export.collage',
+};
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+export const ExportComposer: React.FC<ExportComposerProps> = ({ images, details, defaultCaption, onClose }) => {
+  const { t } = useI18n();
+  const [layout, setLayout] = useState<ExportLayout>(images.length > 1 ? 'collage' : 'postcard');
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [selected, setSelected] = useState<string[]>(() => images.slice(0, MAX_COLLAGE_IMAGES).map(img => img.url));
+  const [caption, setCaption] = useState(defaultCaption);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  // A postcard shows one image: the first selected one
+  const chosen = useMemo(() => {
+    const picked = images.filter(img => selected.includes(img.url));
+    return layout === 'postcard' ? picked.slice(0, 1) : picked.slice(0, MAX_COLLAGE_IMAGES);
+  }, [images, selected, layout]);
+
+  const request: ExportRequest = useMemo(
+    () => ({ layout, format, images: chosen, details, caption }),
+    [layout, format, chosen, details, caption]
+  );
+
+  // Parent props are rebuilt on every render; only re-render the preview when the content changes
+  const previewKey = JSON.stringify([layout, chosen.map(img => images.indexOf(img)), images.length, details, caption]);
+
+  useEffect(() => {
+    if (chosen.length === 0) {
+      setPreviewUrl(null);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const canvas = await composeCanvas(request);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        console.error("Export preview failed", e);
+        setError('export.previewFailed');
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [previewKey]);
+
+  const toggleImage = (url: string) => {
+    if (layout === 'postcard') {
+      setSelected([url]);
+      return;
+    }
+    setSelected(prev => prev.includes(url) ? prev.filter(u => u !== url) : [...prev, url]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportComposition(request);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exportFileName(request);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error("Export failed", e);
+      setError('export.failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const size = LAYOUT_SIZES[layout];
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6 font-sans">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Printer className="w-5 h-5 text-indigo-600" />
+            <h2 className="text-lg font-bold text-slate-800">{t('export.title')}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="flex-1 bg-slate-100 p-4 flex items-center justify-center">
+            {previewUrl
+              ? <img src={previewUrl} alt={t('export.previewAlt')} className="max-w-full max-h-[60vh] shadow-xl" />
+              : <Loader2 className="w-6 h-6 animate-spin text-slate-400" />}
+          </div>
+
+          <div className="w-72 p-4 space-y-4 overflow-y-auto border-l border-slate-100">
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500">{t('export.layout')}</p>
+              <div className="flex bg-slate-100 p-1 rounded-lg">
+                {(Object.keys(LAYOUT_SIZES) as ExportLayout[]).map(l => (
+                  <button
+                    key={l}
+                    onClick={() => setLayout(l)}
+                    className={`flex-1 py-1.5 text-xs font-semibold rounded-md ${layout === l ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {t(LAYOUT_LABELS[l])}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400">
+                {t('export.size', { widthIn: size.widthIn, heightIn: size.heightIn, width: size.widthIn * PRINT_DPI, height: size.heightIn * PRINT_DPI, dpi: PRINT_DPI })}
+              </p>
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500">
+                {layout === 'postcard' ? t('export.image') : t('export.images', { max: MAX_COLLAGE_IMAGES })}
+              </p>
+              <div className="grid grid-cols-4 gap-1.5">
+                {images.map(img => (
+                  <button
+                    key={img.url}
+                    onClick={() => toggleImage(img.url)}
+                    title={img.label}
+                    className={`aspect-square rounded-md overflow-hidden ${chosen.includes(img) ? 'ring-2 ring-indigo-600' : 'opacity-50 hover:opacity-80'}`}
+                  >
+                    <img src={img.url} alt={img.label} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500">{t('export.caption')}</p>
+              <textarea
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                className="w-full h-24 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500">{t('export.format')}</p>
+              <div className="flex bg-slate-100 p-1 rounded-lg">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => (
+                  <button
+                    key={f}
+                    onClick={() => setFormat(f)}
+                    className={`flex-1 py-1.5 text-xs font-semibold rounded-md ${format === f ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {FORMAT_LABELS[f]}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400">{t('export.embedded')}</p>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{t(error)}</p>}
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting || chosen.length === 0}
+              className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl text-sm hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              {t('export.download', { format: FORMAT_LABELS[format] })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
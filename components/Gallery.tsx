@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { SavedShot, TimeEra, VisualStyle } from '../types';
+import { findStyle } from '../services/styleCatalog';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Images, Search, Trash2, X } from 'lucide-react';
+
+interface GalleryProps {
+  shots: SavedShot[];
+  styles: VisualStyle[];
+  onSelect: (shot: SavedShot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ERA_LABELS: Record<TimeEra, MessageKey> = {
+  [TimeEra.PAST]: 'sidebar.eraPast',
+  [TimeEra.PRESENT]: 'sidebar.eraNow',
+  [TimeEra.FUTURE]: 'sidebar.eraFuture',
+};
+
+export const Gallery: React.FC<GalleryProps> = ({ shots, styles, onSelect, onDelete, onClose }) => {
+  const { t, formatYear } = useI18n();
+  const [query, setQuery] = useState('');
+  const [eraFilter, setEraFilter] = useState<TimeEra | 'all'>('all');
+  const [styleFilter, setStyleFilter] = useState<string>('all');
+
+  // Older shots stored the style label; deleted user styles keep their raw id
+  const styleKey = (shot: SavedShot) => findStyle(styles, shot.style)?.id || shot.style;
+  const styleLabel = (key: string) => findStyle(styles, key)?.label || key;
+  const usedStyles = useMemo(() => Array.from(new Set(shots.map(styleKey))), [shots, styles]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return shots.filter(shot =>
+      (eraFilter === 'all' || shot.era === eraFilter) &&
+      (styleFilter === 'all' || styleKey(shot) === styleFilter) &&
+      (!q || shot.locationInfo.name.toLowerCase().includes(q) || (shot.year || '').includes(q) || shot.variation.toLowerCase().includes(q) || (shot.editInstruction || '').toLowerCase().includes(q))
+    );
+  }, [shots, styles, query, eraFilter, styleFilter]);
+
+  return (
+    <div className="absolute top-4 left-4 w-80 max-h-[calc(100vh-32px)] bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl z-[1000] border border-white/50 flex flex-col font-sans">
+      <div className="flex justify-between items-center p-4 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <Images className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-bold text-slate-800">{t('gallery.title')}</h2>
+          <span className="px-2 py-0.5 bg-violet-100 text-violet-700 text-[10px] font-bold rounded-full">{shots.length}</span>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-100">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('gallery.search')}
+            className="w-full pl-8 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select value={eraFilter} onChange={(e) => setEraFilter(e.target.value as TimeEra | 'all')} className="flex-1 p-1.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-600">
+            <option value="all">{t('gallery.allEras')}</option>
+            {Object.values(TimeEra).map(era => <option key={era} value={era}>{t(ERA_LABELS[era])}</option>)}
+          </select>
+          <select value={styleFilter} onChange={(e) => setStyleFilter(e.target.value)} className="flex-1 p-1.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-600">
+            <option value="all">{t('gallery.allStyles')}</option>
+            {usedStyles.map(key => <option key={key} value={key}>{styleLabel(key)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto p-4">
+        {filtered.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-8">
+            {shots.length === 0 ? t('gallery.empty') : t('gallery.noMatch')}
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {filtered.map(shot => (
+              <div key={shot.id} className="relative rounded-xl overflow-hidden shadow group aspect-square cursor-pointer" onClick={() => onSelect(shot)}>
+                <img src={shot.imageUrl} alt={shot.locationInfo.name} className="w-full h-full object-cover" />
+                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-2">
+                  <p className="text-[10px] font-semibold text-white truncate">{shot.locationInfo.name}</p>
+                  <p className="text-[9px] text-white/80 truncate">{shot.year ? formatYear(shot.year) : t(ERA_LABELS[shot.era])} · {styleLabel(shot.style)}</p>
+                  {shot.editInstruction && <p className="text-[9px] text-white/70 italic truncate">{t('gallery.edit', { instruction: shot.editInstruction })}</p>}
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(shot.id); }}
+                  className="absolute top-1.5 right-1.5 p-1.5 bg-white/90 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-50"
+                  title={t('gallery.delete')}
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, Locale, MessageKey, MessageParams, detectLocale, saveLocale, translate, translatePlural } from '../services/i18n';
+import { formatYearDisplay } from '../services/years';
+
+interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tp: (key: string, count: number, params?: MessageParams) => string;
+  formatYear: (year: string) => string;
+}
+
+const bind = (locale: Locale, setLocale: (locale: Locale) => void): I18nValue => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  tp: (key, count, params) => translatePlural(locale, key, count, params),
+  formatYear: (year) => formatYearDisplay(year, locale),
+});
+
+// English outside a provider, so components still render in isolation
+const I18nContext = createContext<I18nValue>(bind(DEFAULT_LOCALE, () => {}));
+
+/**
+ * Holds the UI language. The choice is remembered and mirrored into <html lang>.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => bind(locale, (next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { ShotRun } from '../types';
+import { AppError, NoImageReturnedError, SafetyBlockedError, describeError, toAppError } from '../services/errors';
+import { lineage, versionsOf } from '../services/imageEditing';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { RefusalDetails } from './RefusalDetails';
+import { CornerDownRight, History, Loader2, Send, Undo2, WandSparkles, X } from 'lucide-react';
+
+interface ImageEditorProps {
+  run: ShotRun;
+  onEdit: (baseVersionId: string, instruction: string) => Promise<void>;
+  onSelectVersion: (versionId: string) => void;
+  onClose: () => void;
+}
+
+// Sent as written, so they follow the UI language like typed instructions do
+const SUGGESTIONS: MessageKey[] = ['editor.suggestSunset', 'editor.suggestRain', 'editor.suggestCars', 'editor.suggestHat'];
+
+/**
+ * Refines one shot with follow-up instructions. Each edit starts from the selected
+ * version, so stepping back and editing again branches the history.
+ */
+export const ImageEditor: React.FC<ImageEditorProps> = ({ run, onEdit, onSelectVersion, onClose }) => {
+  const { locale, t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const versions = versionsOf(run);
+  const active = versions.find(v => v.id === run.activeVersionId) || versions[versions.length - 1];
+  const activePath = lineage(versions, active.id);
+  const versionNumber = (id: string) => versions.findIndex(v => v.id === id) + 1;
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const text = instruction.trim();
+    if (!text || isEditing) return;
+    setIsEditing(true);
+    setError(null);
+    try {
+      await onEdit(active.id, text);
+      setInstruction('');
+    } catch (err) {
+      setError(toAppError(err));
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const refusal = error instanceof SafetyBlockedError || error instanceof NoImageReturnedError ? error.report : null;
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6 font-sans">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <WandSparkles className="w-5 h-5 text-indigo-600" />
+            <h2 className="text-lg font-bold text-slate-800">{t('editor.title', { label: run.shot.label })}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="flex-1 bg-slate-100 p-4 flex flex-col items-center justify-center gap-3 relative">
+            <img src={active.imageUrl} alt={run.shot.label} className={`max-w-full max-h-[55vh] rounded-lg shadow-xl ${isEditing ? 'opacity-60' : ''}`} />
+            {isEditing && <Loader2 className="w-8 h-8 animate-spin text-indigo-600 absolute" />}
+            <p className="text-xs text-slate-500 text-center">
+              {activePath.length > 1
+                ? activePath.slice(1).map(v => v.instruction).join(' → ')
+                : t('editor.originalShot')}
+            </p>
+          </div>
+
+          <div className="w-72 p-4 space-y-4 overflow-y-auto border-l border-slate-100">
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <p className="text-xs font-semibold text-slate-500">{t('editor.instruction')}</p>
+              <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e); }}
+                placeholder={t('editor.placeholder')}
+                rows={2}
+                className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+              />
+              <div className="flex flex-wrap gap-1">
+                {SUGGESTIONS.map(key => (
+                  <button key={key} type="button" onClick={() => setInstruction(t(key))} className="px-2 py-0.5 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-slate-500 rounded-full text-[10px]">
+                    {t(key)}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="submit"
+                disabled={isEditing || !instruction.trim()}
+                className="w-full py-2.5 bg-indigo-600 text-white font-bold rounded-xl text-sm hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isEditing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                {t('editor.apply', { number: versionNumber(active.id) })}
+              </button>
+            </form>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-3 space-y-2">
+                <p className="text-xs font-semibold text-red-700">{describeError(error, locale)}</p>
+                {refusal && <RefusalDetails report={refusal} />}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <p className="text-xs font-semibold text-slate-500 flex items-center gap-1"><History className="w-3 h-3" /> {t('editor.history')}</p>
+                <button
+                  onClick={() => active.parentId && onSelectVersion(active.parentId)}
+                  disabled={!active.parentId || isEditing}
+                  className="text-[10px] text-slate-500 hover:text-indigo-600 disabled:opacity-40 flex items-center gap-1"
+                >
+                  <Undo2 className="w-3 h-3" /> {t('editor.stepBack')}
+                </button>
+              </div>
+              <div className="space-y-1.5">
+                {versions.map((version, index) => {
+                  const onPath = activePath.includes(version);
+                  const previous = versions[index - 1];
+                  return (
+                    <button
+                      key={version.id}
+                      onClick={() => onSelectVersion(version.id)}
+                      disabled={isEditing}
+                      className={`w-full flex items-center gap-2 p-1.5 rounded-lg text-left border ${version === active ? 'border-indigo-400 bg-indigo-50' : onPath ? 'border-indigo-100' : 'border-transparent hover:bg-slate-50'}`}
+                    >
+                      <img src={version.imageUrl} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-[11px] font-semibold text-slate-700 truncate">
+                          v{index + 1} · {version.instruction || t('editor.original')}
+                        </p>
+                        {/* Only call out the parent when this version branches off an earlier one */}
+                        {version.parentId && previous && version.parentId !== previous.id && (
+                          <p className="text-[10px] text-slate-400 flex items-center gap-0.5">
+                            <CornerDownRight className="w-3 h-3" /> {t('editor.branchedFrom', { number: versionNumber(version.parentId) })}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
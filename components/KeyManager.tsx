@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { AIProviderId, validateApiKey } from '../services/aiProvider';
+import {
+  KeyVault,
+  MIN_PASSPHRASE_LENGTH,
+  clearLegacyKey,
+  createKeyVault,
+  deleteKeyVault,
+  hasKeyVault,
+  readLegacyKey,
+  unlockKeyVault
+} from '../services/keyVault';
+import { useI18n } from './I18nProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { AlertCircle, Check, Key, Loader2, Lock, MapPin, Plus, Trash2 } from 'lucide-react';
+
+interface KeyManagerProps {
+  providerId: AIProviderId;
+  vault: KeyVault | null;
+  onVaultChange: (vault: KeyVault | null) => void;
+  onUseKey: (apiKey: string) => void;
+  notice?: string | null; // e.g. why the previous key was rejected
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 text-slate-800 transition-all";
+const primaryButtonClass = "w-full py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition-transform active:scale-95 shadow-lg shadow-indigo-200 disabled:opacity-50 flex items-center justify-center gap-2";
+
+export const KeyManager: React.FC<KeyManagerProps> = ({ providerId, vault, onVaultChange, onUseKey, notice }) => {
+  const { t, formatYear } = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [, setRevision] = useState(0); // the vault mutates in place; bump to re-render
+
+  const vaultExists = hasKeyVault();
+  const legacyKey = readLegacyKey();
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (e: any) {
+      setError(e?.message || t('key.genericError'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setError(t('key.mismatch'));
+      return;
+    }
+    run(async () => {
+      const created = await createKeyVault(passphrase);
+      // Move the old plaintext key into the vault
+      if (legacyKey) {
+        await created.addProfile(t('key.savedKeyName'), legacyKey);
+        clearLegacyKey();
+      }
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onVaultChange(created);
+    });
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await unlockKeyVault(passphrase);
+      if (result.kind === 'wrong_passphrase') {
+        setError(t('key.wrongPassphrase'));
+        return;
+      }
+      setPassphrase('');
+      onVaultChange(result.vault);
+    });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t('key.resetConfirm'))) return;
+    deleteKeyVault();
+    setError(null);
+    onVaultChange(null);
+  };
+
+  const handleAddProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const apiKey = keyInput.trim();
+    if (!vault || !apiKey) return;
+    run(async () => {
+      setWarning(null);
+      const validation = await validateApiKey(providerId, apiKey);
+      if (validation.kind === 'invalid') {
+        setError(validation.message);
+        return;
+      }
+      if (validation.kind === 'unverified') {
+        setWarning(t('key.unverified', { message: validation.message }));
+      }
+      await vault.addProfile(profileName, apiKey);
+      setKeyInput('');
+      setProfileName('');
+      setRevision(r => r + 1);
+    });
+  };
+
+  const handleUse = (profileId: string) => {
+    if (!vault) return;
+    const apiKey = vault.getKey(profileId);
+    if (!apiKey) return;
+    vault.setActiveProfile(profileId);
+    onUseKey(apiKey);
+  };
+
+  const handleRemove = (profileId: string) => {
+    if (!vault) return;
+    vault.removeProfile(profileId);
+    setRevision(r => r + 1);
+  };
+
+  const profiles = vault?.listProfiles() || [];
+  const activeProfile = vault?.getActiveProfile();
+
+  return (
+    <div className="h-screen w-full flex flex-col items-center justify-center bg-slate-100 p-4 font-sans">
+      <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full space-y-6 relative">
+        <LanguageSwitcher className="absolute top-4 right-4" />
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-indigo-100 rounded-full flex items-center justify-center text-indigo-600">
+              <MapPin className="w-8 h-8" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-slate-800 mb-2">ChronoTravel AI</h1>
+          <p className="text-slate-500 text-sm leading-relaxed">
+            {t('key.tagline', { year: formatYear('-10000') })}
+            <br />{vault ? t('key.pickKey') : t('key.storedEncrypted')}
+          </p>
+        </div>
+
+        {notice && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-sm text-amber-800 flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" /> {notice}
+          </div>
+        )}
+
+        {!vault && !vaultExists && (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('key.newPassphrase', { min: MIN_PASSPHRASE_LENGTH })} className={inputClass} autoFocus />
+            <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder={t('key.repeatPassphrase')} className={inputClass} />
+            {legacyKey && <p className="text-xs text-slate-500">{t('key.legacyMoved')}</p>}
+            <button type="submit" disabled={busy || passphrase.length < MIN_PASSPHRASE_LENGTH} className={primaryButtonClass}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />} {t('key.createVault')}
+            </button>
+          </form>
+        )}
+
+        {!vault && vaultExists && (
+          <form onSubmit={handleUnlock} className="space-y-3">
+            <div className="relative">
+              <Lock className="absolute left-3 top-3.5 w-5 h-5 text-slate-400" />
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('key.passphrase')} className={`${inputClass} pl-10`} autoFocus />
+            </div>
+            <button type="submit" disabled={busy || !passphrase} className={primaryButtonClass}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : null} {t('key.unlock')}
+            </button>
+            <button type="button" onClick={handleReset} className="w-full text-xs text-slate-400 hover:text-red-600">
+              {t('key.forgot')}
+            </button>
+          </form>
+        )}
+
+        {vault && (
+          <div className="space-y-4">
+            {profiles.length > 0 && (
+              <div className="space-y-2">
+                {profiles.map(profile => (
+                  <div key={profile.id} className={`flex items-center gap-3 p-3 rounded-xl border ${profile.id === activeProfile?.id ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200'}`}>
+                    <Key className="w-4 h-4 text-slate-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-700 truncate">{profile.name}</p>
+                      <p className="text-[11px] font-mono text-slate-400">{profile.maskedKey}</p>
+                    </div>
+                    <button onClick={() => handleUse(profile.id)} className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 flex items-center gap-1">
+                      <Check className="w-3 h-3" /> {t('key.use')}
+                    </button>
+                    <button onClick={() => handleRemove(profile.id)} className="text-slate-400 hover:text-red-600" title={t('key.delete')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddProfile} className="space-y-3 border-t border-slate-100 pt-4">
+              <p className="text-xs font-semibold text-slate-500 flex items-center gap-1"><Plus className="w-3 h-3" /> {t('key.addKey')}</p>
+              <input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder={t('key.namePlaceholder')} className={inputClass} />
+              <input type="password" value={keyInput} onChange={(e) => setKeyInput(e.target.value)} placeholder={t('key.keyPlaceholder')} className={inputClass} />
+              <button type="submit" disabled={busy || !keyInput.trim()} className={primaryButtonClass}>
+                {busy ? <><Loader2 className="w-4 h-4 animate-spin" /> {t('key.checking')}</> : t('key.save')}
+              </button>
+            </form>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+        {warning && <p className="text-xs text-amber-600 text-center">{warning}</p>}
+
+        <div className="text-xs text-slate-400 pt-4 border-t border-slate-100 text-center">
+          {t('key.noKey')} {' '}
+          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline font-semibold">
+            {t('key.getKey')}
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LOCALES, Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Languages } from 'lucide-react';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={`flex items-center gap-1.5 text-sm text-slate-700 ${className}`} title={t('app.language')}>
+      <Languages className="w-4 h-4 text-indigo-600" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent font-semibold outline-none cursor-pointer"
+        aria-label={t('app.language')}
+      >
+        {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+      </select>
+    </label>
+  );
+};
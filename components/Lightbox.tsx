@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LightboxImage, LightboxMode } from '../types';
+import { pickComparison } from '../services/comparison';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { ChevronLeft, ChevronRight, ChevronsLeftRight, Columns2, Image, RotateCcw, SquareSplitHorizontal, X, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface LightboxProps {
+  images: LightboxImage[]; // browsed with the arrow keys
+  startIndex: number;
+  candidates: LightboxImage[]; // what the current image can be compared with; may include `images`
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 1.25;
+
+const MODES: { id: LightboxMode; label: MessageKey; icon: React.ElementType }[] = [
+  { id: 'single', label: 'lightbox.single', icon: Image },
+  { id: 'split', label: 'lightbox.split', icon: SquareSplitHorizontal },
+  { id: 'side', label: 'lightbox.side', icon: Columns2 },
+];
+
+/**
+ * Full-screen viewer for the current results. Zoom with the wheel, +/- or a double click,
+ * drag to pan. "Then vs Now" overlays another shot of the same place behind a split
+ * slider; side by side shows both at once. Zoom and pan apply to both images alike.
+ */
+export const Lightbox: React.FC<LightboxProps> = ({ images, startIndex, candidates, onClose }) => {
+  const { t, formatYear } = useI18n();
+  const [index, setIndex] = useState(startIndex);
+  const [mode, setMode] = useState<LightboxMode>('single');
+  const [partnerUrl, setPartnerUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [split, setSplit] = useState(50);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; x: number; y: number; pan: { x: number; y: number } } | null>(null);
+
+  const current = images[Math.min(index, images.length - 1)];
+  const others = current ? candidates.filter(c => c.imageUrl !== current.imageUrl) : [];
+  // A chosen partner sticks while browsing; otherwise pair with the shot furthest away in time
+  const partner = others.find(c => c.imageUrl === partnerUrl) || (current ? pickComparison(current, others) : null);
+
+  const yearLabel = (image: LightboxImage) => image.year ? formatYear(image.year) : t('lightbox.today');
+  const describeImage = (image: LightboxImage) => `${yearLabel(image)} · ${image.label}`;
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const zoomBy = (factor: number) => {
+    setZoom(z => {
+      const next = Math.min(MAX_ZOOM, Math.max(1, z * factor));
+      if (next === 1) setPan({ x: 0, y: 0 });
+      return next;
+    });
+  };
+
+  const go = (delta: number) => {
+    setIndex(i => Math.min(images.length - 1, Math.max(0, i + delta)));
+    resetView();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') go(-1);
+      else if (e.key === 'ArrowRight') go(1);
+      else if (e.key === 'Escape') onClose();
+      else if (e.key === '+' || e.key === '=') zoomBy(ZOOM_STEP);
+      else if (e.key === '-') zoomBy(1 / ZOOM_STEP);
+      else if (e.key === '0') resetView();
+      else if (['1', '2', '3'].includes(e.key)) setMode(MODES[Number(e.key) - 1].id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [images.length, onClose]);
+
+  if (!current) return null;
+
+  const splitFromPointer = (clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (rect) setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, kind: 'pan' | 'split') => {
+    if (kind === 'pan' && zoom === 1) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, x: e.clientX, y: e.clientY, pan };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') splitFromPointer(e.clientX);
+    else setPan({ x: drag.pan.x + e.clientX - drag.x, y: drag.pan.y + e.clientY - drag.y });
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  const transform = { transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` };
+  const imageClass = "absolute inset-0 w-full h-full object-contain select-none pointer-events-none";
+  const badge = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-1 bg-black/60 text-white text-[11px] font-semibold rounded`}>
+      {text}
+    </span>
+  );
+
+  const panHandlers = {
+    onPointerDown: (e: React.PointerEvent) => handlePointerDown(e, 'pan'),
+    onPointerMove: handlePointerMove,
+    onPointerUp: endDrag,
+    onPointerCancel: endDrag,
+    onWheel: (e: React.WheelEvent) => zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP),
+    onDoubleClick: () => (zoom > 1 ? resetView() : setZoom(2)),
+  };
+  const stageCursor = zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in';
+
+  const renderStage = () => {
+    if (mode !== 'single' && !partner) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-center text-sm text-slate-400 px-6">
+          {t('lightbox.noPartner')}
+        </div>
+      );
+    }
+
+    if (mode === 'side') {
+      return (
+        <div className="flex-1 min-h-0 grid grid-cols-2 gap-2 p-2">
+          {[current, partner].map((image, i) => (
+            <div key={i} className={`relative overflow-hidden rounded-lg bg-black ${stageCursor}`} {...panHandlers}>
+              <img src={image.imageUrl} alt={image.label} style={transform} className={imageClass} draggable={false} />
+              {badge(describeImage(image), 'left')}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div ref={stageRef} className={`relative flex-1 min-h-0 m-2 overflow-hidden rounded-lg bg-black ${stageCursor}`} {...panHandlers}>
+        {mode === 'split' ? (
+          <>
+            <img src={partner.imageUrl} alt={partner.label} style={transform} className={imageClass} draggable={false} />
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              <img src={current.imageUrl} alt={current.label} style={transform} className={imageClass} draggable={false} />
+            </div>
+            {badge(describeImage(current), 'left')}
+            {badge(describeImage(partner), 'right')}
+            <div
+              className="absolute inset-y-0 w-8 -ml-4 flex items-center justify-center cursor-ew-resize touch-none"
+              style={{ left: `${split}%` }}
+              // Moves and releases bubble up to the stage's handlers
+              onPointerDown={(e) => handlePointerDown(e, 'split')}
+              onDoubleClick={(e) => e.stopPropagation()}
+            >
+              <div className="absolute inset-y-0 left-1/2 w-0.5 bg-white/90 shadow" />
+              <span className="relative p-1.5 bg-white rounded-full shadow-lg">
+                <ChevronsLeftRight className="w-4 h-4 text-slate-800" />
+              </span>
+            </div>
+          </>
+        ) : (
+          <img src={current.imageUrl} alt={current.label} style={transform} className={imageClass} draggable={false} />
+        )}
+      </div>
+    );
+  };
+
+  // Single mode browses the results; the compare modes pick the partner
+  const strip = mode === 'single' ? images : others;
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-950/95 flex flex-col font-sans text-white">
+      <div className="flex items-center justify-between gap-4 px-4 py-3">
+        <div className="min-w-0">
+          <p className="text-sm font-bold truncate">{describeImage(current)}</p>
+          <p className="text-[11px] text-slate-400">
+            {t('lightbox.position', { index: index + 1, total: images.length })} · {t('lightbox.help')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-white/10 rounded-lg p-0.5">
+            {MODES.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-2.5 py-1.5 rounded-md text-xs font-semibold flex items-center gap-1.5 ${mode === id ? 'bg-white text-slate-900' : 'text-slate-300 hover:text-white'}`}
+              >
+                <Icon className="w-3.5 h-3.5" /> {t(label)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center bg-white/10 rounded-lg p-0.5">
+            <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={zoom === 1} className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30" title={t('lightbox.zoomOut')}>
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <span className="w-10 text-center text-[11px] font-mono">{Math.round(zoom * 100)}%</span>
+            <button onClick={() => zoomBy(ZOOM_STEP)} disabled={zoom === MAX_ZOOM} className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30" title={t('lightbox.zoomIn')}>
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={resetView} className="p-1.5 rounded-md hover:bg-white/10" title={t('lightbox.reset')}>
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-300 hover:text-white" title={t('lightbox.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center gap-2 px-2">
+        <button onClick={() => go(-1)} disabled={index === 0} className="p-2 bg-white/10 rounded-full hover:bg-white/20 disabled:opacity-20" title={t('lightbox.previous')}>
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1 h-full min-w-0 flex">{renderStage()}</div>
+        <button onClick={() => go(1)} disabled={index === images.length - 1} className="p-2 bg-white/10 rounded-full hover:bg-white/20 disabled:opacity-20" title={t('lightbox.next')}>
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      {strip.length > 0 && (
+        <div className="px-4 py-3 space-y-1.5">
+          {mode !== 'single' && <p className="text-[11px] text-slate-400">{t('lightbox.compareWith')}</p>}
+          <div className="flex gap-2 overflow-x-auto">
+            {strip.map((image, i) => {
+              const active = mode === 'single' ? i === index : image.imageUrl === partner?.imageUrl;
+              return (
+                <button
+                  key={image.id}
+                  onClick={() => {
+                    if (mode === 'single') go(i - index);
+                    else setPartnerUrl(image.imageUrl);
+                  }}
+                  className={`shrink-0 w-20 rounded-lg overflow-hidden border-2 transition-colors ${active ? 'border-indigo-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                  title={describeImage(image)}
+                >
+                  <img src={image.imageUrl} alt={image.label} className="w-full aspect-square object-cover" />
+                  <span className="block text-[9px] font-mono text-slate-300 bg-black/40 py-0.5 truncate px-1">
+                    {yearLabel(image)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Coordinates, GeocodeResult } from '../types';
+import { Geocoder } from '../services/geocoder';
+import { useI18n } from './I18nProvider';
+import { Loader2, MapPin, Search, X } from 'lucide-react';
+
+interface LocationSearchProps {
+  geocoder: Geocoder;
+  onSelect: (coords: Coordinates) => void;
+}
+
+// Remote geocoders get a breather between keystrokes
+const DEBOUNCE_MS = 250;
+
+export const LocationSearch: React.FC<LocationSearchProps> = ({ geocoder, onSelect }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setFailed(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const found = await geocoder.search(query, controller.signal);
+        setResults(found);
+        setActiveIndex(0);
+        setFailed(false);
+      } catch (e: any) {
+        if (e?.name !== 'AbortError') {
+          console.error("Location search failed", e);
+          setFailed(true);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, geocoder]);
+
+  // Close the suggestion list when clicking elsewhere
+  useEffect(() => {
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, []);
+
+  const choose = (result: GeocodeResult) => {
+    setQuery(result.name);
+    setOpen(false);
+    onSelect(result.coords);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(i => results.length ? (i + 1) % results.length : 0);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => results.length ? (i - 1 + results.length) % results.length : 0);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) choose(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && query.trim().length > 0 && (results.length > 0 || !loading);
+
+  return (
+    <div ref={containerRef} className="absolute top-4 left-1/2 -translate-x-1/2 w-80 z-[1000] font-sans">
+      <div className="relative">
+        <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+        <input
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('search.placeholder')}
+          role="combobox"
+          aria-expanded={showList}
+          aria-controls="location-search-results"
+          aria-activedescendant={showList && results[activeIndex] ? `location-result-${activeIndex}` : undefined}
+          className="w-full pl-9 pr-9 py-2 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        {loading ? (
+          <Loader2 className="absolute right-3 top-2.5 w-4 h-4 text-slate-400 animate-spin" />
+        ) : query && (
+          <button onClick={() => { setQuery(''); setResults([]); }} className="absolute right-3 top-2.5 text-slate-400 hover:text-slate-600">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showList && (
+        <ul id="location-search-results" role="listbox" className="mt-1 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg overflow-hidden">
+          {failed ? (
+            <li className="px-3 py-2 text-xs text-red-600">{t('search.failed')}</li>
+          ) : results.length === 0 ? (
+            <li className="px-3 py-2 text-xs text-slate-400">{t('search.noResults')}</li>
+          ) : results.map((result, index) => (
+            <li
+              key={`${result.name}-${index}`}
+              id={`location-result-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(e) => { e.preventDefault(); choose(result); }}
+              className={`px-3 py-2 flex items-start gap-2 cursor-pointer ${index === activeIndex ? 'bg-indigo-50' : ''}`}
+            >
+              <MapPin className="w-3.5 h-3.5 text-indigo-500 mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm text-slate-800 truncate">{result.name}</p>
+                {(result.detail || result.isCoordinates) && (
+                  <p className="text-[10px] text-slate-400 truncate">{result.isCoordinates ? t('search.coordinates') : result.detail}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
-import React, { useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, useMapEvents, useMap } from 'react-leaflet';
+import React, { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Tooltip, GeoJSON, Polyline, useMapEvents, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { Coordinates } from '../types';
+import { Coordinates, SavedShot, TimeEra, TripStop } from '../types';
+import { Geocoder } from '../services/geocoder';
+import { LocationSearch } from './LocationSearch';
+import { MapLegend } from './MapLegend';
+import { OverlayInfo, getMapYear, loadOverlayGeoJson, loadOverlayManifest, overlaysForYear, selectBasemap } from '../services/historicalMap';
 
 // Use CDN URLs for Leaflet markers to avoid bundler image import issues
 const iconUrl = 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png';
@@ -20,9 +24,44 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+// Small round pin for gallery shots so they read differently from the active marker
+const ShotIcon = L.divIcon({
+    className: '',
+    html: '<div class="w-4 h-4 rounded-full bg-violet-600 border-2 border-white shadow-md"></div>',
+    iconSize: [16, 16],
+    iconAnchor: [8, 8]
+});
+
+// Numbered badges for trip stops, created once per number
+const stopIcons = new Map<number, L.DivIcon>();
+const stopIcon = (number: number) => {
+    if (!stopIcons.has(number)) {
+        stopIcons.set(number, L.divIcon({
+            className: '',
+            html: `<div class="w-7 h-7 rounded-full bg-indigo-600 border-2 border-white shadow-lg text-white text-xs font-bold flex items-center justify-center">${number}</div>`,
+            iconSize: [28, 28],
+            iconAnchor: [14, 14]
+        }));
+    }
+    return stopIcons.get(number);
+};
+
 interface MapControllerProps {
   onLocationSelect: (coords: Coordinates) => void;
   selectedLocation: Coordinates | null;
+  focus?: Coordinates | null; // where to fly instead of the selected marker, e.g. a trip stop
+  savedShots?: SavedShot[];
+  onShotSelect?: (shot: SavedShot) => void;
+  geocoder?: Geocoder;
+  era: TimeEra;
+  year: string;
+  tripStops?: TripStop[]; // drawn as a numbered route while planning a trip
+  onTripStopSelect?: (stop: TripStop) => void;
+}
+
+interface LoadedOverlay {
+  info: OverlayInfo;
+  data: any;
 }
 
 // Component to handle map clicks and fly animation
@@ -61,7 +100,33 @@ const MapUpdater: React.FC<{ center: Coordinates | null }> = ({ center }) => {
   return null;
 };
 
-export const MapController: React.FC<MapControllerProps> = ({ onLocationSelect, selectedLocation }) => {
+export const MapController: React.FC<MapControllerProps> = ({ onLocationSelect, selectedLocation, focus, savedShots = [], onShotSelect, geocoder, era, year, tripStops = [], onTripStopSelect }) => {
+  // One pin per batch: shots from the same generation share coordinates
+  const shotPins = useMemo(() => {
+    const byBatch = new Map<string, SavedShot>();
+    for (const shot of savedShots) {
+      if (!byBatch.has(shot.batchId)) byBatch.set(shot.batchId, shot);
+    }
+    return Array.from(byBatch.values());
+  }, [savedShots]);
+
+  // The map follows the scene's era and year
+  const mapYear = getMapYear(era, year);
+  const basemap = selectBasemap(era, mapYear);
+  const [overlays, setOverlays] = useState<LoadedOverlay[]>([]);
+  const [showOverlays, setShowOverlays] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayManifest()
+      .then(manifest => Promise.all(
+        overlaysForYear(manifest, mapYear).map(async info => ({ info, data: await loadOverlayGeoJson(info) }))
+      ))
+      .then(loaded => { if (!cancelled) setOverlays(loaded); })
+      .catch(e => console.error("Failed to load historical overlays", e));
+    return () => { cancelled = true; };
+  }, [mapYear]);
+
   return (
     <div className="h-full w-full absolute inset-0 z-0">
       <MapContainer 
@@ -72,16 +137,78 @@ export const MapController: React.FC<MapControllerProps> = ({ onLocationSelect,
         zoomControl={false}
         style={{ height: '100%', width: '100%' }} // Explicit style for safety
       >
+        {/* Keyed so switching eras swaps the whole layer instead of mixing tiles */}
         <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
-          url="https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
+          key={basemap.id}
+          attribution={basemap.attribution}
+          url={basemap.url}
+          maxNativeZoom={basemap.maxZoom}
+          className={basemap.className}
         />
+
+        {showOverlays && overlays.map(({ info, data }) => (
+          <GeoJSON
+            key={info.id}
+            data={data}
+            style={{
+              color: info.color,
+              weight: 2,
+              dashArray: info.kind === 'border' ? '6 4' : undefined,
+              fillColor: info.color,
+              fillOpacity: info.kind === 'city' ? 0.35 : 0.08
+            }}
+            onEachFeature={(_feature, layer) => layer.bindTooltip(info.name, { sticky: true })}
+          />
+        ))}
         
         <MapEventsHandler onSelect={onLocationSelect} />
-        <MapUpdater center={selectedLocation} />
+        <MapUpdater center={focus !== undefined ? focus : selectedLocation} />
         
+        {shotPins.map(shot => (
+          <Marker
+            key={shot.batchId}
+            position={shot.coords}
+            icon={ShotIcon}
+            eventHandlers={{ click: () => onShotSelect?.(shot) }}
+          >
+            <Tooltip direction="top" offset={[0, -8]}>
+              {shot.locationInfo.name}{shot.year ? ` · ${shot.year}` : ''}
+            </Tooltip>
+          </Marker>
+        ))}
+
+        {tripStops.length > 1 && (
+          <Polyline
+            positions={tripStops.map(stop => [stop.coords.lat, stop.coords.lng] as [number, number])}
+            pathOptions={{ color: '#4f46e5', weight: 3, dashArray: '8 6', opacity: 0.8 }}
+          />
+        )}
+
+        {tripStops.map((stop, index) => (
+          <Marker
+            key={stop.id}
+            position={stop.coords}
+            icon={stopIcon(index + 1)}
+            eventHandlers={{ click: () => onTripStopSelect?.(stop) }}
+          >
+            <Tooltip direction="top" offset={[0, -14]}>
+              {index + 1}. {stop.label}{stop.year ? ` · ${stop.year}` : ''}
+            </Tooltip>
+          </Marker>
+        ))}
+
         {selectedLocation && <Marker position={selectedLocation} />}
       </MapContainer>
+
+      <MapLegend
+        year={mapYear}
+        basemap={basemap}
+        overlays={overlays.map(o => o.info)}
+        showOverlays={showOverlays}
+        onToggleOverlays={setShowOverlays}
+      />
+
+      {geocoder && <LocationSearch geocoder={geocoder} onSelect={onLocationSelect} />}
     </div>
   );
 };
\ No newline at end of file
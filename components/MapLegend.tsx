@@ -0,0 +1,60 @@
+import React from 'react';
+import { Basemap, BasemapId, OverlayInfo } from '../services/historicalMap';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Layers } from 'lucide-react';
+
+interface MapLegendProps {
+  year: number;
+  basemap: Basemap;
+  overlays: OverlayInfo[];
+  showOverlays: boolean;
+  onToggleOverlays: (show: boolean) => void;
+}
+
+const BASEMAP_LABELS: Record<BasemapId, MessageKey> = {
+  modern: 'map.basemapModern',
+  historical: 'map.basemapHistorical',
+  ancient: 'map.basemapAncient',
+  future: 'map.basemapFuture',
+};
+
+export const MapLegend: React.FC<MapLegendProps> = ({ year, basemap, overlays, showOverlays, onToggleOverlays }) => {
+  const { t, formatYear } = useI18n();
+
+  return (
+    <div className="absolute bottom-6 left-4 z-[1000] w-60 bg-white/90 backdrop-blur-md rounded-xl shadow-lg p-3 font-sans space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-700 flex items-center gap-1.5">
+          <Layers className="w-3.5 h-3.5 text-indigo-600" /> {t('map.title', { year: formatYear(String(year)) })}
+        </span>
+      </div>
+      <p className="text-[10px] text-slate-500">{t('map.basemap', { name: t(BASEMAP_LABELS[basemap.id]) })}</p>
+
+      {overlays.length > 0 ? (
+        <>
+          <ul className="space-y-1">
+            {overlays.map(overlay => (
+              <li key={overlay.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                <span
+                  className={`w-3 h-3 shrink-0 ${overlay.kind === 'city' ? 'rounded-sm' : 'rounded-full border-2'}`}
+                  style={overlay.kind === 'city' ? { backgroundColor: overlay.color } : { borderColor: overlay.color }}
+                />
+                <span className="truncate">{overlay.name}</span>
+                <span className="ml-auto text-[9px] font-mono text-slate-400 shrink-0">
+                  {t('date.range', { from: formatYear(String(overlay.startYear)), to: formatYear(String(overlay.endYear)) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-1.5 text-[10px] text-slate-500">
+            <input type="checkbox" checked={showOverlays} onChange={(e) => onToggleOverlays(e.target.checked)} className="accent-indigo-600" />
+            {t('map.showOverlays')}
+          </label>
+        </>
+      ) : (
+        <p className="text-[10px] text-slate-400">{t('map.noOverlays')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { QueuedGeneration, QueuedGenerationState } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { CircleCheck, CloudOff, Hourglass, Loader2, TriangleAlert, X } from 'lucide-react';
+
+interface OfflineQueuePanelProps {
+  jobs: QueuedGeneration[];
+  isOnline: boolean;
+  onOpen: (shotId: string) => void;
+  onRemove: (jobId: string) => void;
+}
+
+const STATE_LABELS: Record<QueuedGenerationState, MessageKey> = {
+  waiting: 'offline.stateWaiting',
+  sending: 'offline.stateSending',
+  done: 'offline.stateDone',
+  failed: 'offline.stateFailed',
+};
+
+const StateIcon: React.FC<{ state: QueuedGenerationState }> = ({ state }) => {
+  switch (state) {
+    case 'waiting': return <Hourglass className="w-3.5 h-3.5 text-amber-500" />;
+    case 'sending': return <Loader2 className="w-3.5 h-3.5 text-indigo-600 animate-spin" />;
+    case 'done': return <CircleCheck className="w-3.5 h-3.5 text-emerald-600" />;
+    default: return <TriangleAlert className="w-3.5 h-3.5 text-red-500" />;
+  }
+};
+
+/**
+ * Offline indicator plus the generations queued while offline and their progress.
+ */
+export const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({ jobs, isOnline, onOpen, onRemove }) => {
+  const { t } = useI18n();
+  if (isOnline && jobs.length === 0) return null;
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur-xl rounded-xl shadow-lg p-3 space-y-2 font-sans">
+      {!isOnline && (
+        <p className="text-xs font-semibold text-amber-700 flex items-center gap-1.5">
+          <CloudOff className="w-4 h-4" /> {t('offline.banner')}
+        </p>
+      )}
+      {jobs.map(job => (
+        <div key={job.id} className="flex items-center gap-2 text-xs">
+          <StateIcon state={job.state} />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold text-slate-700 truncate">{job.label}</p>
+            <p className="text-[10px] text-slate-400 truncate" title={job.error}>
+              {t(STATE_LABELS[job.state])} · {job.completed}/{job.total}
+              {job.failed > 0 && ` · ${t('offline.failedCount', { count: job.failed })}`}
+              {job.error && job.state !== 'done' && ` · ${job.error}`}
+            </p>
+          </div>
+          {job.firstShotId && (
+            <button onClick={() => onOpen(job.firstShotId)} className="text-[10px] font-semibold text-indigo-600 hover:underline">{t('offline.open')}</button>
+          )}
+          <button
+            onClick={() => onRemove(job.id)}
+            className="text-slate-400 hover:text-slate-600"
+            title={t(job.state === 'waiting' || job.state === 'sending' ? 'offline.cancel' : 'offline.dismiss')}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { PlausibilityCheck, PlausibilityVerdict } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { History, Landmark, Loader2, RotateCcw, ShieldAlert, ShieldCheck, ShieldX, Sparkles, TriangleAlert } from 'lucide-react';
+
+interface PlausibilityPanelProps {
+  check: PlausibilityCheck;
+  onRetry: () => void;
+}
+
+const VERDICT_STYLES: Record<PlausibilityVerdict, { icon: React.ElementType; badge: string; label: MessageKey }> = {
+  plausible: { icon: ShieldCheck, badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', label: 'plausibility.plausible' },
+  questionable: { icon: ShieldAlert, badge: 'bg-amber-50 text-amber-700 border-amber-200', label: 'plausibility.questionable' },
+  implausible: { icon: ShieldX, badge: 'bg-red-50 text-red-700 border-red-200', label: 'plausibility.implausible' },
+};
+
+/**
+ * What the place was like at the chosen date, shown before generating.
+ * Renders nothing until there is a place and a readable date to check.
+ */
+export const PlausibilityPanel: React.FC<PlausibilityPanelProps> = ({ check, onRetry }) => {
+  const { t } = useI18n();
+  if (check.kind === 'idle') return null;
+
+  const header = (badge?: React.ReactNode) => (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs font-bold text-slate-600 uppercase flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5 text-indigo-500" /> {t('plausibility.title')}
+      </span>
+      {badge}
+    </div>
+  );
+
+  if (check.kind === 'checking') {
+    return (
+      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+        {header()}
+        <p className="text-[11px] text-slate-500 flex items-center gap-1.5">
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-500" /> {t('plausibility.checking')}
+        </p>
+      </div>
+    );
+  }
+
+  if (check.kind === 'failed') {
+    return (
+      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+        {header(
+          <button onClick={onRetry} className="text-[11px] font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+            <RotateCcw className="w-3 h-3" /> {t('plausibility.retry')}
+          </button>
+        )}
+        <p className="text-[11px] text-slate-500">{t('plausibility.failed', { message: check.message })}</p>
+      </div>
+    );
+  }
+
+  const { report } = check;
+  const verdict = VERDICT_STYLES[report.verdict];
+  const VerdictIcon = verdict.icon;
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2 animate-fadeIn">
+      {header(
+        <span className={`px-2 py-0.5 rounded-full border text-[10px] font-semibold flex items-center gap-1 ${verdict.badge}`}>
+          <VerdictIcon className="w-3 h-3" /> {t(verdict.label)}
+        </span>
+      )}
+      <p className="text-xs text-slate-700 leading-relaxed">{report.summary}</p>
+      <dl className="text-[11px] text-slate-600 space-y-1">
+        <div><dt className="inline font-semibold">{t('plausibility.settlement')}: </dt><dd className="inline">{report.settlement}</dd></div>
+        <div><dt className="inline font-semibold">{t('plausibility.landscape')}: </dt><dd className="inline">{report.landscape}</dd></div>
+      </dl>
+      {report.structures.length > 0 && (
+        <div className="text-[11px] text-slate-600">
+          <p className="font-semibold flex items-center gap-1"><Landmark className="w-3 h-3 text-slate-500" /> {t('plausibility.structures')}</p>
+          <ul className="list-disc pl-5">{report.structures.map(item => <li key={item}>{item}</li>)}</ul>
+        </div>
+      )}
+      {report.anachronisms.length > 0 && (
+        <div className="text-[11px] text-red-700 bg-red-50/70 border border-red-100 rounded-md p-2">
+          <p className="font-semibold flex items-center gap-1"><TriangleAlert className="w-3 h-3" /> {t('plausibility.anachronisms')}</p>
+          <ul className="list-disc pl-5">{report.anachronisms.map(item => <li key={item}>{item}</li>)}</ul>
+        </div>
+      )}
+      {report.suggestedElements.length > 0 && (
+        <div className="text-[11px] text-slate-600">
+          <p className="font-semibold flex items-center gap-1"><Sparkles className="w-3 h-3 text-indigo-500" /> {t('plausibility.suggested')}</p>
+          <ul className="list-disc pl-5">{report.suggestedElements.map(item => <li key={item}>{item}</li>)}</ul>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400">{t('plausibility.inPrompt')}</p>
+    </div>
+  );
+};
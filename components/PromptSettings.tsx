@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PromptPreset } from '../types';
+import type { TravelPhotoRequest } from '../services/aiProvider';
+import {
+  ANALYSIS_PROMPT_VARIABLES,
+  PHOTO_PROMPT_VARIABLES,
+  exportPreset,
+  importPreset,
+  renderAnalysisPrompt,
+  renderPhotoPrompt,
+  validatePreset
+} from '../services/promptPresets';
+import { useI18n } from './I18nProvider';
+import { AlertCircle, Check, Download, Eye, FileText, Save, Trash2, Upload, X } from 'lucide-react';
+
+interface PromptSettingsProps {
+  presets: PromptPreset[];
+  activePresetId: string;
+  previewRequest: TravelPhotoRequest; // current scene, used to render the preview
+  onActivate: (id: string) => void;
+  onSave: (draft: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (preset: PromptPreset) => void;
+  onClose: () => void;
+}
+
+type TemplateTab = 'photo' | 'analysis';
+
+export const PromptSettings: React.FC<PromptSettingsProps> = ({
+  presets,
+  activePresetId,
+  previewRequest,
+  onActivate,
+  onSave,
+  onDelete,
+  onImport,
+  onClose
+}) => {
+  const { locale, t } = useI18n();
+  const activePreset = presets.find(p => p.id === activePresetId) || presets[0];
+  const [draft, setDraft] = useState<PromptPreset>(activePreset);
+  const [tab, setTab] = useState<TemplateTab>('photo');
+  const [showPreview, setShowPreview] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Picking another preset (or saving, which bumps the revision) resets the draft
+  useEffect(() => {
+    setDraft(activePreset);
+  }, [activePreset.id, activePreset.revision]);
+
+  const isDirty = draft.name !== activePreset.name
+    || draft.photoTemplate !== activePreset.photoTemplate
+    || draft.analysisTemplate !== activePreset.analysisTemplate;
+  const issues = useMemo(() => validatePreset(draft, locale), [draft, locale]);
+
+  const preview = useMemo(() => {
+    if (!showPreview) return '';
+    return tab === 'photo'
+      ? renderPhotoPrompt(draft, previewRequest)
+      : renderAnalysisPrompt(draft, previewRequest.lat, previewRequest.lng, locale);
+  }, [showPreview, tab, draft, previewRequest, locale]);
+
+  const variables = tab === 'photo' ? PHOTO_PROMPT_VARIABLES : ANALYSIS_PROMPT_VARIABLES;
+  const templateKey = tab === 'photo' ? 'photoTemplate' : 'analysisTemplate';
+
+  const handleExport = () => {
+    const blob = new Blob([exportPreset(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.replace(/[^\w-]+/g, '-').toLowerCase()}.prompt.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = importPreset(await file.text(), locale);
+    if (result.kind === 'invalid') {
+      setImportError(result.message);
+      return;
+    }
+    setImportError(null);
+    onImport(result.preset);
+  };
+
+  return (
+    <div className="absolute top-4 left-4 w-[440px] max-h-[calc(100vh-32px)] bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl z-[1000] border border-white/50 flex flex-col font-sans">
+      <div className="flex justify-between items-center p-4 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-bold text-slate-800">{t('prompts.title')}</h2>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="overflow-y-auto p-4 space-y-4">
+        <div className="flex gap-2">
+          <select
+            value={activePreset.id}
+            onChange={(e) => onActivate(e.target.value)}
+            className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700"
+          >
+            {presets.map(p => (
+              <option key={p.id} value={p.id}>{p.builtIn ? t('prompts.builtIn', { name: p.name }) : t('prompts.revisionOption', { name: p.name, revision: p.revision })}</option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="p-2 border border-slate-200 rounded-lg text-slate-500 hover:text-indigo-600" title={t('prompts.export')}>
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="p-2 border border-slate-200 rounded-lg text-slate-500 hover:text-indigo-600" title={t('prompts.import')}>
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onDelete(activePreset.id)}
+            disabled={activePreset.builtIn}
+            className="p-2 border border-slate-200 rounded-lg text-slate-500 hover:text-red-600 disabled:opacity-30"
+            title={t('prompts.delete')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </div>
+        {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder={t('prompts.namePlaceholder')}
+        />
+
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {(['photo', 'analysis'] as TemplateTab[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-all ${tab === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {t(option === 'photo' ? 'prompts.photoTab' : 'prompts.analysisTab')}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={draft[templateKey]}
+          onChange={(e) => setDraft({ ...draft, [templateKey]: e.target.value })}
+          spellCheck={false}
+          className="w-full h-64 p-3 bg-slate-50 border border-slate-200 rounded-lg text-[11px] font-mono leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+
+        <div>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">
+            {t('prompts.syntax', { variable: '{{name}}', section: '{{#name}}…{{/name}} / {{^name}}…{{/name}}' })}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {variables.map(v => (
+              <span key={v.name} title={t(v.description)} className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 rounded text-[10px] font-mono cursor-help">
+                {v.name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="bg-amber-50 border border-amber-100 rounded-lg p-2 space-y-0.5">
+            {issues.map(issue => (
+              <p key={issue} className="text-[11px] text-amber-700 flex items-start gap-1">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {issue}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => setShowPreview(!showPreview)}
+          className="text-xs font-semibold text-indigo-600 flex items-center gap-1"
+        >
+          <Eye className="w-3.5 h-3.5" /> {t(showPreview ? 'prompts.hidePreview' : 'prompts.showPreview')}
+        </button>
+        {showPreview && (
+          <pre className="p-3 bg-slate-900 text-slate-100 rounded-lg text-[10px] leading-relaxed whitespace-pre-wrap max-h-64 overflow-y-auto">{preview}</pre>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-slate-100 flex items-center gap-2">
+        <span className="text-[10px] text-slate-400 flex-1">
+          {activePreset.builtIn ? t('prompts.builtInNote') : t('prompts.revision', { revision: activePreset.revision })}
+        </span>
+        {isDirty && (
+          <button onClick={() => setDraft(activePreset)} className="px-3 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700">
+            {t('prompts.discard')}
+          </button>
+        )}
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!isDirty || issues.length > 0 || !draft.name.trim()}
+          className="px-4 py-2 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-40 flex items-center gap-1.5"
+        >
+          {isDirty ? <Save className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />} {t(isDirty ? 'prompts.save' : 'prompts.saved')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { GenerationReport } from '../types';
+import { describeRefusal, suggestRephrasing } from '../services/errors';
+import { useI18n } from './I18nProvider';
+import { Lightbulb } from 'lucide-react';
+
+interface RefusalDetailsProps {
+  report: GenerationReport;
+}
+
+/**
+ * Why the model withheld an image, what it said, and how to reword the request.
+ */
+export const RefusalDetails: React.FC<RefusalDetailsProps> = ({ report }) => {
+  const { locale, t } = useI18n();
+  const reason = describeRefusal(report, locale);
+  const flagged = report.safetyRatings.filter(r => r.blocked || r.probability === 'MEDIUM' || r.probability === 'HIGH');
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      {reason && <p className="text-red-600/90">{t('refusal.reason', { reason })}</p>}
+      {report.modelText && (
+        <p className="italic text-slate-600 bg-white/70 rounded-lg p-2 border border-red-100">“{report.modelText}”</p>
+      )}
+      {flagged.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {flagged.map((rating, idx) => (
+            <span key={idx} className="px-1.5 py-0.5 bg-red-100 text-red-700 rounded text-[9px] font-semibold">
+              {rating.category.replace('HARM_CATEGORY_', '').replace(/_/g, ' ').toLowerCase()} · {rating.probability.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      )}
+      <ul className="space-y-1 text-slate-600">
+        {suggestRephrasing(report, locale).map((tip, idx) => (
+          <li key={idx} className="flex items-start gap-1.5">
+            <Lightbulb className="w-3 h-3 text-amber-500 shrink-0 mt-0.5" /> {tip}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AspectRatio, ShotSpec } from '../types';
+import { ASPECT_RATIOS, MAX_SHOTS, MIN_SHOTS, SHOT_PRESETS, createPlannedShot } from '../services/shotPresets';
+import { useI18n } from './I18nProvider';
+import { Plus, X } from 'lucide-react';
+
+interface ShotPlannerProps {
+  shots: ShotSpec[];
+  onChange: (shots: ShotSpec[]) => void;
+  defaultAspectRatio: AspectRatio; // what shots without their own ratio are sent with
+}
+
+export const ShotPlanner: React.FC<ShotPlannerProps> = ({ shots, onChange, defaultAspectRatio }) => {
+  const { t } = useI18n();
+  const [customText, setCustomText] = useState('');
+  const isFull = shots.length >= MAX_SHOTS;
+
+  const addShot = (base: Omit<ShotSpec, 'id'>) => {
+    if (isFull) return;
+    onChange([...shots, createPlannedShot(base)]);
+  };
+
+  const addCustomShot = () => {
+    const text = customText.trim();
+    if (!text) return;
+    addShot({ label: text.length > 24 ? `${text.slice(0, 24)}…` : text, description: text });
+    setCustomText('');
+  };
+
+  const removeShot = (id: string) => {
+    if (shots.length <= MIN_SHOTS) return;
+    onChange(shots.filter(s => s.id !== id));
+  };
+
+  const setAspectRatio = (id: string, value: string) => {
+    onChange(shots.map(s => s.id === id ? { ...s, aspectRatio: (value || undefined) as AspectRatio | undefined } : s));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1.5">
+        {shots.map((shot, index) => (
+          <div key={shot.id} className="flex items-center gap-2 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5">
+            <span className="text-[10px] font-mono font-bold text-indigo-500 w-4">{index + 1}</span>
+            <span className="flex-1 text-xs text-slate-700 truncate" title={shot.description}>{shot.label}</span>
+            <select
+              value={shot.aspectRatio || ''}
+              onChange={(e) => setAspectRatio(shot.id, e.target.value)}
+              className="text-[10px] font-mono bg-white border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+            >
+              <option value="">{t('shots.styleDefault', { ratio: defaultAspectRatio })}</option>
+              {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <button
+              onClick={() => removeShot(shot.id)}
+              disabled={shots.length <= MIN_SHOTS}
+              className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+              title={t('shots.remove')}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {SHOT_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => addShot(preset)}
+            disabled={isFull}
+            className="py-1 px-2 rounded-full text-[10px] font-medium bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-0.5"
+          >
+            <Plus className="w-2.5 h-2.5" /> {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addCustomShot(); }}
+          disabled={isFull}
+          placeholder={t('shots.customPlaceholder')}
+          className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+        />
+        <button
+          onClick={addCustomShot}
+          disabled={isFull || !customText.trim()}
+          className="px-3 bg-slate-100 text-slate-700 rounded-lg text-xs font-semibold hover:bg-slate-200 disabled:opacity-40"
+        >
+          {t('shots.add')}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400 pl-1">{t('shots.planned', { count: shots.length, max: MAX_SHOTS })}</p>
+    </div>
+  );
+};
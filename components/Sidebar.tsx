@@ -1,91 +1,183 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Coordinates, LocationContext, TimeEra, AppStatus, VisualStyle, PointOfInterest } from '../types';
-import { Upload, Camera, Clock, Loader2, Download, MapPin, AlertCircle, Key, Calendar, PenTool, Palette, Navigation } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { Coordinates, LocationContext, TimeEra, AppStatus, VisualStyle, PointOfInterest, TimelineRun, TimelineSettings, ShotSpec, ShotRun, Traveler, SceneSettings, SceneConditions, PlausibilityCheck, LightboxImage } from '../types';
+import { Camera, Clock, Loader2, Download, MapPin, AlertCircle, Key, Calendar, PenTool, Palette, Navigation, Film, Clapperboard, RotateCcw, Square, FileText, Printer, CloudSun, WandSparkles, CloudOff, Maximize2 } from 'lucide-react';
+import { TimelineFilmstrip } from './TimelineFilmstrip';
+import { ShotPlanner } from './ShotPlanner';
+import { StylePicker } from './StylePicker';
+import { ConditionsPanel } from './ConditionsPanel';
+import { PlausibilityPanel } from './PlausibilityPanel';
+import { ExportComposer } from './ExportComposer';
+import { ErrorNotice } from './ErrorNotice';
+import { RefusalDetails } from './RefusalDetails';
+import { ImageEditor } from './ImageEditor';
+import { Lightbox } from './Lightbox';
+import { AppError } from '../services/errors';
+import { ExportImage } from '../services/exportComposer';
+import { fileExtension } from '../services/fileMetadata';
+import { resolveStyle } from '../services/styleCatalog';
+import { TravelersPicker, createTraveler } from './TravelersPicker';
+import { DEFAULT_SHOT_PLAN } from '../services/shotPresets';
+import { buildTimelineYears, MAX_TIMELINE_FRAMES } from '../services/years';
+import { parseHistoricalDate, yearFromText } from '../services/historicalDate';
+import { useI18n } from './I18nProvider';
 
 interface SidebarProps {
   location: Coordinates | null;
   locationInfo: LocationContext | null;
   status: AppStatus;
-  onGenerate: (image: File, era: TimeEra, year?: string, customPrompt?: string, style?: VisualStyle) => void;
+  onGenerate: (travelers: Traveler[], era: TimeEra, year?: string, customPrompt?: string, styleId?: string, shots?: ShotSpec[]) => void;
+  onGenerateTimeline: (travelers: Traveler[], settings: TimelineSettings, customPrompt?: string, styleId?: string) => void;
+  onCancelGeneration: () => void;
+  onRetryShot: (shotId: string) => void;
+  onEditShot: (shotId: string, baseVersionId: string, instruction: string) => Promise<void>;
+  onSelectVersion: (shotId: string, versionId: string) => void;
   generatedImages: string[]; 
+  shotRuns: ShotRun[];
+  timeline: TimelineRun | null;
   onReset: () => void;
-  errorMessage?: string | null;
+  settings: SceneSettings;
+  onSettingsChange: (patch: Partial<SceneSettings>) => void;
+  styles: VisualStyle[];
+  onStylesChange: (styles: VisualStyle[]) => void;
+  conditions: SceneConditions | null;
+  error?: AppError | null;
+  onRetryAnalysis?: () => void;
   onChangeKey?: () => void;
   onPoiSelect: (poi: PointOfInterest) => void;
+  queueWhenOffline?: boolean; // offline with a remote provider: "Generate" queues instead
+  plausibility: PlausibilityCheck;
+  onRecheckPlausibility: () => void;
+  comparisonShots: LightboxImage[]; // gallery shots of this place, offered in the lightbox's compare modes
 }
 
+// Quick picks under the year field, one per kind of date it understands
+const DATE_EXAMPLES = ['1889', '1920s', 'mid-16th century', '300 BC', '2077'];
+
 export const Sidebar: React.FC<SidebarProps> = ({
   location,
   locationInfo,
   status,
   onGenerate,
+  onGenerateTimeline,
+  onCancelGeneration,
+  onRetryShot,
+  onEditShot,
+  onSelectVersion,
   generatedImages,
+  shotRuns,
+  timeline,
   onReset,
-  errorMessage,
+  settings,
+  onSettingsChange,
+  styles,
+  onStylesChange,
+  conditions,
+  error,
+  onRetryAnalysis,
   onChangeKey,
-  onPoiSelect
+  onPoiSelect,
+  queueWhenOffline,
+  plausibility,
+  onRecheckPlausibility,
+  comparisonShots
 }) => {
-  const [selectedEra, setSelectedEra] = useState<TimeEra>(TimeEra.PRESENT);
-  const [selectedYear, setSelectedYear] = useState<string>('');
-  const [customPrompt, setCustomPrompt] = useState<string>('');
-  const [selectedStyle, setSelectedStyle] = useState<VisualStyle>('Realistic');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { locale, t, tp, formatYear } = useI18n();
+  // Scene controls live in App so they can be mirrored into the URL
+  const { era: selectedEra, year: selectedYear, style: selectedStyle, customPrompt } = settings;
+  const setSelectedYear = (year: string) => onSettingsChange({ year });
+  const setSelectedStyle = (style: string) => onSettingsChange({ style });
+  const setCustomPrompt = (prompt: string) => onSettingsChange({ customPrompt: prompt });
+  const [travelers, setTravelers] = useState<Traveler[]>(() => [createTraveler()]);
   const [overrideVague, setOverrideVague] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const AVAILABLE_STYLES: VisualStyle[] = ['Realistic', 'Cinematic', 'Documentary'];
+  const [mode, setMode] = useState<'single' | 'timeline'>('single');
+  const [shotPlan, setShotPlan] = useState<ShotSpec[]>(DEFAULT_SHOT_PLAN);
+  const [timelineSettings, setTimelineSettings] = useState<TimelineSettings>({ startYear: 1800, endYear: 2100, step: 50 });
+  const [showExport, setShowExport] = useState(false);
+  const [editingShotId, setEditingShotId] = useState<string | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const customPromptRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
       setOverrideVague(false);
   }, [location]);
 
-  useEffect(() => {
-    if (selectedEra === TimeEra.PAST) {
-      setSelectedYear('1950');
-    } else if (selectedEra === TimeEra.FUTURE) {
-      setSelectedYear('2077');
+  // The era is derived from this by the app; unreadable text keeps the last era
+  const selectedDate = parseHistoricalDate(selectedYear);
+  const isDateInvalid = !!selectedYear.trim() && !selectedDate;
+
+  const hasPhotos = travelers.some(t => t.photos.length > 0);
+
+  const timelineYears = buildTimelineYears(timelineSettings.startYear, timelineSettings.endYear, timelineSettings.step);
+
+  const handleGenerateClick = () => {
+    if (!hasPhotos) return;
+    if (mode === 'timeline') {
+      onGenerateTimeline(travelers, timelineSettings, customPrompt, selectedStyle);
     } else {
-      setSelectedYear('');
-    }
-  }, [selectedEra]);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setSelectedFile(file);
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
+      onGenerate(travelers, selectedEra, selectedYear, customPrompt, selectedStyle, shotPlan);
     }
   };
 
-  const handleGenerateClick = () => {
-    if (selectedFile) {
-      onGenerate(selectedFile, selectedEra, selectedYear, customPrompt, selectedStyle);
-    }
+  // Remediation for blocked or empty replies: take the user to the scene details
+  const focusCustomPrompt = () => {
+    customPromptRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    customPromptRef.current?.focus();
   };
 
-  const formatYearDisplay = (valStr: string) => {
-      const val = parseInt(valStr);
-      if (isNaN(val)) return valStr;
-      return val < 0 ? `${Math.abs(val)} B.C.` : `${val} A.D.`;
+  const updateTimelineSetting = (key: keyof TimelineSettings, value: string) => {
+    setTimelineSettings(prev => ({ ...prev, [key]: parseInt(value) }));
   };
 
-  const isVagueState = locationInfo?.isVague && !overrideVague && generatedImages.length === 0;
+  // Stable so the lightbox's key listener isn't rebound on every render
+  const closeLightbox = useCallback(() => setLightboxIndex(null), []);
+
+  const hasResults = shotRuns.length > 0 || timeline !== null;
+  const editingRun = shotRuns.find(run => run.shot.id === editingShotId && run.imageUrl);
+  const refusedRuns = shotRuns.filter(run => run.state === 'failed' && run.report);
+  const totalTokens = shotRuns.reduce((sum, run) => sum + (run.report?.usage?.totalTokens || 0), 0);
+
+  // The lightbox browses the timeline frames or the finished shots; a shot's year comes from its gallery entry
+  const runYear = (run: ShotRun) => comparisonShots.find(shot => shot.id === run.savedShotId)?.year;
+  const lightboxImages: LightboxImage[] = timeline
+    ? timeline.frames.map(frame => ({ id: `frame-${frame.year}`, imageUrl: frame.imageUrl, label: t('timeline.title'), year: frame.year }))
+    : shotRuns.filter(run => run.imageUrl).map(run => ({ id: run.shot.id, imageUrl: run.imageUrl, label: run.shot.label, year: runYear(run) }));
+  // Every version of an edited shot can be compared with the others, e.g. before and after a refinement
+  const versionImages: LightboxImage[] = timeline ? [] : shotRuns.flatMap(run => (run.versions || []).map((version, i) => ({
+    id: version.id,
+    imageUrl: version.imageUrl,
+    label: t('lightbox.version', { label: run.shot.label, number: i + 1 }),
+    year: runYear(run),
+  })));
+  const lightboxCandidates = [...lightboxImages, ...versionImages, ...comparisonShots]
+    .filter((image, i, all) => all.findIndex(other => other.imageUrl === image.imageUrl) === i);
+
+  // Finished images available to the postcard/collage composer
+  const exportImages: ExportImage[] = timeline
+    ? timeline.frames.map(frame => ({ url: frame.imageUrl, label: frame.year, year: frame.year }))
+    : shotRuns.filter(run => run.imageUrl).map(run => ({ url: run.imageUrl, label: run.shot.label, prompt: run.prompt }));
+  const exportButton = exportImages.length > 0 && status !== 'generating_image' && (
+    <button onClick={() => setShowExport(true)} className="w-full py-3 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
+      <Printer className="w-4 h-4" /> {t('sidebar.postcard')}
+    </button>
+  );
+  const isVagueState = locationInfo?.isVague && !overrideVague && !hasResults;
 
   if (!location) {
     return (
       <div className="absolute top-4 right-4 w-96 bg-white/90 backdrop-blur-md rounded-2xl shadow-2xl p-6 z-[1000] border border-white/50">
         <div className="text-center p-8 text-slate-500">
           <MapPin className="w-12 h-12 mx-auto mb-4 text-indigo-500 opacity-50" />
-          <h2 className="text-xl font-semibold text-slate-800 mb-2">Start Your Journey</h2>
-          <p className="text-sm">Click anywhere on the map to begin.</p>
-        </div>
-        <div className="border-t border-slate-200 mt-4 pt-4 text-center">
-             <button onClick={onChangeKey} className="text-xs text-slate-400 hover:text-indigo-600 flex items-center justify-center gap-1 mx-auto">
-                <Key className="w-3 h-3" /> Change API Key
-            </button>
+          <h2 className="text-xl font-semibold text-slate-800 mb-2">{t('sidebar.startTitle')}</h2>
+          <p className="text-sm">{t('sidebar.startHint')}</p>
         </div>
+        {onChangeKey && (
+          <div className="border-t border-slate-200 mt-4 pt-4 text-center">
+               <button onClick={onChangeKey} className="text-xs text-slate-400 hover:text-indigo-600 flex items-center justify-center gap-1 mx-auto">
+                  <Key className="w-3 h-3" /> {t('sidebar.manageKeys')}
+              </button>
+          </div>
+        )}
       </div>
     );
   }
@@ -96,31 +188,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
       <div className="flex justify-between items-center p-6 border-b border-slate-100">
         <div className="flex items-center gap-2">
           <MapPin className="w-5 h-5 text-indigo-600" />
-          <h2 className="text-lg font-bold text-slate-800">World View</h2>
+          <h2 className="text-lg font-bold text-slate-800">{t('sidebar.title')}</h2>
         </div>
         <button onClick={onReset} className="text-slate-400 hover:text-slate-600">✕</button>
       </div>
 
       <div className="p-6 space-y-6">
         
-        {status === 'error' && errorMessage && (
-            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
-                <div className="flex items-start gap-3">
-                    <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
-                    <div className="space-y-2">
-                        <p className="text-sm text-red-700 font-medium">{errorMessage}</p>
-                        {onChangeKey && (
-                            <button onClick={onChangeKey} className="text-xs bg-white border border-red-200 text-red-600 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors font-semibold">Change API Key</button>
-                        )}
-                    </div>
-                </div>
-            </div>
+        {status === 'error' && error && (
+            <ErrorNotice
+                error={error}
+                // Without location info the analysis failed; otherwise the generation did
+                onRetry={locationInfo ? handleGenerateClick : onRetryAnalysis}
+                onChangeKey={onChangeKey}
+                onEditPrompt={locationInfo ? focusCustomPrompt : undefined}
+            />
         )}
 
         {status === 'analyzing_location' && (
           <div className="flex flex-col items-center justify-center py-10 space-y-3">
             <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
-            <p className="text-sm text-slate-500">Analyzing location data...</p>
+            <p className="text-sm text-slate-500">{t('sidebar.analyzing')}</p>
           </div>
         )}
 
@@ -129,10 +217,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
                  <div className="bg-amber-50 border border-amber-100 p-4 rounded-xl">
                     <div className="flex items-center gap-2 mb-2 text-amber-700 font-semibold">
                         <Navigation className="w-4 h-4" />
-                        <h3>Precise Location Needed</h3>
+                        <h3>{t('sidebar.preciseNeeded')}</h3>
                     </div>
                     <p className="text-sm text-amber-800/80 mb-3">
-                        You clicked near <strong>{locationInfo.name}</strong>.
+                        {t('sidebar.clickedNear', { place: locationInfo.name })}
                     </p>
                     {locationInfo.nearbyPOIs?.map((poi, idx) => (
                         <button key={idx} onClick={() => onPoiSelect(poi)} className="w-full text-left p-3 bg-white hover:bg-amber-100 border border-amber-200 rounded-lg mb-2 text-sm transition-colors">
@@ -140,14 +228,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         </button>
                     ))}
                  </div>
-                 <button onClick={() => setOverrideVague(true)} className="w-full text-xs text-slate-500 underline hover:text-slate-700">Use exact spot</button>
+                 <button onClick={() => setOverrideVague(true)} className="w-full text-xs text-slate-500 underline hover:text-slate-700">{t('sidebar.useExactSpot')}</button>
             </div>
         )}
 
         {locationInfo && !isVagueState && (
           <div className="space-y-4 animate-fadeIn">
             <div>
-              <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold mb-2">Location</p>
+              <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold mb-2">{t('sidebar.location')}</p>
               <h3 className="text-xl font-bold text-slate-900 leading-tight">{locationInfo.name}</h3>
             </div>
             <div className="bg-indigo-50/50 p-4 rounded-xl border border-indigo-100">
@@ -156,166 +244,372 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
 
-        {locationInfo && !isVagueState && generatedImages.length === 0 && (
+        {locationInfo && !isVagueState && !hasResults && (
           <div className="space-y-6 border-t border-slate-100 pt-6">
-            
+
+            <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-xl">
+              {(['single', 'timeline'] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                    mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'
+                  }`}
+                >
+                  {m === 'single' ? t('sidebar.modeSingle') : t('sidebar.modeTimeline')}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'timeline' ? (
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <Film className="w-4 h-4" /> {t('sidebar.timelineRange')}
+              </label>
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  {([['startYear', t('sidebar.from')], ['endYear', t('sidebar.to')], ['step', t('sidebar.every')]] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <label className="text-[10px] font-bold text-slate-500 uppercase">{label}</label>
+                      <input
+                        type="number"
+                        value={isNaN(timelineSettings[key]) ? '' : timelineSettings[key]}
+                        min={key === 'step' ? 1 : undefined}
+                        onChange={(e) => updateTimelineSetting(key, e.target.value)}
+                        className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-slate-400 pl-1">
+                  {timelineYears.length > 0
+                    ? t('sidebar.timelineFrames', { count: timelineYears.length, from: formatYear(timelineYears[0]), to: formatYear(timelineYears[timelineYears.length - 1]) })
+                    : t('sidebar.timelineInvalid')}
+                  {timelineYears.length >= MAX_TIMELINE_FRAMES && t('sidebar.timelineMax', { max: MAX_TIMELINE_FRAMES })}
+                </p>
+              </div>
+            </div>
+            ) : (
             <div className="space-y-3">
               <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                <Clock className="w-4 h-4" /> Time Travel Mode
+                <Clock className="w-4 h-4" /> {t('sidebar.timeTravelMode')}
               </label>
+              {/* The era follows from the date below */}
               <div className="grid grid-cols-3 gap-2">
                 {Object.values(TimeEra).map((era) => (
-                    <button
+                    <div
                       key={era}
-                      onClick={() => setSelectedEra(era)}
-                      className={`py-2 px-1 rounded-lg text-sm font-medium transition-all ${
+                      className={`py-2 px-1 rounded-lg text-sm font-medium text-center transition-all ${
                         selectedEra === era 
                           ? 'bg-indigo-600 text-white shadow-md shadow-indigo-200' 
-                          : 'bg-white border border-slate-200 text-slate-600'
+                          : 'bg-white border border-slate-200 text-slate-400'
                       }`}
                     >
-                      {era === TimeEra.PAST ? 'Past' : era === TimeEra.PRESENT ? 'Now' : 'Future'}
-                    </button>
+                      {era === TimeEra.PAST ? t('sidebar.eraPast') : era === TimeEra.PRESENT ? t('sidebar.eraNow') : t('sidebar.eraFuture')}
+                    </div>
                 ))}
               </div>
 
-              {(selectedEra === TimeEra.PAST || selectedEra === TimeEra.FUTURE) && (
-                <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 animate-fadeIn">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                         <Calendar className="w-3.5 h-3.5 text-indigo-500" />
-                         <label className="text-xs font-bold text-slate-600 uppercase">Target Year</label>
-                    </div>
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                       <Calendar className="w-3.5 h-3.5 text-indigo-500" />
+                       <label className="text-xs font-bold text-slate-600 uppercase">{t('sidebar.targetYear')}</label>
+                  </div>
+                  {selectedDate && (
                     <span className="text-xs font-mono font-bold text-indigo-600">
-                        {formatYearDisplay(selectedYear)}
+                        {formatYear(selectedYear)}
                     </span>
-                  </div>
-                  
-                  {selectedEra === TimeEra.PAST && (
-                    <div className="mb-4 px-1">
-                         <input 
-                            type="range" 
-                            min="-10000" // 10,000 BC
-                            max="2020" 
-                            step="10"
-                            value={selectedYear || 1950} 
-                            onChange={(e) => setSelectedYear(e.target.value)}
-                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                         />
-                         <div className="flex justify-between text-[10px] text-slate-400 mt-1 font-mono">
-                            <span>10k B.C.</span>
-                            <span>2020 A.D.</span>
-                         </div>
-                    </div>
                   )}
-
-                  <input
-                    type="number"
-                    value={selectedYear}
-                    onChange={(e) => setSelectedYear(e.target.value)}
-                    className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
-                    placeholder="Enter Year"
-                  />
-                  <p className="text-[10px] text-slate-400 mt-1 pl-1">
-                    {selectedEra === TimeEra.PAST && parseInt(selectedYear) < 0 
-                        ? "Ancient era selected. Landscape will be natural." 
-                        : "Select specific year."}
-                  </p>
                 </div>
-              )}
-            </div>
+                
+                {selectedEra === TimeEra.PAST && selectedDate && (
+                  <div className="mb-4 px-1">
+                       <input 
+                          type="range" 
+                          min="-10000" // 10,000 BC
+                          max="2020" 
+                          step="10"
+                          value={yearFromText(selectedYear)} 
+                          onChange={(e) => setSelectedYear(e.target.value)}
+                          className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                       />
+                       <div className="flex justify-between text-[10px] text-slate-400 mt-1 font-mono">
+                          <span>{formatYear('-10000')}</span>
+                          <span>{formatYear('2020')}</span>
+                       </div>
+                  </div>
+                )}
 
-            <div className="space-y-3">
-              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                <Palette className="w-4 h-4" /> Visual Style
-              </label>
-              <div className="flex flex-wrap gap-2">
-                {AVAILABLE_STYLES.map((style) => (
+                <input
+                  type="text"
+                  value={selectedYear}
+                  onChange={(e) => setSelectedYear(e.target.value)}
+                  className={`w-full p-2 bg-white border rounded-lg text-sm font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none ${
+                    isDateInvalid ? 'border-red-300' : 'border-slate-200'
+                  }`}
+                  placeholder={t('sidebar.datePlaceholder')}
+                />
+                <div className="flex flex-wrap gap-1 mt-2">
                   <button
-                    key={style}
-                    onClick={() => setSelectedStyle(style)}
-                    className={`py-1.5 px-3 rounded-full text-xs font-medium transition-all ${
-                      selectedStyle === style ? 'bg-indigo-600 text-white shadow-sm' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+                    onClick={() => setSelectedYear('')}
+                    className={`px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${
+                      !selectedYear.trim() ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'
                     }`}
                   >
-                    {style}
+                    {t('sidebar.today')}
                   </button>
-                ))}
+                  {DATE_EXAMPLES.map(example => (
+                    <button
+                      key={example}
+                      onClick={() => setSelectedYear(example)}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${
+                        selectedYear === example ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'
+                      }`}
+                    >
+                      {formatYear(example)}
+                    </button>
+                  ))}
+                </div>
+                <p className={`text-[10px] mt-1 pl-1 ${isDateInvalid ? 'text-red-500' : 'text-slate-400'}`}>
+                  {isDateInvalid
+                      ? t('sidebar.dateInvalid')
+                      : selectedDate && selectedDate.end <= 0
+                      ? t('sidebar.ancientHint')
+                      : !selectedDate ? t('sidebar.yearHint') : null}
+                </p>
               </div>
+
+              <PlausibilityPanel check={plausibility} onRetry={onRecheckPlausibility} />
+            </div>
+            )}
+
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <CloudSun className="w-4 h-4" /> {t('sidebar.weatherLight')}
+              </label>
+              <ConditionsPanel
+                conditions={conditions}
+                overrides={settings.conditions}
+                onOverridesChange={(overrides) => onSettingsChange({ conditions: overrides })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <Palette className="w-4 h-4" /> {t('sidebar.visualStyle')}
+              </label>
+              <StylePicker
+                styles={styles}
+                selectedId={selectedStyle}
+                onSelect={setSelectedStyle}
+                onStylesChange={onStylesChange}
+              />
             </div>
             
+            {mode === 'single' && (
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                  <Clapperboard className="w-4 h-4" /> {t('sidebar.shotList')}
+                </label>
+                <ShotPlanner
+                  shots={shotPlan}
+                  onChange={setShotPlan}
+                  defaultAspectRatio={resolveStyle(styles, selectedStyle).defaultAspectRatio || '1:1'}
+                />
+              </div>
+            )}
+
             <div className="space-y-3">
                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                <PenTool className="w-4 h-4" /> Scene Details (Optional)
+                <PenTool className="w-4 h-4" /> {t('sidebar.sceneDetails')}
               </label>
               <textarea
+                ref={customPromptRef}
                 value={customPrompt}
                 onChange={(e) => setCustomPrompt(e.target.value)}
                 className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm resize-none focus:ring-2 focus:ring-indigo-500 outline-none"
-                placeholder="Describe scene..."
+                placeholder={t('sidebar.scenePlaceholder')}
                 rows={2}
               />
             </div>
 
             <div className="space-y-3">
               <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                <Camera className="w-4 h-4" /> Your Face
+                <Camera className="w-4 h-4" /> {travelers.length > 1 ? t('sidebar.travelers') : t('sidebar.yourFace')}
               </label>
-              <div onClick={() => fileInputRef.current?.click()} className="relative group cursor-pointer border-2 border-dashed border-slate-300 rounded-xl p-4 text-center h-28 flex flex-col items-center justify-center overflow-hidden hover:bg-slate-50 transition-colors">
-                <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
-                {previewUrl ? (
-                  <img src={previewUrl} alt="Preview" className="absolute inset-0 w-full h-full object-cover" />
-                ) : (
-                  <>
-                    <Upload className="w-6 h-6 text-slate-400 mb-2 group-hover:text-indigo-500" />
-                    <p className="text-xs text-slate-500">Upload Selfie</p>
-                  </>
-                )}
-              </div>
+              <TravelersPicker travelers={travelers} onChange={setTravelers} />
             </div>
 
             <button
               onClick={handleGenerateClick}
-              disabled={!selectedFile || status === 'generating_image'}
+              disabled={!hasPhotos || status === 'generating_image' || (mode === 'timeline' && timelineYears.length === 0)}
               className="w-full py-4 bg-gradient-to-r from-indigo-600 to-violet-600 text-white rounded-xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 hover:shadow-xl hover:scale-[1.02] transition-all"
             >
-              {status === 'generating_image' ? <><Loader2 className="w-5 h-5 animate-spin" /> Generating...</> : 'Generate 2 Travel Shots'}
+              {status === 'generating_image'
+                ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('sidebar.generating')}</>
+                : queueWhenOffline
+                  ? <><CloudOff className="w-5 h-5" /> {t('sidebar.queueOffline')}</>
+                  : mode === 'timeline' ? t('sidebar.generateTimeline', { count: timelineYears.length }) : tp('sidebar.generateShots', shotPlan.length)}
             </button>
+            {queueWhenOffline && (
+              <p className="text-[11px] text-slate-500 text-center">{t('sidebar.offlineNote')}</p>
+            )}
           </div>
         )}
 
-        {(status === 'generating_image' || generatedImages.length > 0) && (
+        {timeline && (
+          <>
+            <TimelineFilmstrip
+              timeline={timeline}
+              isGenerating={status === 'generating_image'}
+              onCancel={onCancelGeneration}
+              onOpen={setLightboxIndex}
+            />
+            {status !== 'generating_image' && (
+              <button onClick={handleGenerateClick} disabled={!hasPhotos} className="w-full py-3 bg-slate-100 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-200 transition-colors disabled:opacity-50">
+                {t('sidebar.regenerateTimeline')}
+              </button>
+            )}
+            {exportButton}
+          </>
+        )}
+
+        {!timeline && shotRuns.length > 0 && (
            <div className="space-y-4 pt-2">
              <div className="flex justify-between items-center">
                 <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider">Nano Banana Vision</span>
-                <span className="px-2 py-1 bg-violet-100 text-violet-700 text-[10px] font-bold rounded-full">{generatedImages.length}/2 Images</span>
+                <div className="flex items-center gap-1.5">
+                  {totalTokens > 0 && <span className="text-[10px] text-slate-400">{t('sidebar.tokens', { count: totalTokens.toLocaleString(locale) })}</span>}
+                  <span className="px-2 py-1 bg-violet-100 text-violet-700 text-[10px] font-bold rounded-full">{t('sidebar.imageCount', { done: generatedImages.length, total: shotRuns.length })}</span>
+                </div>
              </div>
              <div className="grid grid-cols-2 gap-3">
-                {generatedImages.map((imgUrl, index) => (
-                  <div key={index} className="relative rounded-xl overflow-hidden shadow-lg group aspect-square">
-                    <img src={imgUrl} alt={`Travel ${index}`} className="w-full h-full object-cover" />
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                      <a href={imgUrl} download={`chrono-${index}.png`} className="p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110">
-                        <Download className="w-4 h-4 text-slate-900" />
-                      </a>
+                {shotRuns.map((run, index) => (
+                  run.imageUrl ? (
+                    <div key={run.shot.id} className="relative rounded-xl overflow-hidden shadow-lg group aspect-square">
+                      <img src={run.imageUrl} alt={run.shot.label} className="w-full h-full object-cover" />
+                      <div
+                        className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-zoom-in"
+                        onClick={(e) => e.target === e.currentTarget && setLightboxIndex(lightboxImages.findIndex(image => image.id === run.shot.id))}
+                      >
+                        <button
+                          onClick={() => setLightboxIndex(lightboxImages.findIndex(image => image.id === run.shot.id))}
+                          className="mr-2 p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110"
+                          title={t('sidebar.openLightbox')}
+                        >
+                          <Maximize2 className="w-4 h-4 text-slate-900" />
+                        </button>
+                        <a href={run.imageUrl} download={`chrono-${index}.${fileExtension(run.mimeType)}`} className="p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110">
+                          <Download className="w-4 h-4 text-slate-900" />
+                        </a>
+                        {run.prompt && (
+                          <button
+                            onClick={() => navigator.clipboard?.writeText(run.prompt)}
+                            className="ml-2 p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110"
+                            title={t('sidebar.copyPrompt')}
+                          >
+                            <FileText className="w-4 h-4 text-slate-900" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingShotId(run.shot.id)}
+                          className="ml-2 p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110"
+                          title={t('sidebar.refineShot')}
+                        >
+                          <WandSparkles className="w-4 h-4 text-slate-900" />
+                        </button>
+                      </div>
+                      {run.versions && run.versions.length > 1 && (
+                        <span className="absolute top-2 left-2 px-1.5 py-0.5 bg-black/60 text-white text-[9px] font-bold rounded">
+                          v{run.versions.findIndex(v => v.id === run.activeVersionId) + 1}/{run.versions.length}
+                        </span>
+                      )}
                     </div>
-                  </div>
-                ))}
-                {status === 'generating_image' && generatedImages.length < 2 && (
-                    <div className="bg-slate-100 rounded-xl aspect-square flex flex-col items-center justify-center text-slate-400 animate-pulse">
-                        <Loader2 className="w-6 h-6 animate-spin mb-2" />
-                        <span className="text-[10px]">Processing...</span>
+                  ) : (
+                    <div key={run.shot.id} className={`rounded-xl aspect-square flex flex-col items-center justify-center px-2 text-center ${
+                      run.state === 'failed' ? 'bg-red-50 text-red-500' : 'bg-slate-100 text-slate-400'
+                    } ${run.state === 'running' ? 'animate-pulse' : ''}`}>
+                        {run.state === 'running' && <Loader2 className="w-6 h-6 animate-spin mb-2" />}
+                        {run.state === 'failed' && <AlertCircle className="w-5 h-5 mb-1" />}
+                        <span className="text-[10px] font-semibold">{run.shot.label}</span>
+                        <span className="text-[10px]">
+                          {run.state === 'queued' ? t('sidebar.stateQueued') : run.state === 'running' ? t('sidebar.stateRunning') : run.state === 'cancelled' ? t('sidebar.stateCancelled') : run.error}
+                        </span>
+                        {(run.state === 'failed' || run.state === 'cancelled') && (
+                          <button onClick={() => onRetryShot(run.shot.id)} className="mt-2 text-[10px] bg-white border border-slate-200 text-slate-600 px-2 py-1 rounded-lg hover:bg-slate-50 font-semibold flex items-center gap-1">
+                            <RotateCcw className="w-3 h-3" /> {t('sidebar.retry')}
+                          </button>
+                        )}
                     </div>
-                )}
+                  )
+                ))}
              </div>
-             {status === 'complete' && (
-                <button onClick={() => { if (selectedFile) onGenerate(selectedFile, selectedEra, selectedYear, customPrompt, selectedStyle) }} className="w-full py-3 bg-slate-100 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-200 transition-colors">
-                  Regenerate
+             {refusedRuns.length > 0 && (
+                <div className="bg-red-50/60 border border-red-100 rounded-xl p-3 space-y-3">
+                  {refusedRuns.map(run => (
+                    <div key={run.shot.id} className="space-y-1.5">
+                      <p className="text-xs font-semibold text-red-700">{t('sidebar.notGenerated', { label: run.shot.label })}</p>
+                      <RefusalDetails report={run.report} />
+                    </div>
+                  ))}
+                  <button onClick={focusCustomPrompt} className="text-xs bg-white border border-red-200 text-red-600 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors font-semibold flex items-center gap-1">
+                    <PenTool className="w-3 h-3" /> {t('sidebar.editPrompt')}
+                  </button>
+                </div>
+             )}
+             {status === 'generating_image' && (
+                <button onClick={onCancelGeneration} className="w-full py-2.5 bg-white border border-slate-200 text-slate-600 font-semibold rounded-xl text-sm hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
+                  <Square className="w-3.5 h-3.5" /> {t('sidebar.stop')}
                 </button>
              )}
+             {(status === 'complete' || status === 'error') && (
+                <button onClick={() => { if (hasPhotos) onGenerate(travelers, selectedEra, selectedYear, customPrompt, selectedStyle, shotPlan) }} className="w-full py-3 bg-slate-100 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-200 transition-colors">
+                  {t('sidebar.regenerate')}
+                </button>
+             )}
+             {exportButton}
            </div>
         )}
       </div>
+
+      {editingRun && createPortal(
+        <ImageEditor
+          run={editingRun}
+          onEdit={(baseVersionId, instruction) => onEditShot(editingRun.shot.id, baseVersionId, instruction)}
+          onSelectVersion={(versionId) => onSelectVersion(editingRun.shot.id, versionId)}
+          onClose={() => setEditingShotId(null)}
+        />,
+        document.body
+      )}
+
+      {lightboxIndex !== null && lightboxImages.length > 0 && createPortal(
+        <Lightbox
+          images={lightboxImages}
+          startIndex={lightboxIndex}
+          candidates={lightboxCandidates}
+          onClose={closeLightbox}
+        />,
+        document.body
+      )}
+
+      {/* Portalled: the sidebar's backdrop-filter would otherwise trap the fixed overlay */}
+      {showExport && locationInfo && createPortal(
+        <ExportComposer
+          images={exportImages}
+          details={{
+            locationName: locationInfo.name,
+            coords: location,
+            era: selectedEra,
+            year: timeline ? undefined : selectedYear || undefined,
+            styleLabel: resolveStyle(styles, selectedStyle).label,
+            locale
+          }}
+          defaultCaption={locationInfo.description}
+          onClose={() => setShowExport(false)}
+        />,
+        document.body
+      )}
     </div>
   );
 };
\ No newline at end of file
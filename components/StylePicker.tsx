@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { AspectRatio, VisualStyle } from '../types';
+import { ASPECT_RATIOS } from '../services/shotPresets';
+import { createStyleId, DEFAULT_STYLE, duplicateStyle, resolveStyle } from '../services/styleCatalog';
+import { preprocessImage } from '../services/imagePreprocessor';
+import { blobToBase64 } from '../services/geminiService';
+import { useI18n } from './I18nProvider';
+import { Copy, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+interface StylePickerProps {
+  styles: VisualStyle[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onStylesChange: (styles: VisualStyle[]) => void;
+}
+
+const THUMBNAIL_SIZE = 128;
+
+export const StylePicker: React.FC<StylePickerProps> = ({ styles, selectedId, onSelect, onStylesChange }) => {
+  const { t } = useI18n();
+  const selected = resolveStyle(styles, selectedId);
+  const [editing, setEditing] = useState(false);
+  const [thumbnailError, setThumbnailError] = useState<string | null>(null);
+
+  const addStyle = (style: VisualStyle) => {
+    onStylesChange([...styles, style]);
+    onSelect(style.id);
+    setEditing(true);
+  };
+
+  const handleNew = () => addStyle({
+    id: createStyleId(),
+    label: t('styles.myStyle'),
+    thumbnail: DEFAULT_STYLE.thumbnail,
+    promptFragment: '',
+  });
+
+  const handleDelete = () => {
+    if (selected.builtIn) return;
+    onStylesChange(styles.filter(s => s.id !== selected.id));
+    onSelect(DEFAULT_STYLE.id);
+    setEditing(false);
+  };
+
+  const update = (patch: Partial<VisualStyle>) => {
+    onStylesChange(styles.map(s => s.id === selected.id ? { ...s, ...patch } : s));
+  };
+
+  // Thumbnails are stored inline, so shrink uploads to a small JPEG first
+  const handleThumbnail = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { file: small } = await preprocessImage(file, { maxDimension: THUMBNAIL_SIZE, cropToFace: false, outputType: 'image/jpeg', quality: 0.8 });
+      update({ thumbnail: `data:image/jpeg;base64,${await blobToBase64(small)}` });
+      setThumbnailError(null);
+    } catch (e: any) {
+      setThumbnailError(e?.message || t('styles.thumbnailFailed'));
+    }
+  };
+
+  const canEdit = editing && !selected.builtIn;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        {styles.map(style => (
+          <button
+            key={style.id}
+            onClick={() => onSelect(style.id)}
+            title={style.promptFragment}
+            className={`flex flex-col items-center gap-1 p-1 rounded-lg transition-all ${
+              style.id === selected.id ? 'ring-2 ring-indigo-600 bg-indigo-50' : 'hover:bg-slate-50'
+            }`}
+          >
+            <img src={style.thumbnail} alt="" className="w-12 h-12 rounded-md object-cover" />
+            <span className="text-[10px] font-medium text-slate-600 leading-tight text-center line-clamp-2">{style.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-[11px] font-semibold">
+        <button onClick={handleNew} className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+          <Plus className="w-3 h-3" /> {t('styles.new')}
+        </button>
+        <button onClick={() => addStyle(duplicateStyle(selected))} className="text-slate-500 hover:text-indigo-600 flex items-center gap-1">
+          <Copy className="w-3 h-3" /> {t('styles.duplicate')}
+        </button>
+        {!selected.builtIn && (
+          <>
+            <button onClick={() => setEditing(!editing)} className="text-slate-500 hover:text-indigo-600 flex items-center gap-1">
+              <Pencil className="w-3 h-3" /> {editing ? t('styles.done') : t('styles.edit')}
+            </button>
+            <button onClick={handleDelete} className="text-slate-500 hover:text-red-600 flex items-center gap-1">
+              <Trash2 className="w-3 h-3" /> {t('styles.delete')}
+            </button>
+          </>
+        )}
+      </div>
+
+      {canEdit ? (
+        <div className="space-y-2 bg-slate-50 border border-slate-100 rounded-lg p-2">
+          <div className="flex gap-2 items-center">
+            <label className="relative cursor-pointer shrink-0" title={t('styles.uploadThumbnail')}>
+              <img src={selected.thumbnail} alt="" className="w-10 h-10 rounded-md object-cover" />
+              <Upload className="absolute -bottom-1 -right-1 w-4 h-4 p-0.5 bg-white rounded-full text-slate-500 shadow" />
+              <input type="file" accept="image/*" className="hidden" onChange={(e) => { handleThumbnail(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+            <input
+              value={selected.label}
+              onChange={(e) => update({ label: e.target.value })}
+              placeholder={t('styles.namePlaceholder')}
+              className="flex-1 p-1.5 bg-white border border-slate-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={selected.defaultAspectRatio || ''}
+              onChange={(e) => update({ defaultAspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+              className="text-[10px] font-mono bg-white border border-slate-200 rounded px-1 py-1 text-slate-600"
+              title={t('styles.defaultRatio')}
+            >
+              <option value="">{t('styles.anyRatio')}</option>
+              {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+          {thumbnailError && <p className="text-[10px] text-red-600">{thumbnailError}</p>}
+          <textarea
+            value={selected.promptFragment}
+            onChange={(e) => update({ promptFragment: e.target.value })}
+            placeholder={t('styles.fragmentPlaceholder')}
+            className="w-full h-16 p-2 bg-white border border-slate-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+          />
+          <input
+            value={selected.negativeConstraints || ''}
+            onChange={(e) => update({ negativeConstraints: e.target.value || undefined })}
+            placeholder={t('styles.avoidPlaceholder')}
+            className="w-full p-1.5 bg-white border border-slate-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      ) : (
+        <p className="text-[11px] text-slate-500 leading-snug">
+          {selected.promptFragment || t('styles.noFragment')}
+          {selected.defaultAspectRatio && <span className="ml-1 font-mono text-slate-400">· {selected.defaultAspectRatio}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { TimelineRun } from '../types';
+import { useI18n } from './I18nProvider';
+import { fileExtension } from '../services/fileMetadata';
+import { Download, Film, Loader2, Maximize2, Square } from 'lucide-react';
+
+interface TimelineFilmstripProps {
+  timeline: TimelineRun;
+  isGenerating: boolean;
+  onCancel: () => void;
+  onOpen: (index: number) => void; // shows a frame in the lightbox
+}
+
+export const TimelineFilmstrip: React.FC<TimelineFilmstripProps> = ({ timeline, isGenerating, onCancel, onOpen }) => {
+  const { t, formatYear } = useI18n();
+  const { years, frames } = timeline;
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Follow the newest frame while the run is in progress
+  useEffect(() => {
+    if (isGenerating && frames.length > 0) setActiveIndex(frames.length - 1);
+  }, [frames.length, isGenerating]);
+
+  const active = frames[Math.min(activeIndex, frames.length - 1)];
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Film className="w-3.5 h-3.5" /> {t('timeline.title')}
+        </span>
+        <span className="px-2 py-1 bg-violet-100 text-violet-700 text-[10px] font-bold rounded-full">{t('timeline.frames', { done: frames.length, total: years.length })}</span>
+      </div>
+
+      <div className="relative rounded-xl overflow-hidden shadow-lg aspect-square bg-slate-100">
+        {active ? (
+          <>
+            <img
+              src={active.imageUrl}
+              alt={t('timeline.frameAlt', { year: formatYear(active.year) })}
+              onClick={() => onOpen(Math.min(activeIndex, frames.length - 1))}
+              className="w-full h-full object-cover cursor-zoom-in"
+            />
+            <span className="absolute top-2 left-2 px-2 py-1 bg-black/60 text-white text-xs font-mono font-bold rounded-lg">
+              {formatYear(active.year)}
+            </span>
+            <a href={active.imageUrl} download={`chrono-timeline-${active.year}.${fileExtension(active.mimeType)}`} className="absolute top-2 right-2 p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110">
+              <Download className="w-4 h-4 text-slate-900" />
+            </a>
+            <button
+              onClick={() => onOpen(Math.min(activeIndex, frames.length - 1))}
+              className="absolute top-2 right-12 p-2 bg-white/90 rounded-full hover:bg-white transition-transform hover:scale-110"
+              title={t('sidebar.openLightbox')}
+            >
+              <Maximize2 className="w-4 h-4 text-slate-900" />
+            </button>
+          </>
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 animate-pulse">
+            <Loader2 className="w-6 h-6 animate-spin mb-2" />
+            <span className="text-[10px]">{t('timeline.rendering', { year: formatYear(years[0]) })}</span>
+          </div>
+        )}
+      </div>
+
+      {frames.length > 1 && (
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={Math.min(activeIndex, frames.length - 1)}
+          onChange={(e) => setActiveIndex(parseInt(e.target.value))}
+          className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+      )}
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {years.map((year, index) => {
+          const frame = frames[index];
+          return (
+            <button
+              key={year}
+              disabled={!frame}
+              onClick={() => setActiveIndex(index)}
+              className={`shrink-0 w-16 rounded-lg overflow-hidden border-2 transition-all ${
+                frame && index === activeIndex ? 'border-indigo-600' : 'border-transparent'
+              } disabled:opacity-50`}
+            >
+              <div className="aspect-square bg-slate-100 flex items-center justify-center">
+                {frame ? (
+                  <img src={frame.imageUrl} alt={year} className="w-full h-full object-cover" />
+                ) : isGenerating && index === frames.length ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                ) : null}
+              </div>
+              <span className="block text-[9px] font-mono text-slate-500 py-0.5">{formatYear(year)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {isGenerating && (
+        <button onClick={onCancel} className="w-full py-2.5 bg-white border border-slate-200 text-slate-600 font-semibold rounded-xl text-sm hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
+          <Square className="w-3.5 h-3.5" /> {t('timeline.stop')}
+        </button>
+      )}
+    </div>
+  );
+};
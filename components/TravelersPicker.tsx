@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Traveler } from '../types';
+import { DEFAULT_PREPROCESS_OPTIONS, MAX_DIMENSION_CHOICES, PreprocessOptions, PreprocessReport, preprocessImage } from '../services/imagePreprocessor';
+import { MessageKey, MessageParams } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Loader2, Plus, ShieldCheck, Upload, UserPlus, X } from 'lucide-react';
+
+export const MAX_TRAVELERS = 4;
+export const MAX_PHOTOS_PER_TRAVELER = 4;
+
+let travelerCounter = 0;
+
+export const createTraveler = (): Traveler => ({
+  id: `traveler-${Date.now().toString(36)}-${travelerCounter++}`,
+  name: '',
+  photos: [],
+});
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const describeReport = (report: PreprocessReport, t: (key: MessageKey, params?: MessageParams) => string) => [
+  `${report.originalWidth}×${report.originalHeight} ${report.originalType}, ${formatBytes(report.originalBytes)}`,
+  `→ ${report.width}×${report.height}, ${formatBytes(report.bytes)}`,
+  report.orientation !== 1 ? t('travelers.orientation', { value: report.orientation }) : null,
+  report.faceDetected ? t('travelers.faceCropped') : null,
+  t('travelers.metadataRemoved'),
+].filter(Boolean).join('\n');
+
+// Owns the object URL for one photo so it is revoked when the thumbnail goes away
+const useObjectUrl = (file: File | null) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return setUrl(null);
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+};
+
+const PhotoThumb: React.FC<{ file: File; report?: PreprocessReport; onSelect: () => void; onRemove: () => void }> = ({ file, report, onSelect, onRemove }) => {
+  const { t } = useI18n();
+  const url = useObjectUrl(file);
+
+  return (
+    <div className="relative w-14 h-14 rounded-lg overflow-hidden group shrink-0" title={report ? describeReport(report, t) : file.name}>
+      {url && <img src={url} alt={file.name} onClick={onSelect} className="w-full h-full object-cover cursor-zoom-in" />}
+      {report && (
+        <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[7px] font-mono text-center">{report.width}px</span>
+      )}
+      <button
+        onClick={(e) => { e.stopPropagation(); onRemove(); }}
+        className="absolute top-0.5 right-0.5 p-0.5 bg-white/90 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+        title={t('travelers.removePhoto')}
+      >
+        <X className="w-3 h-3 text-slate-700" />
+      </button>
+    </div>
+  );
+};
+
+interface TravelersPickerProps {
+  travelers: Traveler[];
+  // Takes an updater too: uploads finish asynchronously and must apply to the latest list
+  onChange: React.Dispatch<React.SetStateAction<Traveler[]>>;
+}
+
+export const TravelersPicker: React.FC<TravelersPickerProps> = ({ travelers, onChange }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [reports, setReports] = useState<Map<File, PreprocessReport>>(() => new Map());
+  const [processing, setProcessing] = useState(false);
+  const [processError, setProcessError] = useState<string | null>(null);
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const previewUrl = useObjectUrl(previewFile);
+  const previewReport = previewFile ? reports.get(previewFile) : undefined;
+
+  const update = (id: string, patch: Partial<Traveler>) => {
+    onChange(prev => prev.map(other => other.id === id ? { ...other, ...patch } : other));
+  };
+
+  const openPicker = (id: string) => {
+    setTargetId(id);
+    fileInputRef.current?.click();
+  };
+
+  // Uploads are preprocessed right away so the thumbnails show exactly what will be sent
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const traveler = travelers.find(other => other.id === targetId);
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    // Allow picking the same file again later
+    e.target.value = '';
+    if (!traveler || files.length === 0) return;
+
+    const room = MAX_PHOTOS_PER_TRAVELER - traveler.photos.length;
+    setProcessing(true);
+    setProcessError(null);
+
+    const processed: File[] = [];
+    const nextReports = new Map<File, PreprocessReport>();
+    for (const file of files.slice(0, room)) {
+      try {
+        const result = await preprocessImage(file, options);
+        processed.push(result.file);
+        nextReports.set(result.file, result.report);
+      } catch (error: any) {
+        console.error("Failed to preprocess upload", error);
+        setProcessError(error.message || t('travelers.processFailed', { name: file.name }));
+      }
+    }
+
+    setReports(prev => new Map([...prev, ...nextReports]));
+    setProcessing(false);
+    if (processed.length > 0) {
+      // Appends to the photos as they are now; another upload may have finished meanwhile
+      onChange(prev => prev.map(other => other.id === traveler.id
+        ? { ...other, photos: [...other.photos, ...processed].slice(0, MAX_PHOTOS_PER_TRAVELER) }
+        : other));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple onChange={handleFileChange} />
+
+      {travelers.map((traveler, index) => (
+        <div key={traveler.id} className="bg-slate-50 border border-slate-100 rounded-xl p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={traveler.name}
+              onChange={(e) => update(traveler.id, { name: e.target.value })}
+              placeholder={t('travelers.placeholder', { number: index + 1 })}
+              className="flex-1 p-1.5 bg-white border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            {travelers.length > 1 && (
+              <button onClick={() => onChange(travelers.filter(other => other.id !== traveler.id))} className="text-slate-400 hover:text-red-500" title={t('travelers.remove')}>
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto">
+            {traveler.photos.map((photo, photoIndex) => (
+              <PhotoThumb
+                key={`${photo.name}-${photoIndex}`}
+                file={photo}
+                report={reports.get(photo)}
+                onSelect={() => setPreviewFile(previewFile === photo ? null : photo)}
+                onRemove={() => {
+                  if (previewFile === photo) setPreviewFile(null);
+                  update(traveler.id, { photos: traveler.photos.filter((_, i) => i !== photoIndex) });
+                }}
+              />
+            ))}
+            {traveler.photos.length < MAX_PHOTOS_PER_TRAVELER && (
+              <button
+                onClick={() => openPicker(traveler.id)}
+                disabled={processing}
+                className="w-14 h-14 shrink-0 border-2 border-dashed border-slate-300 rounded-lg flex flex-col items-center justify-center text-slate-400 hover:bg-white hover:text-indigo-500 transition-colors"
+              >
+                {processing && targetId === traveler.id
+                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                  : traveler.photos.length === 0 ? <Upload className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                <span className="text-[8px] mt-0.5">{traveler.photos.length === 0 ? t('travelers.selfie') : t('travelers.more')}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {travelers.length < MAX_TRAVELERS && (
+        <button
+          onClick={() => onChange([...travelers, createTraveler()])}
+          className="w-full py-2 text-xs font-semibold text-slate-500 border border-dashed border-slate-300 rounded-xl hover:bg-slate-50 hover:text-indigo-600 flex items-center justify-center gap-1.5"
+        >
+          <UserPlus className="w-3.5 h-3.5" /> {t('travelers.addPerson')}
+        </button>
+      )}
+      {previewFile && previewUrl && (
+        <div className="relative rounded-xl overflow-hidden border border-slate-200 bg-slate-50">
+          <img src={previewUrl} alt={t('travelers.processedAlt')} className="w-full max-h-64 object-contain" />
+          <button onClick={() => setPreviewFile(null)} className="absolute top-1.5 right-1.5 p-1 bg-white/90 rounded-full">
+            <X className="w-3.5 h-3.5 text-slate-700" />
+          </button>
+          <p className="text-[10px] text-slate-500 font-mono whitespace-pre-line px-2 py-1.5">
+            {previewReport ? `${t('travelers.sentAsShown')}\n${describeReport(previewReport, t)}` : t('travelers.sentAsShown')}
+          </p>
+        </div>
+      )}
+
+      {processError && <p className="text-[10px] text-red-600 pl-1">{processError}</p>}
+
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 pl-1">
+        <label className="flex items-center gap-1">
+          {t('travelers.maxSize')}
+          <select
+            value={options.maxDimension}
+            onChange={(e) => setOptions(prev => ({ ...prev, maxDimension: parseInt(e.target.value) }))}
+            className="font-mono bg-white border border-slate-200 rounded px-1 py-0.5"
+          >
+            {MAX_DIMENSION_CHOICES.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.cropToFace}
+            onChange={(e) => setOptions(prev => ({ ...prev, cropToFace: e.target.checked }))}
+            className="accent-indigo-600"
+          />
+          {t('travelers.cropToFace')}
+        </label>
+        <span className="flex items-center gap-0.5 ml-auto" title={t('travelers.noMetadataTitle')}>
+          <ShieldCheck className="w-3 h-3 text-emerald-500" /> {t('travelers.noMetadata')}
+        </span>
+      </div>
+      <p className="text-[10px] text-slate-400 pl-1">{t('travelers.hint', { max: MAX_PHOTOS_PER_TRAVELER })}</p>
+    </div>
+  );
+};
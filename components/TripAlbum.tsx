@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { TripStopRun } from '../types';
+import { describeStop, describeTrip } from '../services/itinerary';
+import { useI18n } from './I18nProvider';
+import { BookImage, ChevronLeft, ChevronRight, Loader2, TriangleAlert, X } from 'lucide-react';
+
+interface TripAlbumProps {
+  runs: TripStopRun[];
+  onClose: () => void;
+}
+
+/**
+ * The trip's results as an album: one page per stop, in travel order,
+ * with a filmstrip of all stops below. Arrow keys turn the pages.
+ */
+export const TripAlbum: React.FC<TripAlbumProps> = ({ runs, onClose }) => {
+  const { locale, t } = useI18n();
+  const [page, setPage] = useState(0);
+  const current = runs[Math.min(page, runs.length - 1)];
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setPage(p => Math.max(0, p - 1));
+      else if (e.key === 'ArrowRight') setPage(p => Math.min(runs.length - 1, p + 1));
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [runs.length, onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6 font-sans">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 gap-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <BookImage className="w-5 h-5 text-indigo-600 shrink-0" />
+            <h2 className="text-lg font-bold text-slate-800 truncate" title={describeTrip(runs.map(run => run.stop), locale)}>
+              {describeTrip(runs.map(run => run.stop), locale)}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 bg-slate-100 p-4 flex items-center gap-3">
+          <button
+            onClick={() => setPage(p => Math.max(0, p - 1))}
+            disabled={page === 0}
+            className="p-2 bg-white rounded-full shadow hover:bg-slate-50 disabled:opacity-30"
+          >
+            <ChevronLeft className="w-5 h-5 text-slate-700" />
+          </button>
+
+          <div className="flex-1 flex flex-col items-center gap-3 min-w-0">
+            {current.imageUrl ? (
+              <img src={current.imageUrl} alt={current.stop.label} className="max-w-full max-h-[55vh] rounded-lg shadow-xl" />
+            ) : (
+              <div className={`w-full max-w-md aspect-square rounded-lg flex flex-col items-center justify-center gap-2 text-sm ${
+                current.state === 'failed' ? 'bg-red-50 text-red-500' : 'bg-white text-slate-400'
+              }`}>
+                {current.state === 'failed'
+                  ? <><TriangleAlert className="w-6 h-6" /> {current.error || t('album.stopFailed')}</>
+                  : current.state === 'cancelled'
+                    ? t('album.cancelled')
+                    : <><Loader2 className="w-6 h-6 animate-spin" /> {t('album.travelling')}</>}
+              </div>
+            )}
+            <div className="text-center space-y-1 max-w-xl">
+              <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider">{t('album.page', { number: page + 1, total: runs.length })}</p>
+              <h3 className="text-base font-bold text-slate-800">{describeStop({ label: current.locationInfo?.name || current.stop.label, year: current.stop.year }, locale)}</h3>
+              {current.locationInfo && <p className="text-xs text-slate-500 italic">"{current.locationInfo.description}"</p>}
+            </div>
+          </div>
+
+          <button
+            onClick={() => setPage(p => Math.min(runs.length - 1, p + 1))}
+            disabled={page >= runs.length - 1}
+            className="p-2 bg-white rounded-full shadow hover:bg-slate-50 disabled:opacity-30"
+          >
+            <ChevronRight className="w-5 h-5 text-slate-700" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1 p-3 overflow-x-auto border-t border-slate-100">
+          {runs.map((run, index) => (
+            <React.Fragment key={run.stop.id}>
+              {index > 0 && <ChevronRight className="w-3 h-3 text-slate-300 shrink-0" />}
+              <button
+                onClick={() => setPage(index)}
+                className={`relative w-16 h-16 shrink-0 rounded-lg overflow-hidden border-2 ${index === page ? 'border-indigo-500' : 'border-transparent'}`}
+                title={describeStop(run.stop, locale)}
+              >
+                {run.imageUrl
+                  ? <img src={run.imageUrl} alt="" className="w-full h-full object-cover" />
+                  : <div className={`w-full h-full ${run.state === 'failed' ? 'bg-red-50' : 'bg-slate-100'}`} />}
+                <span className="absolute top-0.5 left-0.5 px-1 bg-black/60 text-white text-[9px] font-bold rounded">{index + 1}</span>
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
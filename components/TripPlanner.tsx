@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { TimeEra, Traveler, TripStop, TripStopRun, TripStopState, VisualStyle } from '../types';
+import { TravelersPicker, createTraveler } from './TravelersPicker';
+import { describeTrip, MAX_TRIP_STOPS } from '../services/itinerary';
+import { eraFromText, parseHistoricalDate } from '../services/historicalDate';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Ban, BookImage, Camera, CircleCheck, CloudOff, GripVertical, Hourglass, Loader2, PenTool, Route, Square, Trash2, TriangleAlert, X } from 'lucide-react';
+
+interface TripPlannerProps {
+  stops: TripStop[];
+  onStopsChange: (stops: TripStop[]) => void;
+  onMoveStop: (from: number, to: number) => void;
+  onFocusStop: (stop: TripStop) => void;
+  styles: VisualStyle[];
+  runs: TripStopRun[];
+  isRunning: boolean;
+  onRun: (travelers: Traveler[], customPrompt?: string) => void;
+  onCancel: () => void;
+  onOpenAlbum: () => void;
+  onClose: () => void;
+  isOffline?: boolean;
+}
+
+const STATE_LABELS: Record<TripStopState, MessageKey> = {
+  queued: 'trip.stateQueued',
+  analyzing: 'trip.stateAnalyzing',
+  generating: 'trip.stateGenerating',
+  done: 'trip.stateDone',
+  failed: 'trip.stateFailed',
+  cancelled: 'trip.stateCancelled',
+};
+
+const ERA_LABELS: Record<TimeEra, MessageKey> = {
+  [TimeEra.PAST]: 'sidebar.eraPast',
+  [TimeEra.PRESENT]: 'sidebar.eraNow',
+  [TimeEra.FUTURE]: 'sidebar.eraFuture',
+};
+
+const StateIcon: React.FC<{ state: TripStopState }> = ({ state }) => {
+  switch (state) {
+    case 'queued': return <Hourglass className="w-3.5 h-3.5 text-slate-400" />;
+    case 'analyzing':
+    case 'generating': return <Loader2 className="w-3.5 h-3.5 text-indigo-600 animate-spin" />;
+    case 'done': return <CircleCheck className="w-3.5 h-3.5 text-emerald-600" />;
+    case 'cancelled': return <Ban className="w-3.5 h-3.5 text-slate-400" />;
+    default: return <TriangleAlert className="w-3.5 h-3.5 text-red-500" />;
+  }
+};
+
+/**
+ * Plans a multi-stop trip: stops come from map clicks or search, each with its own
+ * era, year and style, and are reordered by dragging. Takes the Sidebar's place while open.
+ */
+export const TripPlanner: React.FC<TripPlannerProps> = ({
+  stops,
+  onStopsChange,
+  onMoveStop,
+  onFocusStop,
+  styles,
+  runs,
+  isRunning,
+  onRun,
+  onCancel,
+  onOpenAlbum,
+  onClose,
+  isOffline
+}) => {
+  const { locale, t, tp } = useI18n();
+  const [travelers, setTravelers] = useState<Traveler[]>(() => [createTraveler()]);
+  const [customPrompt, setCustomPrompt] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const hasPhotos = travelers.some(traveler => traveler.photos.length > 0);
+  const finished = runs.filter(run => run.imageUrl).length;
+
+  const updateStop = (id: string, patch: Partial<TripStop>) => {
+    onStopsChange(stops.map(stop => stop.id === id ? { ...stop, ...patch } : stop));
+  };
+
+  const removeStop = (id: string) => onStopsChange(stops.filter(stop => stop.id !== id));
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onMoveStop(dragIndex, index);
+    endDrag();
+  };
+
+  const runFor = (stop: TripStop) => runs.find(run => run.stop.id === stop.id);
+
+  return (
+    <div className="absolute top-4 right-4 w-[400px] max-h-[calc(100vh-32px)] overflow-y-auto bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl z-[1000] border border-white/50 flex flex-col font-sans">
+      <div className="flex justify-between items-center p-6 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <Route className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-bold text-slate-800">{t('trip.title')}</h2>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {stops.length === 0 ? (
+          <div className="text-center py-6 text-slate-500">
+            <Route className="w-10 h-10 mx-auto mb-3 text-indigo-500 opacity-50" />
+            <p className="text-sm">{t('trip.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-slate-500 leading-relaxed">{describeTrip(stops, locale)}</p>
+            <ol className="space-y-2">
+              {stops.map((stop, index) => {
+                const run = runFor(stop);
+                return (
+                  <li
+                    key={stop.id}
+                    draggable={!isRunning}
+                    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragIndex(index); }}
+                    onDragOver={(e) => { if (dragIndex === null) return; e.preventDefault(); setDropIndex(index); }}
+                    onDrop={(e) => { e.preventDefault(); handleDrop(index); }}
+                    onDragEnd={endDrag}
+                    className={`bg-slate-50 border rounded-xl p-2.5 space-y-2 transition-colors ${
+                      dropIndex === index && dragIndex !== index ? 'border-indigo-400 bg-indigo-50' : 'border-slate-100'
+                    } ${dragIndex === index ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <GripVertical className={`w-4 h-4 shrink-0 ${isRunning ? 'text-slate-200' : 'text-slate-400 cursor-grab'}`} />
+                      <span className="w-6 h-6 shrink-0 rounded-full bg-indigo-600 text-white text-[11px] font-bold flex items-center justify-center">{index + 1}</span>
+                      <button onClick={() => onFocusStop(stop)} className="flex-1 min-w-0 text-left text-sm font-semibold text-slate-700 truncate hover:text-indigo-600" title={t('trip.showOnMap')}>
+                        {stop.label}
+                      </button>
+                      {run && (
+                        <span className="flex items-center gap-1 text-[10px] text-slate-500" title={run.error}>
+                          <StateIcon state={run.state} /> {t(STATE_LABELS[run.state])}
+                        </span>
+                      )}
+                      <button onClick={() => removeStop(stop.id)} disabled={isRunning} className="text-slate-400 hover:text-red-500 disabled:opacity-40" title={t('trip.removeStop')}>
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-1.5 pl-6">
+                      <input
+                        type="text"
+                        value={stop.year}
+                        onChange={(e) => updateStop(stop.id, { year: e.target.value, era: eraFromText(e.target.value, stop.era) })}
+                        disabled={isRunning}
+                        className={`w-28 p-1.5 bg-white border rounded-lg text-xs font-mono text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none ${
+                          stop.year.trim() && !parseHistoricalDate(stop.year) ? 'border-red-300' : 'border-slate-200'
+                        }`}
+                        placeholder={t('sidebar.today')}
+                        title={t('trip.dateTitle')}
+                      />
+                      <span className="shrink-0 px-1.5 py-1 rounded-md bg-indigo-50 text-indigo-700 text-[10px] font-semibold">
+                        {t(ERA_LABELS[stop.era])}
+                      </span>
+                      <select
+                        value={stop.style}
+                        onChange={(e) => updateStop(stop.id, { style: e.target.value })}
+                        disabled={isRunning}
+                        className="flex-1 min-w-0 p-1.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {styles.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+                      </select>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+            <p className="text-[10px] text-slate-400 pl-1">
+              {t('trip.dragHint')} {stops.length >= MAX_TRIP_STOPS ? t('trip.maxStops', { max: MAX_TRIP_STOPS }) : t('trip.addMore')}
+            </p>
+          </div>
+        )}
+
+        {stops.length > 0 && (
+          <>
+            <div className="space-y-3 border-t border-slate-100 pt-6">
+              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <PenTool className="w-4 h-4" /> {t('sidebar.sceneDetails')}
+              </label>
+              <textarea
+                value={customPrompt}
+                onChange={(e) => setCustomPrompt(e.target.value)}
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm resize-none focus:ring-2 focus:ring-indigo-500 outline-none"
+                placeholder={t('trip.scenePlaceholder')}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <Camera className="w-4 h-4" /> {t(travelers.length > 1 ? 'sidebar.travelers' : 'sidebar.yourFace')}
+              </label>
+              <TravelersPicker travelers={travelers} onChange={setTravelers} />
+            </div>
+
+            {isRunning ? (
+              <button onClick={onCancel} className="w-full py-3 bg-white border border-slate-200 text-slate-600 font-semibold rounded-xl text-sm hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
+                <Square className="w-3.5 h-3.5" /> {t('trip.stop', { done: finished, total: runs.length })}
+              </button>
+            ) : (
+              <button
+                onClick={() => onRun(travelers, customPrompt || undefined)}
+                disabled={!hasPhotos || isOffline}
+                className="w-full py-4 bg-gradient-to-r from-indigo-600 to-violet-600 text-white rounded-xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 hover:shadow-xl hover:scale-[1.02] transition-all"
+              >
+                {tp('trip.travel', stops.length)}
+              </button>
+            )}
+            {isOffline && !isRunning && (
+              <p className="text-[11px] text-slate-500 text-center flex items-center justify-center gap-1">
+                <CloudOff className="w-3.5 h-3.5" /> {t('trip.offlineNote')}
+              </p>
+            )}
+
+            {finished > 0 && (
+              <button onClick={onOpenAlbum} className="w-full py-3 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
+                <BookImage className="w-4 h-4" /> {t('trip.openAlbum', { done: finished, total: runs.length })}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,426 @@
+/**
+ * English messages. This catalog is the reference: every other locale must
+ * define the same keys (checked by the Messages type in services/i18n.ts).
+ * `{name}` placeholders are filled in by translate(); `_one`/`_other` pairs are plural forms.
+ */
+export const en = {
+  'app.gallery': 'Gallery ({count})',
+  'app.prompts': 'Prompts',
+  'app.promptPresetTitle': 'Prompt preset: {name}',
+  'app.trip': 'Trip',
+  'app.tripTitle': 'Plan a trip through several places and times',
+  'app.keyRejected': 'The API key was rejected (invalid, expired or without access). Choose or add another key.',
+  'app.language': 'Language',
+
+  'key.tagline': 'Time travel to {year} or the distant future.',
+  'key.pickKey': 'Pick the Gemini API key to use.',
+  'key.storedEncrypted': 'Your API keys are stored encrypted with a passphrase.',
+  'key.newPassphrase': 'New passphrase (min. {min} characters)',
+  'key.repeatPassphrase': 'Repeat passphrase',
+  'key.legacyMoved': 'Your previously saved key will be moved into the encrypted vault.',
+  'key.createVault': 'Create Key Vault',
+  'key.passphrase': 'Passphrase',
+  'key.unlock': 'Unlock',
+  'key.forgot': 'Forgot passphrase? Reset stored keys',
+  'key.resetConfirm': 'Delete all stored keys? You will need to add them again.',
+  'key.mismatch': "Passphrases don't match",
+  'key.wrongPassphrase': 'Wrong passphrase',
+  'key.genericError': 'Something went wrong',
+  'key.savedKeyName': 'Saved key',
+  'key.use': 'Use',
+  'key.delete': 'Delete key',
+  'key.addKey': 'Add a key',
+  'key.namePlaceholder': 'Name (e.g. Personal, Work)',
+  'key.keyPlaceholder': 'Paste your Gemini API Key here',
+  'key.checking': 'Checking key...',
+  'key.save': 'Check & Save Key',
+  'key.unverified': 'Saved without checking: {message}',
+  'key.noKey': "Don't have a key?",
+  'key.getKey': 'Get one from Google AI Studio',
+
+  'sidebar.startTitle': 'Start Your Journey',
+  'sidebar.startHint': 'Click anywhere on the map to begin.',
+  'sidebar.manageKeys': 'Manage API Keys',
+  'sidebar.title': 'World View',
+  'sidebar.analyzing': 'Analyzing location data...',
+  'sidebar.preciseNeeded': 'Precise Location Needed',
+  'sidebar.clickedNear': 'You clicked near {place}.',
+  'sidebar.useExactSpot': 'Use exact spot',
+  'sidebar.location': 'Location',
+  'sidebar.modeSingle': 'Single Moment',
+  'sidebar.modeTimeline': 'Timeline',
+  'sidebar.timelineRange': 'Timeline Range',
+  'sidebar.from': 'From',
+  'sidebar.to': 'To',
+  'sidebar.every': 'Every',
+  'sidebar.timelineFrames': '{count} frames: {from} → {to}',
+  'sidebar.timelineInvalid': 'Enter a valid range and a positive step.',
+  'sidebar.timelineMax': ' (max {max})',
+  'sidebar.timeTravelMode': 'Time Travel Mode',
+  'sidebar.eraPast': 'Past',
+  'sidebar.eraNow': 'Now',
+  'sidebar.eraFuture': 'Future',
+  'sidebar.targetYear': 'Target Year',
+  'sidebar.datePlaceholder': 'e.g. 1889, 1920s, mid-16th century, 300 BC',
+  'sidebar.dateInvalid': "Couldn't read this date. Try 1889, 1920s, 16th century or 300 BC.",
+  'sidebar.today': 'Today',
+  'sidebar.enterYear': 'Enter Year',
+  'sidebar.ancientHint': 'Ancient era selected. Landscape will be natural.',
+  'sidebar.yearHint': 'Select specific year.',
+  'sidebar.weatherLight': 'Weather & Light',
+  'sidebar.visualStyle': 'Visual Style',
+  'sidebar.shotList': 'Shot List',
+  'sidebar.sceneDetails': 'Scene Details (Optional)',
+  'sidebar.scenePlaceholder': 'Describe scene...',
+  'sidebar.travelers': 'Travelers',
+  'sidebar.yourFace': 'Your Face',
+  'sidebar.generating': 'Generating...',
+  'sidebar.queueOffline': 'Queue for When Online',
+  'sidebar.generateTimeline': 'Generate {count}-Frame Timeline',
+  'sidebar.generateShots_one': 'Generate {count} Travel Shot',
+  'sidebar.generateShots_other': 'Generate {count} Travel Shots',
+  'sidebar.offlineNote': "You're offline. The request is sent automatically when the connection returns, and the images go to your gallery.",
+  'sidebar.regenerateTimeline': 'Regenerate Timeline',
+  'sidebar.tokens': '{count} tokens',
+  'sidebar.imageCount': '{done}/{total} Images',
+  'sidebar.copyPrompt': 'Copy the prompt used for this shot',
+  'sidebar.openLightbox': 'Open full screen and compare',
+  'sidebar.refineShot': 'Refine this shot with follow-up edits',
+  'sidebar.stateQueued': 'Queued',
+  'sidebar.stateRunning': 'Processing...',
+  'sidebar.stateCancelled': 'Cancelled',
+  'sidebar.retry': 'Retry',
+  'sidebar.notGenerated': '“{label}” was not generated',
+  'sidebar.editPrompt': 'Edit Prompt',
+  'sidebar.stop': 'Stop',
+  'sidebar.regenerate': 'Regenerate',
+  'sidebar.postcard': 'Postcard / Collage',
+
+  'year.bc': '{year} BCE',
+  'year.ad': '{year} CE',
+
+  'date.approx': 'c. {date}',
+  'date.decade': '{decade}s',
+  'date.decadeBc': '{decade}s BCE',
+  'date.century': '{ordinal} century',
+  'date.centuryBc': '{ordinal} century BCE',
+  'date.early': 'early {date}',
+  'date.mid': 'mid-{date}',
+  'date.late': 'late {date}',
+  'date.range': '{from}–{to}',
+
+  'plausibility.title': 'Historical Check',
+  'plausibility.checking': 'Checking what stood here at that time...',
+  'plausibility.failed': "Couldn't check this place and date: {message}",
+  'plausibility.retry': 'Check again',
+  'plausibility.plausible': 'Plausible',
+  'plausibility.questionable': 'Questionable',
+  'plausibility.implausible': 'Anachronistic',
+  'plausibility.settlement': 'Settlement',
+  'plausibility.landscape': 'Landscape',
+  'plausibility.structures': 'Standing at the time',
+  'plausibility.anachronisms': 'Would be anachronistic',
+  'plausibility.suggested': 'Worth showing',
+  'plausibility.inPrompt': 'These notes are added to the image prompt.',
+
+  'error.retry': 'Retry',
+  'error.retryAnalysis': 'Retry Analysis',
+  'error.editPrompt': 'Edit Prompt',
+  'error.rateLimitTitle': 'Rate limit reached.',
+  'error.retryingIn': 'Retrying automatically in {seconds}s.',
+  'error.rateLimitHint': 'Wait a moment, or check the quota and billing of your key.',
+  'error.cancelAutoRetry': 'Cancel auto-retry',
+  'error.authTitle': 'Your API key was rejected.',
+  'error.authHint': 'It may be invalid, expired, or not enabled for the Gemini API.',
+  'error.changeKey': 'Change API Key',
+  'error.safetyTitle': 'The request was blocked by safety filters.',
+  'error.safetyHint': 'Reason: {reason}. Remove anything violent, explicit or about real public figures from the scene details and try again.',
+  'error.noImageTitle': 'The model replied without an image.',
+  'error.noImageHint': 'This happens occasionally; retrying usually works.',
+  'error.offlineTitle': 'You appear to be offline.',
+  'error.offlineHint': "We'll retry when the connection comes back.",
+  'error.parseTitle': "The reply couldn't be read.",
+  'error.rateLimitedShort': 'Rate limited. Try again shortly.',
+  'error.authShort': 'API key rejected.',
+  'error.safetyShort': 'Blocked by safety filters.',
+  'error.noImageShort': 'No image was returned.',
+  'error.offlineShort': 'Offline.',
+  'error.parseShort': 'Reply could not be read.',
+  'error.failedShort': 'Generation failed',
+
+  'refusal.reason': 'Reason: {reason}.',
+  'refusal.textInstead': 'the model replied with text instead of an image',
+  'refusal.safety': 'flagged by safety filters',
+  'refusal.imageSafety': 'the generated image was flagged by safety filters',
+  'refusal.prohibited': 'the request touched prohibited content',
+  'refusal.imageProhibited': 'the generated image contained prohibited content',
+  'refusal.blocklist': 'the prompt contains blocked terms',
+  'refusal.spii': 'the request involved sensitive personal information',
+  'refusal.recitation': 'the output resembled protected material too closely',
+  'refusal.noImage': 'the model chose not to draw an image',
+  'refusal.other': 'refused for an unspecified reason',
+  'refusal.tipSexual': 'Describe period clothing explicitly (e.g. "wearing a wool coat") and avoid words about bodies or undress.',
+  'refusal.tipDangerous': 'Leave out weapons, fire, explosions and injuries; describe the scene around them instead.',
+  'refusal.tipHarassment': 'Avoid insults or mocking descriptions of people.',
+  'refusal.tipHate': 'Avoid references to groups of people by ethnicity, religion or nationality, and to extremist symbols.',
+  'refusal.tipCivic': 'Avoid elections, political figures and campaign material.',
+  'refusal.tipProhibited': 'Reference photos of children or of famous people are often refused; try different photos.',
+  'refusal.tipRecitation': "Don't name copyrighted characters, brands or famous artworks; describe them in your own words.",
+  'refusal.tipSpii': 'Remove names, addresses or ID numbers from the scene details.',
+  'refusal.tipNoImage': 'Ask for a photograph directly and keep the scene to one clear moment.',
+  'refusal.tipBlocklist': 'Reword the scene details without the flagged terms.',
+  'refusal.tipSimplify': 'Simplify the scene details and describe an everyday moment at this place and time.',
+
+  'shots.styleDefault': 'Style default ({ratio})',
+  'shots.remove': 'Remove shot',
+  'shots.customPlaceholder': 'Custom shot, e.g. Low angle from the river bank',
+  'shots.add': 'Add',
+  'shots.planned': '{count}/{max} shots planned',
+
+  'styles.myStyle': 'My Style',
+  'styles.new': 'New',
+  'styles.duplicate': 'Duplicate',
+  'styles.edit': 'Edit',
+  'styles.done': 'Done',
+  'styles.delete': 'Delete',
+  'styles.uploadThumbnail': 'Upload thumbnail',
+  'styles.thumbnailFailed': 'Could not read that image.',
+  'styles.namePlaceholder': 'Style name',
+  'styles.defaultRatio': 'Default aspect ratio',
+  'styles.anyRatio': 'Any',
+  'styles.fragmentPlaceholder': "How the image should look, e.g. 'Polaroid snapshot, washed-out colors, white frame glare'",
+  'styles.avoidPlaceholder': "Avoid (optional), e.g. 'modern cars, lens flare'",
+  'styles.noFragment': 'No prompt fragment yet.',
+
+  'conditions.season': 'Season',
+  'conditions.seasonAuto': 'Season: auto',
+  'conditions.timeOfDay': 'Time of day',
+  'conditions.timeAuto': 'Time: auto',
+  'conditions.weather': 'Weather',
+  'conditions.weatherAuto': 'Weather: auto',
+  'conditions.precipitation': '{mm} mm/mo',
+  'conditions.seasonTime': '{season} {timeOfDay}',
+  'conditions.daylight': '{hours}h daylight',
+  'conditions.source': 'Source: {source}',
+  'season.winter': 'winter',
+  'season.spring': 'spring',
+  'season.summer': 'summer',
+  'season.autumn': 'autumn',
+  'timeOfDay.dawn': 'dawn',
+  'timeOfDay.morning': 'morning',
+  'timeOfDay.midday': 'midday',
+  'timeOfDay.afternoon': 'afternoon',
+  'timeOfDay.dusk': 'dusk',
+  'timeOfDay.night': 'night',
+  'weather.clear': 'clear skies',
+  'weather.partlyCloudy': 'partly cloudy',
+  'weather.overcast': 'overcast',
+  'weather.fog': 'fog',
+  'weather.rain': 'rain',
+  'weather.storm': 'thunderstorm',
+  'weather.snow': 'snowfall',
+
+  'timeline.title': 'Timeline',
+  'timeline.frames': '{done}/{total} Frames',
+  'timeline.frameAlt': 'Timeline {year}',
+  'timeline.rendering': 'Rendering {year}...',
+  'timeline.stop': 'Stop Timeline',
+
+  'travelers.placeholder': 'Traveler {number}',
+  'travelers.remove': 'Remove traveler',
+  'travelers.removePhoto': 'Remove photo',
+  'travelers.selfie': 'Selfie',
+  'travelers.more': 'More',
+  'travelers.addPerson': 'Add Person to the Shot',
+  'travelers.processFailed': 'Could not process {name}',
+  'travelers.processedAlt': 'Processed upload',
+  'travelers.sentAsShown': 'Sent as shown.',
+  'travelers.orientation': 'EXIF orientation {value} applied',
+  'travelers.faceCropped': 'Cropped around detected face',
+  'travelers.metadataRemoved': 'Metadata removed',
+  'travelers.maxSize': 'Max',
+  'travelers.cropToFace': 'Crop to face',
+  'travelers.noMetadata': 'No metadata',
+  'travelers.noMetadataTitle': 'Photos are re-encoded, which strips EXIF data including GPS location',
+  'travelers.hint': 'Up to {max} photos per person improve likeness. Settings apply to newly added photos.',
+
+  'gallery.title': 'Trip Gallery',
+  'gallery.search': 'Search place, year, shot...',
+  'gallery.allEras': 'All eras',
+  'gallery.allStyles': 'All styles',
+  'gallery.empty': 'Your generated shots will appear here.',
+  'gallery.noMatch': 'No shots match these filters.',
+  'gallery.edit': 'Edit: {instruction}',
+  'gallery.delete': 'Delete shot',
+
+  'lightbox.single': 'Single',
+  'lightbox.split': 'Then vs Now',
+  'lightbox.side': 'Side by Side',
+  'lightbox.today': 'Today',
+  'lightbox.position': '{index} / {total}',
+  'lightbox.help': '←/→ browse · +/− zoom · 0 reset · 1–3 modes',
+  'lightbox.noPartner': 'No other shot of this place to compare with yet. Generate it at another year (or with another style) and it will show up here.',
+  'lightbox.compareWith': 'Compare with',
+  'lightbox.version': '{label} · v{number}',
+  'lightbox.zoomIn': 'Zoom in',
+  'lightbox.zoomOut': 'Zoom out',
+  'lightbox.reset': 'Reset view',
+  'lightbox.close': 'Close',
+  'lightbox.previous': 'Previous',
+  'lightbox.next': 'Next',
+
+  'clothing.separator': ', ',
+  'clothing.heavyInsulated': 'heavy insulated coat, fur-lined hat, gloves and scarf',
+  'clothing.winterCoat': 'warm winter coat, hat and gloves',
+  'clothing.warmCoat': 'warm coat or thick woollen layers',
+  'clothing.lightJacket': 'a light jacket or long sleeves',
+  'clothing.lightLayers': 'light layers',
+  'clothing.breathable': 'loose, breathable, lightweight clothing',
+  'clothing.waterproof': 'a waterproof outer layer or cloak',
+  'clothing.boots': 'insulated boots',
+  'clothing.extraLayer': 'an extra layer against the chill',
+  'clothing.sunHat': 'a hat for the sun',
+
+  'search.coordinates': 'Coordinates',
+
+  'search.placeholder': 'Search a place or paste “lat, lng”',
+  'search.failed': 'Search failed',
+  'search.noResults': 'No matching places',
+
+  'map.title': 'Map of {year}',
+  'map.basemap': 'Basemap: {name}',
+  'map.basemapModern': 'Modern streets',
+  'map.basemapHistorical': 'Historical map (no modern labels)',
+  'map.basemapAncient': 'Natural relief',
+  'map.basemapFuture': 'Future (night mode)',
+  'map.showOverlays': 'Show historical borders & cities',
+  'map.noOverlays': 'No historical overlays for this year.',
+
+  'offline.banner': 'Offline: cached places and map tiles still work',
+  'offline.stateWaiting': 'Waiting for connection',
+  'offline.stateSending': 'Sending',
+  'offline.stateDone': 'Done',
+  'offline.stateFailed': 'Failed',
+  'offline.failedCount': '{count} failed',
+  'offline.open': 'Open',
+  'offline.cancel': 'Cancel',
+  'offline.dismiss': 'Dismiss',
+
+  'editor.title': 'Edit “{label}”',
+  'editor.originalShot': 'Original shot',
+  'editor.instruction': 'Instruction',
+  'editor.placeholder': 'e.g. make it sunset',
+  'editor.suggestSunset': 'Make it sunset',
+  'editor.suggestRain': 'Add light rain',
+  'editor.suggestCars': 'Remove the cars',
+  'editor.suggestHat': 'Change my hat to a tricorn',
+  'editor.apply': 'Apply to v{number}',
+  'editor.history': 'History',
+  'editor.stepBack': 'Step back',
+  'editor.original': 'Original',
+  'editor.branchedFrom': 'from v{number}',
+
+  'export.title': 'Export Postcard',
+  'export.previewAlt': 'Export preview',
+  'export.layout': 'Layout',
+  'export.postcard': 'Postcard',
+  'export.collage': 'Collage',
+  'export.size': '{widthIn}×{heightIn} in · {width}×{height}px at {dpi} dpi',
+  'export.image': 'Image',
+  'export.images': 'Images (up to {max})',
+  'export.caption': 'Caption',
+  'export.format': 'Format',
+  'export.embedded': 'Location, era and prompt are embedded in the file.',
+  'export.previewFailed': 'Preview failed',
+  'export.failed': 'Export failed',
+  'export.download': 'Export {format}',
+
+  'trip.title': 'Trip Planner',
+  'trip.empty': 'Click the map or search for a place to add the first stop.',
+  'trip.showOnMap': 'Show on map',
+  'trip.removeStop': 'Remove stop',
+  'trip.dateTitle': 'Year or date, e.g. 1889, 1920s, 16th century, 300 BC',
+  'trip.stateQueued': 'Waiting',
+  'trip.stateAnalyzing': 'Analyzing',
+  'trip.stateGenerating': 'Generating',
+  'trip.stateDone': 'Done',
+  'trip.stateFailed': 'Failed',
+  'trip.stateCancelled': 'Cancelled',
+  'trip.dragHint': 'Drag stops to reorder.',
+  'trip.maxStops': 'Maximum of {max} stops reached.',
+  'trip.addMore': 'Click the map to add more.',
+  'trip.scenePlaceholder': 'Applied to every stop...',
+  'trip.stop': 'Stop Trip ({done}/{total})',
+  'trip.travel_one': 'Travel to {count} Stop',
+  'trip.travel_other': 'Travel to {count} Stops',
+  'trip.offlineNote': 'Trips need a connection: every stop is analyzed before it is generated.',
+  'trip.openAlbum': 'Open Album ({done}/{total})',
+
+  'album.stopFailed': 'This stop failed.',
+  'album.cancelled': 'Cancelled',
+  'album.travelling': 'Still travelling...',
+  'album.page': 'Stop {number} of {total}',
+
+  'prompts.title': 'Prompt Presets',
+  'prompts.builtIn': '{name} (built-in)',
+  'prompts.revisionOption': '{name} · r{revision}',
+  'prompts.export': 'Export as JSON',
+  'prompts.import': 'Import JSON',
+  'prompts.delete': 'Delete preset',
+  'prompts.namePlaceholder': 'Preset name',
+  'prompts.photoTab': 'Photo prompt',
+  'prompts.analysisTab': 'Location analysis',
+  'prompts.syntax': 'Variables · {variable}, sections · {section}',
+  'prompts.showPreview': 'Preview with current scene',
+  'prompts.hidePreview': 'Hide preview',
+  'prompts.builtInNote': 'Saving creates an editable copy.',
+  'prompts.revision': 'Revision {revision}',
+  'prompts.discard': 'Discard',
+  'prompts.save': 'Save',
+  'prompts.saved': 'Saved',
+
+  'preset.issueAnalysis': 'Analysis: {issue}',
+  'preset.issuePhoto': 'Photo: {issue}',
+  'preset.unexpectedClose': 'Unexpected {tag}.',
+  'preset.unexpectedCloseExpected': 'Unexpected {tag}, expected {expected}.',
+  'preset.unclosed': 'Section {tag} is never closed.',
+  'preset.unknownVariable': 'Unknown variable "{name}".',
+  'preset.invalidJson': 'File is not valid JSON.',
+  'preset.wrongFormat': 'Not a ChronoTravel prompt preset.',
+  'preset.unsupportedVersion': 'Unsupported preset version {version} (expected {expected}).',
+  'preset.notObject': 'Preset is not an object.',
+  'preset.needsName': 'Preset needs a name.',
+  'preset.needsTemplates': 'Preset needs "analysisTemplate" and "photoTemplate" strings.',
+
+  'promptVar.clickedLat': 'Latitude of the clicked point',
+  'promptVar.clickedLng': 'Longitude of the clicked point',
+  'promptVar.language': 'Language for the text fields, from the UI language (e.g. "Korean")',
+  'promptVar.location': 'Place name from the location analysis',
+  'promptVar.lat': 'Latitude',
+  'promptVar.lng': 'Longitude',
+  'promptVar.era': 'Selected era label',
+  'promptVar.year': 'Year field as entered, e.g. "1990", "1920s", "300 BC"',
+  'promptVar.yearAbs': 'Year without its sign (the middle year for decades, centuries and ranges)',
+  'promptVar.date': 'Date in words, keeping its precision, e.g. "the mid-16th century (1534 CE–1567 CE)"',
+  'promptVar.historicalNotes': 'What the plausibility check found: settlement, landscape, structures, anachronisms to avoid, details to include',
+  'promptVar.timeDescription': 'Era plus the date, e.g. "Present Day (Specifically the year 1990 CE)"',
+  'promptVar.weather': 'Weather summary, e.g. "rain, 12°C, autumn afternoon"',
+  'promptVar.season': 'Season at the scene',
+  'promptVar.timeOfDay': 'Time of day (dawn, morning, midday, afternoon, dusk, night)',
+  'promptVar.temperature': 'Temperature in °C',
+  'promptVar.daylight': 'Hours of daylight',
+  'promptVar.clothing': 'What the conditions call for (era-neutral)',
+  'promptVar.style': 'Visual style label',
+  'promptVar.styleFragment': 'Prompt fragment of the selected style',
+  'promptVar.negativeConstraints': 'What the style must avoid (may be empty)',
+  'promptVar.variation': 'Shot variation for this image',
+  'promptVar.customPrompt': 'User scene instructions (may be empty)',
+  'promptVar.subjectIntro': 'How to insert the people from the reference photos',
+  'promptVar.peopleList': 'One line per labeled person',
+  'promptVar.peopleCount': 'Number of people',
+  'promptVar.hasYear': 'Section: a specific year was given',
+  'promptVar.isBC': 'Section: the year is B.C.',
+  'promptVar.isAD': 'Section: the year is A.D.',
+  'promptVar.isFuture': 'Section: the Future era is selected',
+  'promptVar.isGroup': 'Section: more than one person',
+};
@@ -0,0 +1,423 @@
+import type { Messages } from '../services/i18n';
+
+export const es: Messages = {
+  'app.gallery': 'Galería ({count})',
+  'app.prompts': 'Prompts',
+  'app.promptPresetTitle': 'Preajuste de prompt: {name}',
+  'app.trip': 'Viaje',
+  'app.tripTitle': 'Planifica un viaje por varios lugares y épocas',
+  'app.keyRejected': 'La clave de API fue rechazada (no válida, caducada o sin acceso). Elige o añade otra clave.',
+  'app.language': 'Idioma',
+
+  'key.tagline': 'Viaja en el tiempo hasta el {year} o al futuro lejano.',
+  'key.pickKey': 'Elige la clave de API de Gemini que quieres usar.',
+  'key.storedEncrypted': 'Tus claves de API se guardan cifradas con una frase de contraseña.',
+  'key.newPassphrase': 'Nueva frase de contraseña (mín. {min} caracteres)',
+  'key.repeatPassphrase': 'Repite la frase de contraseña',
+  'key.legacyMoved': 'La clave que guardaste antes se trasladará al almacén cifrado.',
+  'key.createVault': 'Crear almacén de claves',
+  'key.passphrase': 'Frase de contraseña',
+  'key.unlock': 'Desbloquear',
+  'key.forgot': '¿Olvidaste la frase? Restablecer las claves guardadas',
+  'key.resetConfirm': '¿Eliminar todas las claves guardadas? Tendrás que volver a añadirlas.',
+  'key.mismatch': 'Las frases de contraseña no coinciden',
+  'key.wrongPassphrase': 'Frase de contraseña incorrecta',
+  'key.genericError': 'Algo salió mal',
+  'key.savedKeyName': 'Clave guardada',
+  'key.use': 'Usar',
+  'key.delete': 'Eliminar clave',
+  'key.addKey': 'Añadir una clave',
+  'key.namePlaceholder': 'Nombre (p. ej. Personal, Trabajo)',
+  'key.keyPlaceholder': 'Pega aquí tu clave de API de Gemini',
+  'key.checking': 'Comprobando la clave...',
+  'key.save': 'Comprobar y guardar',
+  'key.unverified': 'Guardada sin comprobar: {message}',
+  'key.noKey': '¿No tienes una clave?',
+  'key.getKey': 'Consíguela en Google AI Studio',
+
+  'sidebar.startTitle': 'Empieza tu viaje',
+  'sidebar.startHint': 'Haz clic en cualquier punto del mapa para empezar.',
+  'sidebar.manageKeys': 'Gestionar claves de API',
+  'sidebar.title': 'Vista del mundo',
+  'sidebar.analyzing': 'Analizando la ubicación...',
+  'sidebar.preciseNeeded': 'Se necesita una ubicación precisa',
+  'sidebar.clickedNear': 'Has hecho clic cerca de {place}.',
+  'sidebar.useExactSpot': 'Usar el punto exacto',
+  'sidebar.location': 'Ubicación',
+  'sidebar.modeSingle': 'Un momento',
+  'sidebar.modeTimeline': 'Línea temporal',
+  'sidebar.timelineRange': 'Intervalo de la línea temporal',
+  'sidebar.from': 'Desde',
+  'sidebar.to': 'Hasta',
+  'sidebar.every': 'Cada',
+  'sidebar.timelineFrames': '{count} fotogramas: {from} → {to}',
+  'sidebar.timelineInvalid': 'Introduce un intervalo válido y un paso positivo.',
+  'sidebar.timelineMax': ' (máx. {max})',
+  'sidebar.timeTravelMode': 'Modo de viaje en el tiempo',
+  'sidebar.eraPast': 'Pasado',
+  'sidebar.eraNow': 'Ahora',
+  'sidebar.eraFuture': 'Futuro',
+  'sidebar.targetYear': 'Año de destino',
+  'sidebar.datePlaceholder': 'p. ej. 1889, 1920s, mid-16th century, 300 BC',
+  'sidebar.dateInvalid': 'No se pudo leer esta fecha. Prueba con 1889, 1920s, 16th century o 300 BC.',
+  'sidebar.today': 'Hoy',
+  'sidebar.enterYear': 'Introduce el año',
+  'sidebar.ancientHint': 'Época antigua seleccionada. El paisaje será natural.',
+  'sidebar.yearHint': 'Elige un año concreto.',
+  'sidebar.weatherLight': 'Tiempo y luz',
+  'sidebar.visualStyle': 'Estilo visual',
+  'sidebar.shotList': 'Lista de tomas',
+  'sidebar.sceneDetails': 'Detalles de la escena (opcional)',
+  'sidebar.scenePlaceholder': 'Describe la escena...',
+  'sidebar.travelers': 'Viajeros',
+  'sidebar.yourFace': 'Tu cara',
+  'sidebar.generating': 'Generando...',
+  'sidebar.queueOffline': 'Enviar al recuperar la conexión',
+  'sidebar.generateTimeline': 'Generar línea temporal de {count} fotogramas',
+  'sidebar.generateShots_one': 'Generar {count} foto de viaje',
+  'sidebar.generateShots_other': 'Generar {count} fotos de viaje',
+  'sidebar.offlineNote': 'Estás sin conexión. La solicitud se enviará automáticamente cuando vuelva la conexión y las imágenes irán a tu galería.',
+  'sidebar.regenerateTimeline': 'Volver a generar la línea temporal',
+  'sidebar.tokens': '{count} tokens',
+  'sidebar.imageCount': '{done}/{total} imágenes',
+  'sidebar.copyPrompt': 'Copiar el prompt usado para esta toma',
+  'sidebar.openLightbox': 'Ver a pantalla completa y comparar',
+  'sidebar.refineShot': 'Retocar esta toma con más instrucciones',
+  'sidebar.stateQueued': 'En cola',
+  'sidebar.stateRunning': 'Procesando...',
+  'sidebar.stateCancelled': 'Cancelada',
+  'sidebar.retry': 'Reintentar',
+  'sidebar.notGenerated': 'No se generó “{label}”',
+  'sidebar.editPrompt': 'Editar el prompt',
+  'sidebar.stop': 'Detener',
+  'sidebar.regenerate': 'Volver a generar',
+  'sidebar.postcard': 'Postal / Collage',
+
+  'year.bc': '{year} a. C.',
+  'year.ad': '{year} d. C.',
+
+  'date.approx': 'h. {date}',
+  'date.decade': 'años {decade}',
+  'date.decadeBc': 'años {decade} a. C.',
+  'date.century': 'siglo {roman}',
+  'date.centuryBc': 'siglo {roman} a. C.',
+  'date.early': '{date} (inicios)',
+  'date.mid': '{date} (mediados)',
+  'date.late': '{date} (finales)',
+  'date.range': '{from}–{to}',
+
+  'plausibility.title': 'Comprobación histórica',
+  'plausibility.checking': 'Comprobando qué había aquí en esa época...',
+  'plausibility.failed': 'No se pudo comprobar este lugar y fecha: {message}',
+  'plausibility.retry': 'Volver a comprobar',
+  'plausibility.plausible': 'Verosímil',
+  'plausibility.questionable': 'Dudoso',
+  'plausibility.implausible': 'Anacrónico',
+  'plausibility.settlement': 'Asentamiento',
+  'plausibility.landscape': 'Paisaje',
+  'plausibility.structures': 'En pie en esa época',
+  'plausibility.anachronisms': 'Sería anacrónico',
+  'plausibility.suggested': 'Conviene mostrar',
+  'plausibility.inPrompt': 'Estas notas se añaden al prompt de la imagen.',
+
+  'error.retry': 'Reintentar',
+  'error.retryAnalysis': 'Reintentar análisis',
+  'error.editPrompt': 'Editar prompt',
+  'error.rateLimitTitle': 'Se alcanzó el límite de solicitudes.',
+  'error.retryingIn': 'Reintentando automáticamente en {seconds} s.',
+  'error.rateLimitHint': 'Espera un momento o revisa la cuota y la facturación de tu clave.',
+  'error.cancelAutoRetry': 'Cancelar reintento automático',
+  'error.authTitle': 'Tu clave de API fue rechazada.',
+  'error.authHint': 'Puede que no sea válida, que haya caducado o que no tenga activada la API de Gemini.',
+  'error.changeKey': 'Cambiar clave de API',
+  'error.safetyTitle': 'Los filtros de seguridad bloquearon la solicitud.',
+  'error.safetyHint': 'Motivo: {reason}. Quita de los detalles de la escena todo lo violento, explícito o sobre personajes públicos reales y vuelve a intentarlo.',
+  'error.noImageTitle': 'El modelo respondió sin imagen.',
+  'error.noImageHint': 'Ocurre de vez en cuando; normalmente basta con reintentar.',
+  'error.offlineTitle': 'Parece que no tienes conexión.',
+  'error.offlineHint': 'Volveremos a intentarlo cuando vuelva la conexión.',
+  'error.parseTitle': 'No se pudo leer la respuesta.',
+  'error.rateLimitedShort': 'Límite de solicitudes. Inténtalo en breve.',
+  'error.authShort': 'Clave de API rechazada.',
+  'error.safetyShort': 'Bloqueado por los filtros de seguridad.',
+  'error.noImageShort': 'No se devolvió ninguna imagen.',
+  'error.offlineShort': 'Sin conexión.',
+  'error.parseShort': 'No se pudo leer la respuesta.',
+  'error.failedShort': 'Falló la generación',
+
+  'refusal.reason': 'Motivo: {reason}.',
+  'refusal.textInstead': 'el modelo respondió con texto en lugar de una imagen',
+  'refusal.safety': 'marcado por los filtros de seguridad',
+  'refusal.imageSafety': 'la imagen generada fue marcada por los filtros de seguridad',
+  'refusal.prohibited': 'la solicitud tocaba contenido prohibido',
+  'refusal.imageProhibited': 'la imagen generada contenía contenido prohibido',
+  'refusal.blocklist': 'el prompt contiene términos bloqueados',
+  'refusal.spii': 'la solicitud incluía información personal sensible',
+  'refusal.recitation': 'el resultado se parecía demasiado a material protegido',
+  'refusal.noImage': 'el modelo decidió no dibujar una imagen',
+  'refusal.other': 'rechazado por un motivo no especificado',
+  'refusal.tipSexual': 'Describe la ropa de época de forma explícita (p. ej. "con un abrigo de lana") y evita palabras sobre cuerpos o desnudez.',
+  'refusal.tipDangerous': 'Omite armas, fuego, explosiones y heridas; describe en su lugar la escena que las rodea.',
+  'refusal.tipHarassment': 'Evita insultos o descripciones burlonas de personas.',
+  'refusal.tipHate': 'Evita referirte a grupos de personas por etnia, religión o nacionalidad, y a símbolos extremistas.',
+  'refusal.tipCivic': 'Evita elecciones, figuras políticas y material de campaña.',
+  'refusal.tipProhibited': 'Las fotos de referencia de niños o de famosos suelen rechazarse; prueba con otras fotos.',
+  'refusal.tipRecitation': 'No nombres personajes con derechos de autor, marcas ni obras famosas; descríbelos con tus propias palabras.',
+  'refusal.tipSpii': 'Quita nombres, direcciones o números de identificación de los detalles de la escena.',
+  'refusal.tipNoImage': 'Pide directamente una fotografía y limita la escena a un momento claro.',
+  'refusal.tipBlocklist': 'Reformula los detalles de la escena sin los términos marcados.',
+  'refusal.tipSimplify': 'Simplifica los detalles de la escena y describe un momento cotidiano en este lugar y época.',
+
+  'shots.styleDefault': 'Predeterminado del estilo ({ratio})',
+  'shots.remove': 'Quitar toma',
+  'shots.customPlaceholder': 'Toma personalizada, p. ej. contrapicado desde la orilla del río',
+  'shots.add': 'Añadir',
+  'shots.planned': '{count}/{max} tomas planificadas',
+
+  'styles.myStyle': 'Mi estilo',
+  'styles.new': 'Nuevo',
+  'styles.duplicate': 'Duplicar',
+  'styles.edit': 'Editar',
+  'styles.done': 'Listo',
+  'styles.delete': 'Eliminar',
+  'styles.uploadThumbnail': 'Subir miniatura',
+  'styles.thumbnailFailed': 'No se pudo leer esa imagen.',
+  'styles.namePlaceholder': 'Nombre del estilo',
+  'styles.defaultRatio': 'Relación de aspecto predeterminada',
+  'styles.anyRatio': 'Cualquiera',
+  'styles.fragmentPlaceholder': "Cómo debe verse la imagen, p. ej. 'instantánea Polaroid, colores desvaídos, reflejo en el marco blanco'",
+  'styles.avoidPlaceholder': "Evitar (opcional), p. ej. 'coches modernos, destellos de lente'",
+  'styles.noFragment': 'Aún no hay fragmento de prompt.',
+
+  'conditions.season': 'Estación',
+  'conditions.seasonAuto': 'Estación: auto',
+  'conditions.timeOfDay': 'Momento del día',
+  'conditions.timeAuto': 'Hora: auto',
+  'conditions.weather': 'Tiempo',
+  'conditions.weatherAuto': 'Tiempo: auto',
+  'conditions.precipitation': '{mm} mm/mes',
+  'conditions.seasonTime': '{timeOfDay} de {season}',
+  'conditions.daylight': '{hours} h de luz',
+  'conditions.source': 'Fuente: {source}',
+  'season.winter': 'invierno',
+  'season.spring': 'primavera',
+  'season.summer': 'verano',
+  'season.autumn': 'otoño',
+  'timeOfDay.dawn': 'amanecer',
+  'timeOfDay.morning': 'mañana',
+  'timeOfDay.midday': 'mediodía',
+  'timeOfDay.afternoon': 'tarde',
+  'timeOfDay.dusk': 'atardecer',
+  'timeOfDay.night': 'noche',
+  'weather.clear': 'cielo despejado',
+  'weather.partlyCloudy': 'parcialmente nublado',
+  'weather.overcast': 'cubierto',
+  'weather.fog': 'niebla',
+  'weather.rain': 'lluvia',
+  'weather.storm': 'tormenta',
+  'weather.snow': 'nevada',
+
+  'timeline.title': 'Línea temporal',
+  'timeline.frames': '{done}/{total} fotogramas',
+  'timeline.frameAlt': 'Línea temporal {year}',
+  'timeline.rendering': 'Generando {year}...',
+  'timeline.stop': 'Detener línea temporal',
+
+  'travelers.placeholder': 'Viajero {number}',
+  'travelers.remove': 'Quitar viajero',
+  'travelers.removePhoto': 'Quitar foto',
+  'travelers.selfie': 'Selfi',
+  'travelers.more': 'Más',
+  'travelers.addPerson': 'Añadir persona a la toma',
+  'travelers.processFailed': 'No se pudo procesar {name}',
+  'travelers.processedAlt': 'Imagen procesada',
+  'travelers.sentAsShown': 'Se envía tal como se ve.',
+  'travelers.orientation': 'Orientación EXIF {value} aplicada',
+  'travelers.faceCropped': 'Recortada alrededor de la cara detectada',
+  'travelers.metadataRemoved': 'Metadatos eliminados',
+  'travelers.maxSize': 'Máx.',
+  'travelers.cropToFace': 'Recortar a la cara',
+  'travelers.noMetadata': 'Sin metadatos',
+  'travelers.noMetadataTitle': 'Las fotos se vuelven a codificar, lo que elimina los datos EXIF, incluida la ubicación GPS',
+  'travelers.hint': 'Hasta {max} fotos por persona mejoran el parecido. Los ajustes se aplican a las fotos que añadas después.',
+
+  'gallery.title': 'Galería del viaje',
+  'gallery.search': 'Buscar lugar, año, toma...',
+  'gallery.allEras': 'Todas las épocas',
+  'gallery.allStyles': 'Todos los estilos',
+  'gallery.empty': 'Aquí aparecerán las tomas que generes.',
+  'gallery.noMatch': 'Ninguna toma coincide con estos filtros.',
+  'gallery.edit': 'Edición: {instruction}',
+  'gallery.delete': 'Eliminar toma',
+
+  'lightbox.single': 'Individual',
+  'lightbox.split': 'Antes y ahora',
+  'lightbox.side': 'Lado a lado',
+  'lightbox.today': 'Hoy',
+  'lightbox.position': '{index} / {total}',
+  'lightbox.help': '←/→ navegar · +/− zoom · 0 restablecer · 1–3 modos',
+  'lightbox.noPartner': 'Todavía no hay otra toma de este lugar con la que comparar. Genérala en otro año (o con otro estilo) y aparecerá aquí.',
+  'lightbox.compareWith': 'Comparar con',
+  'lightbox.version': '{label} · v{number}',
+  'lightbox.zoomIn': 'Acercar',
+  'lightbox.zoomOut': 'Alejar',
+  'lightbox.reset': 'Restablecer vista',
+  'lightbox.close': 'Cerrar',
+  'lightbox.previous': 'Anterior',
+  'lightbox.next': 'Siguiente',
+
+  'clothing.separator': ', ',
+  'clothing.heavyInsulated': 'abrigo grueso aislante, gorro forrado, guantes y bufanda',
+  'clothing.winterCoat': 'abrigo de invierno, gorro y guantes',
+  'clothing.warmCoat': 'abrigo cálido o capas gruesas de lana',
+  'clothing.lightJacket': 'una chaqueta ligera o manga larga',
+  'clothing.lightLayers': 'capas ligeras',
+  'clothing.breathable': 'ropa holgada, ligera y transpirable',
+  'clothing.waterproof': 'una capa exterior impermeable o una capa',
+  'clothing.boots': 'botas aislantes',
+  'clothing.extraLayer': 'una capa extra contra el frío',
+  'clothing.sunHat': 'un sombrero para el sol',
+
+  'search.coordinates': 'Coordenadas',
+
+  'search.placeholder': 'Busca un lugar o pega “lat, lng”',
+  'search.failed': 'La búsqueda falló',
+  'search.noResults': 'No hay lugares que coincidan',
+
+  'map.title': 'Mapa de {year}',
+  'map.basemap': 'Mapa base: {name}',
+  'map.basemapModern': 'Calles actuales',
+  'map.basemapHistorical': 'Mapa histórico (sin rótulos actuales)',
+  'map.basemapAncient': 'Relieve natural',
+  'map.basemapFuture': 'Futuro (modo nocturno)',
+  'map.showOverlays': 'Mostrar fronteras y ciudades históricas',
+  'map.noOverlays': 'No hay capas históricas para este año.',
+
+  'offline.banner': 'Sin conexión: los lugares y mosaicos de mapa en caché siguen funcionando',
+  'offline.stateWaiting': 'Esperando conexión',
+  'offline.stateSending': 'Enviando',
+  'offline.stateDone': 'Listo',
+  'offline.stateFailed': 'Falló',
+  'offline.failedCount': '{count} fallidas',
+  'offline.open': 'Abrir',
+  'offline.cancel': 'Cancelar',
+  'offline.dismiss': 'Descartar',
+
+  'editor.title': 'Editar “{label}”',
+  'editor.originalShot': 'Toma original',
+  'editor.instruction': 'Instrucción',
+  'editor.placeholder': 'p. ej. que sea al atardecer',
+  'editor.suggestSunset': 'Que sea al atardecer',
+  'editor.suggestRain': 'Añade una lluvia ligera',
+  'editor.suggestCars': 'Quita los coches',
+  'editor.suggestHat': 'Cambia mi sombrero por un tricornio',
+  'editor.apply': 'Aplicar a v{number}',
+  'editor.history': 'Historial',
+  'editor.stepBack': 'Volver atrás',
+  'editor.original': 'Original',
+  'editor.branchedFrom': 'desde v{number}',
+
+  'export.title': 'Exportar postal',
+  'export.previewAlt': 'Vista previa de la exportación',
+  'export.layout': 'Diseño',
+  'export.postcard': 'Postal',
+  'export.collage': 'Collage',
+  'export.size': '{widthIn}×{heightIn} pulg. · {width}×{height} px a {dpi} ppp',
+  'export.image': 'Imagen',
+  'export.images': 'Imágenes (hasta {max})',
+  'export.caption': 'Pie de foto',
+  'export.format': 'Formato',
+  'export.embedded': 'El lugar, la época y el prompt se incluyen en el archivo.',
+  'export.previewFailed': 'No se pudo generar la vista previa',
+  'export.failed': 'La exportación falló',
+  'export.download': 'Exportar {format}',
+
+  'trip.title': 'Planificador de viaje',
+  'trip.empty': 'Haz clic en el mapa o busca un lugar para añadir la primera parada.',
+  'trip.showOnMap': 'Ver en el mapa',
+  'trip.removeStop': 'Quitar parada',
+  'trip.dateTitle': 'Año o fecha, p. ej. 1889, 1920s, siglo XVI, 300 a. C.',
+  'trip.stateQueued': 'En espera',
+  'trip.stateAnalyzing': 'Analizando',
+  'trip.stateGenerating': 'Generando',
+  'trip.stateDone': 'Listo',
+  'trip.stateFailed': 'Falló',
+  'trip.stateCancelled': 'Cancelada',
+  'trip.dragHint': 'Arrastra las paradas para reordenarlas.',
+  'trip.maxStops': 'Se alcanzó el máximo de {max} paradas.',
+  'trip.addMore': 'Haz clic en el mapa para añadir más.',
+  'trip.scenePlaceholder': 'Se aplica a todas las paradas...',
+  'trip.stop': 'Detener viaje ({done}/{total})',
+  'trip.travel_one': 'Viajar a {count} parada',
+  'trip.travel_other': 'Viajar a {count} paradas',
+  'trip.offlineNote': 'Los viajes necesitan conexión: cada parada se analiza antes de generarse.',
+  'trip.openAlbum': 'Abrir álbum ({done}/{total})',
+
+  'album.stopFailed': 'Esta parada falló.',
+  'album.cancelled': 'Cancelada',
+  'album.travelling': 'Todavía de viaje...',
+  'album.page': 'Parada {number} de {total}',
+
+  'prompts.title': 'Ajustes de prompt',
+  'prompts.builtIn': '{name} (integrado)',
+  'prompts.revisionOption': '{name} · r{revision}',
+  'prompts.export': 'Exportar como JSON',
+  'prompts.import': 'Importar JSON',
+  'prompts.delete': 'Eliminar ajuste',
+  'prompts.namePlaceholder': 'Nombre del ajuste',
+  'prompts.photoTab': 'Prompt de foto',
+  'prompts.analysisTab': 'Análisis del lugar',
+  'prompts.syntax': 'Variables · {variable}, secciones · {section}',
+  'prompts.showPreview': 'Vista previa con la escena actual',
+  'prompts.hidePreview': 'Ocultar vista previa',
+  'prompts.builtInNote': 'Al guardar se crea una copia editable.',
+  'prompts.revision': 'Revisión {revision}',
+  'prompts.discard': 'Descartar',
+  'prompts.save': 'Guardar',
+  'prompts.saved': 'Guardado',
+
+  'preset.issueAnalysis': 'Análisis: {issue}',
+  'preset.issuePhoto': 'Foto: {issue}',
+  'preset.unexpectedClose': '{tag} inesperado.',
+  'preset.unexpectedCloseExpected': '{tag} inesperado; se esperaba {expected}.',
+  'preset.unclosed': 'La sección {tag} nunca se cierra.',
+  'preset.unknownVariable': 'Variable desconocida "{name}".',
+  'preset.invalidJson': 'El archivo no es un JSON válido.',
+  'preset.wrongFormat': 'No es un ajuste de prompt de ChronoTravel.',
+  'preset.unsupportedVersion': 'Versión de ajuste no compatible: {version} (se esperaba {expected}).',
+  'preset.notObject': 'El ajuste no es un objeto.',
+  'preset.needsName': 'El ajuste necesita un nombre.',
+  'preset.needsTemplates': 'El ajuste necesita las cadenas "analysisTemplate" y "photoTemplate".',
+
+  'promptVar.clickedLat': 'Latitud del punto pulsado',
+  'promptVar.clickedLng': 'Longitud del punto pulsado',
+  'promptVar.language': 'Idioma de los campos de texto, según el idioma de la interfaz (p. ej. "Korean")',
+  'promptVar.location': 'Nombre del lugar según el análisis',
+  'promptVar.lat': 'Latitud',
+  'promptVar.lng': 'Longitud',
+  'promptVar.era': 'Nombre de la época elegida',
+  'promptVar.year': 'El año tal como se escribió, p. ej. "1990", "1920s", "300 BC"',
+  'promptVar.yearAbs': 'Año sin signo (el año central para décadas, siglos y rangos)',
+  'promptVar.date': 'Fecha en palabras con su precisión, p. ej. "the mid-16th century (1534 CE–1567 CE)"',
+  'promptVar.historicalNotes': 'Lo que encontró la comprobación histórica: asentamiento, paisaje, estructuras, anacronismos que evitar y detalles que incluir',
+  'promptVar.timeDescription': 'Época y fecha, p. ej. "Present Day (Specifically the year 1990 CE)"',
+  'promptVar.weather': 'Resumen del tiempo, p. ej. "rain, 12°C, autumn afternoon"',
+  'promptVar.season': 'Estación de la escena',
+  'promptVar.timeOfDay': 'Momento del día (dawn, morning, midday, afternoon, dusk, night)',
+  'promptVar.temperature': 'Temperatura en °C',
+  'promptVar.daylight': 'Horas de luz diurna',
+  'promptVar.clothing': 'La ropa que piden las condiciones (sin época)',
+  'promptVar.style': 'Nombre del estilo visual',
+  'promptVar.styleFragment': 'Fragmento de prompt del estilo elegido',
+  'promptVar.negativeConstraints': 'Lo que el estilo debe evitar (puede estar vacío)',
+  'promptVar.variation': 'Variación de toma de esta imagen',
+  'promptVar.customPrompt': 'Instrucciones de escena del usuario (pueden estar vacías)',
+  'promptVar.subjectIntro': 'Cómo insertar a las personas de las fotos de referencia',
+  'promptVar.peopleList': 'Una línea por persona etiquetada',
+  'promptVar.peopleCount': 'Número de personas',
+  'promptVar.hasYear': 'Sección: se indicó un año concreto',
+  'promptVar.isBC': 'Sección: el año es a. C.',
+  'promptVar.isAD': 'Sección: el año es d. C.',
+  'promptVar.isFuture': 'Sección: está elegida la época Futuro',
+  'promptVar.isGroup': 'Sección: más de una persona',
+};
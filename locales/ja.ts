@@ -0,0 +1,423 @@
+import type { Messages } from '../services/i18n';
+
+export const ja: Messages = {
+  'app.gallery': 'ギャラリー ({count})',
+  'app.prompts': 'プロンプト',
+  'app.promptPresetTitle': 'プロンプトプリセット: {name}',
+  'app.trip': '旅程',
+  'app.tripTitle': '複数の場所と時代をめぐる旅を計画する',
+  'app.keyRejected': 'API キーが拒否されました（無効、期限切れ、またはアクセス権なし）。別のキーを選ぶか追加してください。',
+  'app.language': '言語',
+
+  'key.tagline': '{year}から遠い未来まで、時間旅行へ。',
+  'key.pickKey': '使用する Gemini API キーを選んでください。',
+  'key.storedEncrypted': 'API キーはパスフレーズで暗号化して保存されます。',
+  'key.newPassphrase': '新しいパスフレーズ（{min} 文字以上）',
+  'key.repeatPassphrase': 'パスフレーズを再入力',
+  'key.legacyMoved': '以前に保存したキーは暗号化された保管庫に移されます。',
+  'key.createVault': 'キー保管庫を作成',
+  'key.passphrase': 'パスフレーズ',
+  'key.unlock': 'ロック解除',
+  'key.forgot': 'パスフレーズを忘れた場合は保存済みのキーをリセット',
+  'key.resetConfirm': '保存済みのキーをすべて削除しますか？ 再度追加する必要があります。',
+  'key.mismatch': 'パスフレーズが一致しません',
+  'key.wrongPassphrase': 'パスフレーズが違います',
+  'key.genericError': '問題が発生しました',
+  'key.savedKeyName': '保存済みのキー',
+  'key.use': '使用',
+  'key.delete': 'キーを削除',
+  'key.addKey': 'キーを追加',
+  'key.namePlaceholder': '名前（例: 個人用、仕事用）',
+  'key.keyPlaceholder': 'Gemini API キーをここに貼り付け',
+  'key.checking': 'キーを確認中...',
+  'key.save': '確認して保存',
+  'key.unverified': '確認せずに保存しました: {message}',
+  'key.noKey': 'キーをお持ちでない場合は',
+  'key.getKey': 'Google AI Studio で取得',
+
+  'sidebar.startTitle': '旅を始めましょう',
+  'sidebar.startHint': '地図上のどこかをクリックしてください。',
+  'sidebar.manageKeys': 'API キーの管理',
+  'sidebar.title': 'ワールドビュー',
+  'sidebar.analyzing': '位置情報を分析中...',
+  'sidebar.preciseNeeded': '正確な場所が必要です',
+  'sidebar.clickedNear': '{place}の近くをクリックしました。',
+  'sidebar.useExactSpot': 'クリックした地点を使う',
+  'sidebar.location': '場所',
+  'sidebar.modeSingle': 'ひとつの瞬間',
+  'sidebar.modeTimeline': 'タイムライン',
+  'sidebar.timelineRange': 'タイムラインの範囲',
+  'sidebar.from': '開始',
+  'sidebar.to': '終了',
+  'sidebar.every': '間隔',
+  'sidebar.timelineFrames': '{count} フレーム: {from} → {to}',
+  'sidebar.timelineInvalid': '有効な範囲と正の間隔を入力してください。',
+  'sidebar.timelineMax': '（最大 {max}）',
+  'sidebar.timeTravelMode': 'タイムトラベルモード',
+  'sidebar.eraPast': '過去',
+  'sidebar.eraNow': '現在',
+  'sidebar.eraFuture': '未来',
+  'sidebar.targetYear': '目的の年',
+  'sidebar.datePlaceholder': '例: 1889、1920s、mid-16th century、300 BC',
+  'sidebar.dateInvalid': '日付を読み取れません。1889、1920年代、16世紀、紀元前300年のように入力してください。',
+  'sidebar.today': '今日',
+  'sidebar.enterYear': '年を入力',
+  'sidebar.ancientHint': '古代が選択されています。自然のままの風景になります。',
+  'sidebar.yearHint': '年を指定してください。',
+  'sidebar.weatherLight': '天気と光',
+  'sidebar.visualStyle': 'ビジュアルスタイル',
+  'sidebar.shotList': 'ショットリスト',
+  'sidebar.sceneDetails': 'シーンの詳細（任意）',
+  'sidebar.scenePlaceholder': 'シーンを説明...',
+  'sidebar.travelers': '旅行者',
+  'sidebar.yourFace': 'あなたの顔',
+  'sidebar.generating': '生成中...',
+  'sidebar.queueOffline': 'オンラインになったら送信',
+  'sidebar.generateTimeline': '{count} フレームのタイムラインを生成',
+  'sidebar.generateShots_one': '旅行写真を {count} 枚生成',
+  'sidebar.generateShots_other': '旅行写真を {count} 枚生成',
+  'sidebar.offlineNote': 'オフラインです。接続が戻るとリクエストが自動的に送信され、画像はギャラリーに保存されます。',
+  'sidebar.regenerateTimeline': 'タイムラインを再生成',
+  'sidebar.tokens': '{count} トークン',
+  'sidebar.imageCount': '画像 {done}/{total}',
+  'sidebar.copyPrompt': 'このショットに使ったプロンプトをコピー',
+  'sidebar.openLightbox': '全画面で表示して比較',
+  'sidebar.refineShot': '追加の指示でこのショットを調整',
+  'sidebar.stateQueued': '待機中',
+  'sidebar.stateRunning': '処理中...',
+  'sidebar.stateCancelled': 'キャンセル済み',
+  'sidebar.retry': '再試行',
+  'sidebar.notGenerated': '「{label}」は生成されませんでした',
+  'sidebar.editPrompt': 'プロンプトを編集',
+  'sidebar.stop': '停止',
+  'sidebar.regenerate': '再生成',
+  'sidebar.postcard': 'ポストカード / コラージュ',
+
+  'year.bc': '紀元前{year}年',
+  'year.ad': '{year}年',
+
+  'date.approx': '{date}頃',
+  'date.decade': '{decade}年代',
+  'date.decadeBc': '紀元前{decade}年代',
+  'date.century': '{n}世紀',
+  'date.centuryBc': '紀元前{n}世紀',
+  'date.early': '{date}初頭',
+  'date.mid': '{date}半ば',
+  'date.late': '{date}後半',
+  'date.range': '{from}～{to}',
+
+  'plausibility.title': '時代考証',
+  'plausibility.checking': '当時ここに何があったかを確認中...',
+  'plausibility.failed': 'この場所と日付を確認できませんでした: {message}',
+  'plausibility.retry': '再確認',
+  'plausibility.plausible': '妥当',
+  'plausibility.questionable': '疑わしい',
+  'plausibility.implausible': '時代錯誤',
+  'plausibility.settlement': '集落',
+  'plausibility.landscape': '景観',
+  'plausibility.structures': '当時あった建造物',
+  'plausibility.anachronisms': '時代に合わない要素',
+  'plausibility.suggested': '描くとよい要素',
+  'plausibility.inPrompt': 'この内容は画像プロンプトに追加されます。',
+
+  'error.retry': '再試行',
+  'error.retryAnalysis': '分析を再試行',
+  'error.editPrompt': 'プロンプトを編集',
+  'error.rateLimitTitle': 'リクエスト上限に達しました。',
+  'error.retryingIn': '{seconds}秒後に自動で再試行します。',
+  'error.rateLimitHint': 'しばらく待つか、キーの割り当てと請求設定を確認してください。',
+  'error.cancelAutoRetry': '自動再試行をキャンセル',
+  'error.authTitle': 'API キーが拒否されました。',
+  'error.authHint': '無効、期限切れ、または Gemini API で有効になっていない可能性があります。',
+  'error.changeKey': 'API キーを変更',
+  'error.safetyTitle': 'リクエストが安全フィルタでブロックされました。',
+  'error.safetyHint': '理由: {reason}。シーンの詳細から暴力的・性的な内容や実在の著名人に関する内容を除いて、もう一度お試しください。',
+  'error.noImageTitle': 'モデルが画像なしで応答しました。',
+  'error.noImageHint': 'ときどき起こります。たいていは再試行でうまくいきます。',
+  'error.offlineTitle': 'オフラインのようです。',
+  'error.offlineHint': '接続が戻ったら再試行します。',
+  'error.parseTitle': '応答を読み取れませんでした。',
+  'error.rateLimitedShort': 'リクエスト上限です。少し待ってから再試行してください。',
+  'error.authShort': 'API キーが拒否されました。',
+  'error.safetyShort': '安全フィルタでブロックされました。',
+  'error.noImageShort': '画像が返されませんでした。',
+  'error.offlineShort': 'オフラインです。',
+  'error.parseShort': '応答を読み取れませんでした。',
+  'error.failedShort': '生成に失敗しました',
+
+  'refusal.reason': '理由: {reason}。',
+  'refusal.textInstead': 'モデルが画像の代わりにテキストで応答しました',
+  'refusal.safety': '安全フィルタに検出されました',
+  'refusal.imageSafety': '生成された画像が安全フィルタに検出されました',
+  'refusal.prohibited': 'リクエストが禁止コンテンツに該当しました',
+  'refusal.imageProhibited': '生成された画像に禁止コンテンツが含まれていました',
+  'refusal.blocklist': 'プロンプトにブロック対象の語句が含まれています',
+  'refusal.spii': 'リクエストに機微な個人情報が含まれていました',
+  'refusal.recitation': '出力が保護された著作物に似すぎていました',
+  'refusal.noImage': 'モデルが画像を描かないことを選びました',
+  'refusal.other': '理由不明で拒否されました',
+  'refusal.tipSexual': '時代の服装を具体的に書き(例:「ウールのコートを着た」)、身体や露出に関する言葉は避けてください。',
+  'refusal.tipDangerous': '武器、火災、爆発、負傷は省き、その周囲の情景を描写してください。',
+  'refusal.tipHarassment': '人を侮辱したり嘲笑したりする描写は避けてください。',
+  'refusal.tipHate': '民族・宗教・国籍による集団への言及や、過激主義の象徴は避けてください。',
+  'refusal.tipCivic': '選挙、政治家、選挙運動の資料は避けてください。',
+  'refusal.tipProhibited': '子どもや著名人の参考写真はよく拒否されます。別の写真をお試しください。',
+  'refusal.tipRecitation': '著作権のあるキャラクター、ブランド、有名な作品の名前は出さず、自分の言葉で描写してください。',
+  'refusal.tipSpii': 'シーンの詳細から氏名、住所、ID 番号を削除してください。',
+  'refusal.tipNoImage': '写真を直接頼み、シーンをひとつの明確な瞬間に絞ってください。',
+  'refusal.tipBlocklist': '指摘された語句を使わずにシーンの詳細を書き直してください。',
+  'refusal.tipSimplify': 'シーンの詳細を簡潔にし、この場所と時代の日常のひとときを描写してください。',
+
+  'shots.styleDefault': 'スタイルの既定 ({ratio})',
+  'shots.remove': 'ショットを削除',
+  'shots.customPlaceholder': 'カスタムショット(例: 川岸からのローアングル)',
+  'shots.add': '追加',
+  'shots.planned': '{count}/{max} ショットを計画中',
+
+  'styles.myStyle': 'マイスタイル',
+  'styles.new': '新規',
+  'styles.duplicate': '複製',
+  'styles.edit': '編集',
+  'styles.done': '完了',
+  'styles.delete': '削除',
+  'styles.uploadThumbnail': 'サムネイルをアップロード',
+  'styles.thumbnailFailed': 'その画像を読み込めませんでした。',
+  'styles.namePlaceholder': 'スタイル名',
+  'styles.defaultRatio': '既定のアスペクト比',
+  'styles.anyRatio': '指定なし',
+  'styles.fragmentPlaceholder': '画像の見た目(例:「ポラロイドのスナップ、色あせた色調、白い枠の反射」)',
+  'styles.avoidPlaceholder': '避けるもの(任意、例:「現代の車、レンズフレア」)',
+  'styles.noFragment': 'プロンプトの断片はまだありません。',
+
+  'conditions.season': '季節',
+  'conditions.seasonAuto': '季節: 自動',
+  'conditions.timeOfDay': '時間帯',
+  'conditions.timeAuto': '時間帯: 自動',
+  'conditions.weather': '天気',
+  'conditions.weatherAuto': '天気: 自動',
+  'conditions.precipitation': '月 {mm}mm',
+  'conditions.seasonTime': '{season}の{timeOfDay}',
+  'conditions.daylight': '日照 {hours}時間',
+  'conditions.source': '出典: {source}',
+  'season.winter': '冬',
+  'season.spring': '春',
+  'season.summer': '夏',
+  'season.autumn': '秋',
+  'timeOfDay.dawn': '夜明け',
+  'timeOfDay.morning': '朝',
+  'timeOfDay.midday': '正午',
+  'timeOfDay.afternoon': '午後',
+  'timeOfDay.dusk': '夕暮れ',
+  'timeOfDay.night': '夜',
+  'weather.clear': '快晴',
+  'weather.partlyCloudy': '晴れ時々曇り',
+  'weather.overcast': '曇り',
+  'weather.fog': '霧',
+  'weather.rain': '雨',
+  'weather.storm': '雷雨',
+  'weather.snow': '雪',
+
+  'timeline.title': 'タイムライン',
+  'timeline.frames': '{done}/{total} フレーム',
+  'timeline.frameAlt': 'タイムライン {year}',
+  'timeline.rendering': '{year}を生成中...',
+  'timeline.stop': 'タイムラインを停止',
+
+  'travelers.placeholder': '旅行者 {number}',
+  'travelers.remove': '旅行者を削除',
+  'travelers.removePhoto': '写真を削除',
+  'travelers.selfie': '自撮り',
+  'travelers.more': '追加',
+  'travelers.addPerson': 'ショットに人物を追加',
+  'travelers.processFailed': '{name} を処理できませんでした',
+  'travelers.processedAlt': '処理済みのアップロード',
+  'travelers.sentAsShown': '表示どおりに送信されます。',
+  'travelers.orientation': 'EXIF の向き {value} を適用',
+  'travelers.faceCropped': '検出した顔を中心にトリミング',
+  'travelers.metadataRemoved': 'メタデータを削除',
+  'travelers.maxSize': '最大',
+  'travelers.cropToFace': '顔に合わせてトリミング',
+  'travelers.noMetadata': 'メタデータなし',
+  'travelers.noMetadataTitle': '写真は再エンコードされ、GPS 位置情報を含む EXIF データが削除されます',
+  'travelers.hint': '1人あたり最大{max}枚の写真で似せやすくなります。設定はこれから追加する写真に適用されます。',
+
+  'gallery.title': '旅のギャラリー',
+  'gallery.search': '場所・年・ショットを検索...',
+  'gallery.allEras': 'すべての時代',
+  'gallery.allStyles': 'すべてのスタイル',
+  'gallery.empty': '生成したショットがここに表示されます。',
+  'gallery.noMatch': '条件に合うショットはありません。',
+  'gallery.edit': '編集: {instruction}',
+  'gallery.delete': 'ショットを削除',
+
+  'lightbox.single': '単体',
+  'lightbox.split': '当時と今',
+  'lightbox.side': '並べて表示',
+  'lightbox.today': '現在',
+  'lightbox.position': '{index} / {total}',
+  'lightbox.help': '←/→ 移動 · +/− ズーム · 0 リセット · 1–3 モード',
+  'lightbox.noPartner': 'この場所で比較できる別のショットはまだありません。別の年(または別のスタイル)で生成すると、ここに表示されます。',
+  'lightbox.compareWith': '比較対象',
+  'lightbox.version': '{label} · v{number}',
+  'lightbox.zoomIn': '拡大',
+  'lightbox.zoomOut': '縮小',
+  'lightbox.reset': '表示をリセット',
+  'lightbox.close': '閉じる',
+  'lightbox.previous': '前へ',
+  'lightbox.next': '次へ',
+
+  'clothing.separator': '、',
+  'clothing.heavyInsulated': '厚手の防寒コート、毛皮の帽子、手袋とマフラー',
+  'clothing.winterCoat': '暖かい冬のコート、帽子と手袋',
+  'clothing.warmCoat': '暖かいコートか厚手のウールの重ね着',
+  'clothing.lightJacket': '薄手の上着か長袖',
+  'clothing.lightLayers': '軽い重ね着',
+  'clothing.breathable': 'ゆったりとした通気性のよい軽い服',
+  'clothing.waterproof': '防水の上着かマント',
+  'clothing.boots': '防寒ブーツ',
+  'clothing.extraLayer': '冷え込みに備えてもう一枚',
+  'clothing.sunHat': '日よけの帽子',
+
+  'search.coordinates': '座標',
+
+  'search.placeholder': '場所を検索、または「緯度, 経度」を貼り付け',
+  'search.failed': '検索に失敗しました',
+  'search.noResults': '一致する場所がありません',
+
+  'map.title': '{year}の地図',
+  'map.basemap': 'ベースマップ: {name}',
+  'map.basemapModern': '現代の街路',
+  'map.basemapHistorical': '歴史地図(現代の地名なし)',
+  'map.basemapAncient': '自然の地形',
+  'map.basemapFuture': '未来(夜間モード)',
+  'map.showOverlays': '歴史的な国境と都市を表示',
+  'map.noOverlays': 'この年の歴史オーバーレイはありません。',
+
+  'offline.banner': 'オフライン: キャッシュ済みの場所と地図タイルは引き続き使えます',
+  'offline.stateWaiting': '接続待ち',
+  'offline.stateSending': '送信中',
+  'offline.stateDone': '完了',
+  'offline.stateFailed': '失敗',
+  'offline.failedCount': '{count}件失敗',
+  'offline.open': '開く',
+  'offline.cancel': 'キャンセル',
+  'offline.dismiss': '閉じる',
+
+  'editor.title': '「{label}」を編集',
+  'editor.originalShot': '元のショット',
+  'editor.instruction': '指示',
+  'editor.placeholder': '例: 夕暮れにして',
+  'editor.suggestSunset': '夕暮れにして',
+  'editor.suggestRain': '小雨を降らせて',
+  'editor.suggestCars': '車を消して',
+  'editor.suggestHat': '帽子を三角帽に変えて',
+  'editor.apply': 'v{number}に適用',
+  'editor.history': '履歴',
+  'editor.stepBack': '一つ戻る',
+  'editor.original': 'オリジナル',
+  'editor.branchedFrom': 'v{number}から',
+
+  'export.title': 'ポストカードを書き出す',
+  'export.previewAlt': '書き出しのプレビュー',
+  'export.layout': 'レイアウト',
+  'export.postcard': 'ポストカード',
+  'export.collage': 'コラージュ',
+  'export.size': '{widthIn}×{heightIn}インチ · {width}×{height}px({dpi} dpi)',
+  'export.image': '画像',
+  'export.images': '画像(最大{max}枚)',
+  'export.caption': 'キャプション',
+  'export.format': '形式',
+  'export.embedded': '場所、時代、プロンプトがファイルに埋め込まれます。',
+  'export.previewFailed': 'プレビューを作成できませんでした',
+  'export.failed': '書き出しに失敗しました',
+  'export.download': '{format}で書き出す',
+
+  'trip.title': '旅行プランナー',
+  'trip.empty': '地図をクリックするか場所を検索して、最初の立ち寄り先を追加してください。',
+  'trip.showOnMap': '地図で表示',
+  'trip.removeStop': '立ち寄り先を削除',
+  'trip.dateTitle': '年または日付、例: 1889、1920年代、16世紀、紀元前300年',
+  'trip.stateQueued': '待機中',
+  'trip.stateAnalyzing': '分析中',
+  'trip.stateGenerating': '生成中',
+  'trip.stateDone': '完了',
+  'trip.stateFailed': '失敗',
+  'trip.stateCancelled': 'キャンセル済み',
+  'trip.dragHint': 'ドラッグして順番を入れ替えられます。',
+  'trip.maxStops': '立ち寄り先は最大{max}件です。',
+  'trip.addMore': '地図をクリックして追加できます。',
+  'trip.scenePlaceholder': 'すべての立ち寄り先に適用...',
+  'trip.stop': '旅行を中止({done}/{total})',
+  'trip.travel_one': '{count}か所へ旅する',
+  'trip.travel_other': '{count}か所へ旅する',
+  'trip.offlineNote': '旅行には接続が必要です。各立ち寄り先は生成の前に分析されます。',
+  'trip.openAlbum': 'アルバムを開く({done}/{total})',
+
+  'album.stopFailed': 'この立ち寄り先は失敗しました。',
+  'album.cancelled': 'キャンセル済み',
+  'album.travelling': 'まだ移動中...',
+  'album.page': '立ち寄り先 {number}/{total}',
+
+  'prompts.title': 'プロンプトプリセット',
+  'prompts.builtIn': '{name}(組み込み)',
+  'prompts.revisionOption': '{name} · r{revision}',
+  'prompts.export': 'JSONで書き出す',
+  'prompts.import': 'JSONを読み込む',
+  'prompts.delete': 'プリセットを削除',
+  'prompts.namePlaceholder': 'プリセット名',
+  'prompts.photoTab': '写真プロンプト',
+  'prompts.analysisTab': '場所の分析',
+  'prompts.syntax': '変数 · {variable}、セクション · {section}',
+  'prompts.showPreview': '現在のシーンでプレビュー',
+  'prompts.hidePreview': 'プレビューを隠す',
+  'prompts.builtInNote': '保存すると編集可能なコピーが作成されます。',
+  'prompts.revision': 'リビジョン {revision}',
+  'prompts.discard': '破棄',
+  'prompts.save': '保存',
+  'prompts.saved': '保存済み',
+
+  'preset.issueAnalysis': '分析: {issue}',
+  'preset.issuePhoto': '写真: {issue}',
+  'preset.unexpectedClose': '予期しない{tag}です。',
+  'preset.unexpectedCloseExpected': '予期しない{tag}です。{expected}が必要です。',
+  'preset.unclosed': 'セクション{tag}が閉じられていません。',
+  'preset.unknownVariable': '不明な変数「{name}」です。',
+  'preset.invalidJson': 'ファイルが正しいJSONではありません。',
+  'preset.wrongFormat': 'ChronoTravelのプロンプトプリセットではありません。',
+  'preset.unsupportedVersion': 'サポートされていないプリセットバージョン {version} です(必要: {expected})。',
+  'preset.notObject': 'プリセットがオブジェクトではありません。',
+  'preset.needsName': 'プリセットには名前が必要です。',
+  'preset.needsTemplates': 'プリセットには文字列の「analysisTemplate」と「photoTemplate」が必要です。',
+
+  'promptVar.clickedLat': 'クリックした地点の緯度',
+  'promptVar.clickedLng': 'クリックした地点の経度',
+  'promptVar.language': 'UIの言語に基づくテキスト項目の言語(例: "Korean")',
+  'promptVar.location': '場所の分析で得た地名',
+  'promptVar.lat': '緯度',
+  'promptVar.lng': '経度',
+  'promptVar.era': '選択した時代の名前',
+  'promptVar.year': '入力したままの年、例: "1990"、"1920s"、"300 BC"',
+  'promptVar.yearAbs': '符号なしの年(年代・世紀・範囲では中間の年)',
+  'promptVar.date': '精度を保った日付の説明、例: "the mid-16th century (1534 CE–1567 CE)"',
+  'promptVar.historicalNotes': '歴史チェックの結果: 集落、景観、建造物、避けるべき時代錯誤、含めるべき要素',
+  'promptVar.timeDescription': '時代と日付、例: "Present Day (Specifically the year 1990 CE)"',
+  'promptVar.weather': '天気の概要、例: "rain, 12°C, autumn afternoon"',
+  'promptVar.season': 'シーンの季節',
+  'promptVar.timeOfDay': '時間帯(dawn、morning、midday、afternoon、dusk、night)',
+  'promptVar.temperature': '気温(°C)',
+  'promptVar.daylight': '日照時間',
+  'promptVar.clothing': '条件に合った服装(時代を問わない)',
+  'promptVar.style': 'ビジュアルスタイルの名前',
+  'promptVar.styleFragment': '選択したスタイルのプロンプト断片',
+  'promptVar.negativeConstraints': 'スタイルが避けるべきもの(空の場合あり)',
+  'promptVar.variation': 'この画像のショットのバリエーション',
+  'promptVar.customPrompt': 'ユーザーのシーン指示(空の場合あり)',
+  'promptVar.subjectIntro': '参考写真の人物を入れる方法',
+  'promptVar.peopleList': 'ラベル付きの人物ごとに1行',
+  'promptVar.peopleCount': '人数',
+  'promptVar.hasYear': 'セクション: 特定の年が指定されている',
+  'promptVar.isBC': 'セクション: 紀元前の年',
+  'promptVar.isAD': 'セクション: 紀元後の年',
+  'promptVar.isFuture': 'セクション: 未来の時代が選択されている',
+  'promptVar.isGroup': 'セクション: 2人以上',
+};
@@ -0,0 +1,423 @@
+import type { Messages } from '../services/i18n';
+
+export const ko: Messages = {
+  'app.gallery': '갤러리 ({count})',
+  'app.prompts': '프롬프트',
+  'app.promptPresetTitle': '프롬프트 프리셋: {name}',
+  'app.trip': '여행',
+  'app.tripTitle': '여러 장소와 시대를 잇는 여행 계획하기',
+  'app.keyRejected': 'API 키가 거부되었습니다(잘못되었거나 만료되었거나 권한이 없음). 다른 키를 선택하거나 추가하세요.',
+  'app.language': '언어',
+
+  'key.tagline': '{year} 또는 먼 미래로 시간 여행을 떠나세요.',
+  'key.pickKey': '사용할 Gemini API 키를 선택하세요.',
+  'key.storedEncrypted': 'API 키는 암호문으로 암호화되어 저장됩니다.',
+  'key.newPassphrase': '새 암호문 (최소 {min}자)',
+  'key.repeatPassphrase': '암호문 다시 입력',
+  'key.legacyMoved': '이전에 저장한 키가 암호화된 보관함으로 옮겨집니다.',
+  'key.createVault': '키 보관함 만들기',
+  'key.passphrase': '암호문',
+  'key.unlock': '잠금 해제',
+  'key.forgot': '암호문을 잊으셨나요? 저장된 키 초기화',
+  'key.resetConfirm': '저장된 키를 모두 삭제할까요? 키를 다시 추가해야 합니다.',
+  'key.mismatch': '암호문이 일치하지 않습니다',
+  'key.wrongPassphrase': '암호문이 틀렸습니다',
+  'key.genericError': '문제가 발생했습니다',
+  'key.savedKeyName': '저장된 키',
+  'key.use': '사용',
+  'key.delete': '키 삭제',
+  'key.addKey': '키 추가',
+  'key.namePlaceholder': '이름 (예: 개인, 업무)',
+  'key.keyPlaceholder': 'Gemini API 키를 여기에 붙여넣으세요',
+  'key.checking': '키 확인 중...',
+  'key.save': '확인 후 키 저장',
+  'key.unverified': '확인하지 않고 저장됨: {message}',
+  'key.noKey': '키가 없으신가요?',
+  'key.getKey': 'Google AI Studio에서 받기',
+
+  'sidebar.startTitle': '여행을 시작하세요',
+  'sidebar.startHint': '지도의 아무 곳이나 클릭하세요.',
+  'sidebar.manageKeys': 'API 키 관리',
+  'sidebar.title': '월드 뷰',
+  'sidebar.analyzing': '위치 정보 분석 중...',
+  'sidebar.preciseNeeded': '정확한 위치가 필요합니다',
+  'sidebar.clickedNear': '{place} 근처를 클릭했습니다.',
+  'sidebar.useExactSpot': '클릭한 지점 그대로 사용',
+  'sidebar.location': '위치',
+  'sidebar.modeSingle': '한순간',
+  'sidebar.modeTimeline': '타임라인',
+  'sidebar.timelineRange': '타임라인 범위',
+  'sidebar.from': '시작',
+  'sidebar.to': '끝',
+  'sidebar.every': '간격',
+  'sidebar.timelineFrames': '{count}개 프레임: {from} → {to}',
+  'sidebar.timelineInvalid': '올바른 범위와 양수 간격을 입력하세요.',
+  'sidebar.timelineMax': ' (최대 {max}개)',
+  'sidebar.timeTravelMode': '시간 여행 모드',
+  'sidebar.eraPast': '과거',
+  'sidebar.eraNow': '현재',
+  'sidebar.eraFuture': '미래',
+  'sidebar.targetYear': '목표 연도',
+  'sidebar.datePlaceholder': '예: 1889, 1920s, mid-16th century, 300 BC',
+  'sidebar.dateInvalid': '날짜를 읽을 수 없습니다. 1889, 1920년대, 16세기, 기원전 300년처럼 입력해 보세요.',
+  'sidebar.today': '오늘',
+  'sidebar.enterYear': '연도 입력',
+  'sidebar.ancientHint': '고대가 선택되었습니다. 자연 그대로의 풍경이 나옵니다.',
+  'sidebar.yearHint': '연도를 지정하세요.',
+  'sidebar.weatherLight': '날씨와 빛',
+  'sidebar.visualStyle': '비주얼 스타일',
+  'sidebar.shotList': '촬영 목록',
+  'sidebar.sceneDetails': '장면 설명 (선택)',
+  'sidebar.scenePlaceholder': '장면을 설명하세요...',
+  'sidebar.travelers': '여행자',
+  'sidebar.yourFace': '내 얼굴',
+  'sidebar.generating': '생성 중...',
+  'sidebar.queueOffline': '온라인이 되면 보내기',
+  'sidebar.generateTimeline': '{count}프레임 타임라인 생성',
+  'sidebar.generateShots_one': '여행 사진 {count}장 생성',
+  'sidebar.generateShots_other': '여행 사진 {count}장 생성',
+  'sidebar.offlineNote': '오프라인 상태입니다. 연결이 돌아오면 요청이 자동으로 전송되고 이미지는 갤러리에 저장됩니다.',
+  'sidebar.regenerateTimeline': '타임라인 다시 생성',
+  'sidebar.tokens': '토큰 {count}개',
+  'sidebar.imageCount': '이미지 {done}/{total}',
+  'sidebar.copyPrompt': '이 사진에 사용된 프롬프트 복사',
+  'sidebar.openLightbox': '전체 화면으로 보기 및 비교',
+  'sidebar.refineShot': '추가 지시로 이 사진 다듬기',
+  'sidebar.stateQueued': '대기 중',
+  'sidebar.stateRunning': '처리 중...',
+  'sidebar.stateCancelled': '취소됨',
+  'sidebar.retry': '다시 시도',
+  'sidebar.notGenerated': '“{label}”이(가) 생성되지 않았습니다',
+  'sidebar.editPrompt': '프롬프트 수정',
+  'sidebar.stop': '중지',
+  'sidebar.regenerate': '다시 생성',
+  'sidebar.postcard': '엽서 / 콜라주',
+
+  'year.bc': '기원전 {year}년',
+  'year.ad': '{year}년',
+
+  'date.approx': '{date}경',
+  'date.decade': '{decade}년대',
+  'date.decadeBc': '기원전 {decade}년대',
+  'date.century': '{n}세기',
+  'date.centuryBc': '기원전 {n}세기',
+  'date.early': '{date} 초',
+  'date.mid': '{date} 중반',
+  'date.late': '{date} 후반',
+  'date.range': '{from}~{to}',
+
+  'plausibility.title': '역사 고증',
+  'plausibility.checking': '그 시대에 이곳에 무엇이 있었는지 확인하는 중...',
+  'plausibility.failed': '이 장소와 날짜를 확인할 수 없습니다: {message}',
+  'plausibility.retry': '다시 확인',
+  'plausibility.plausible': '타당함',
+  'plausibility.questionable': '의심스러움',
+  'plausibility.implausible': '시대착오',
+  'plausibility.settlement': '정착지',
+  'plausibility.landscape': '풍경',
+  'plausibility.structures': '당시 있던 건축물',
+  'plausibility.anachronisms': '시대에 맞지 않는 요소',
+  'plausibility.suggested': '보여 주면 좋은 요소',
+  'plausibility.inPrompt': '이 내용은 이미지 프롬프트에 추가됩니다.',
+
+  'error.retry': '다시 시도',
+  'error.retryAnalysis': '분석 다시 시도',
+  'error.editPrompt': '프롬프트 수정',
+  'error.rateLimitTitle': '요청 한도에 도달했습니다.',
+  'error.retryingIn': '{seconds}초 후 자동으로 다시 시도합니다.',
+  'error.rateLimitHint': '잠시 기다리거나 키의 할당량과 결제 설정을 확인하세요.',
+  'error.cancelAutoRetry': '자동 재시도 취소',
+  'error.authTitle': 'API 키가 거부되었습니다.',
+  'error.authHint': '키가 잘못되었거나 만료되었거나 Gemini API에 사용 설정되지 않았을 수 있습니다.',
+  'error.changeKey': 'API 키 변경',
+  'error.safetyTitle': '요청이 안전 필터에 의해 차단되었습니다.',
+  'error.safetyHint': '사유: {reason}. 장면 설명에서 폭력적이거나 선정적인 내용, 실존 유명인에 관한 내용을 빼고 다시 시도하세요.',
+  'error.noImageTitle': '모델이 이미지 없이 응답했습니다.',
+  'error.noImageHint': '가끔 일어나는 일이며, 보통 다시 시도하면 됩니다.',
+  'error.offlineTitle': '오프라인 상태인 것 같습니다.',
+  'error.offlineHint': '연결이 돌아오면 다시 시도합니다.',
+  'error.parseTitle': '응답을 읽을 수 없습니다.',
+  'error.rateLimitedShort': '요청 한도 초과. 잠시 후 다시 시도하세요.',
+  'error.authShort': 'API 키가 거부되었습니다.',
+  'error.safetyShort': '안전 필터에 의해 차단되었습니다.',
+  'error.noImageShort': '이미지가 반환되지 않았습니다.',
+  'error.offlineShort': '오프라인입니다.',
+  'error.parseShort': '응답을 읽을 수 없습니다.',
+  'error.failedShort': '생성 실패',
+
+  'refusal.reason': '사유: {reason}.',
+  'refusal.textInstead': '모델이 이미지 대신 텍스트로 응답했습니다',
+  'refusal.safety': '안전 필터에 걸렸습니다',
+  'refusal.imageSafety': '생성된 이미지가 안전 필터에 걸렸습니다',
+  'refusal.prohibited': '요청이 금지된 콘텐츠에 해당합니다',
+  'refusal.imageProhibited': '생성된 이미지에 금지된 콘텐츠가 포함되었습니다',
+  'refusal.blocklist': '프롬프트에 차단된 단어가 있습니다',
+  'refusal.spii': '요청에 민감한 개인 정보가 포함되었습니다',
+  'refusal.recitation': '결과물이 보호된 저작물과 너무 비슷했습니다',
+  'refusal.noImage': '모델이 이미지를 그리지 않기로 했습니다',
+  'refusal.other': '알 수 없는 이유로 거부되었습니다',
+  'refusal.tipSexual': '시대 의상을 구체적으로 묘사하고(예: "모직 코트를 입은") 신체나 노출에 관한 표현은 피하세요.',
+  'refusal.tipDangerous': '무기, 화재, 폭발, 부상은 빼고 그 주변 장면을 묘사하세요.',
+  'refusal.tipHarassment': '사람을 모욕하거나 조롱하는 묘사는 피하세요.',
+  'refusal.tipHate': '민족, 종교, 국적으로 사람들을 지칭하거나 극단주의 상징을 언급하지 마세요.',
+  'refusal.tipCivic': '선거, 정치인, 선거 홍보물은 피하세요.',
+  'refusal.tipProhibited': '어린이나 유명인의 참고 사진은 자주 거부됩니다. 다른 사진을 사용해 보세요.',
+  'refusal.tipRecitation': '저작권이 있는 캐릭터, 브랜드, 유명 작품의 이름을 쓰지 말고 직접 묘사하세요.',
+  'refusal.tipSpii': '장면 설명에서 이름, 주소, 신분증 번호를 지우세요.',
+  'refusal.tipNoImage': '사진을 직접 요청하고 장면을 하나의 분명한 순간으로 좁히세요.',
+  'refusal.tipBlocklist': '문제가 된 단어 없이 장면 설명을 다시 써 보세요.',
+  'refusal.tipSimplify': '장면 설명을 단순하게 하고 이 장소와 시대의 일상적인 순간을 묘사하세요.',
+
+  'shots.styleDefault': '스타일 기본값 ({ratio})',
+  'shots.remove': '사진 삭제',
+  'shots.customPlaceholder': '직접 입력, 예: 강둑에서 올려다본 구도',
+  'shots.add': '추가',
+  'shots.planned': '{count}/{max}장 계획됨',
+
+  'styles.myStyle': '내 스타일',
+  'styles.new': '새로 만들기',
+  'styles.duplicate': '복제',
+  'styles.edit': '편집',
+  'styles.done': '완료',
+  'styles.delete': '삭제',
+  'styles.uploadThumbnail': '썸네일 업로드',
+  'styles.thumbnailFailed': '그 이미지를 읽을 수 없습니다.',
+  'styles.namePlaceholder': '스타일 이름',
+  'styles.defaultRatio': '기본 화면비',
+  'styles.anyRatio': '제한 없음',
+  'styles.fragmentPlaceholder': "이미지의 느낌, 예: '폴라로이드 스냅사진, 바랜 색감, 흰 테두리 반사'",
+  'styles.avoidPlaceholder': "피할 요소 (선택), 예: '현대 자동차, 렌즈 플레어'",
+  'styles.noFragment': '아직 프롬프트 문구가 없습니다.',
+
+  'conditions.season': '계절',
+  'conditions.seasonAuto': '계절: 자동',
+  'conditions.timeOfDay': '시간대',
+  'conditions.timeAuto': '시간대: 자동',
+  'conditions.weather': '날씨',
+  'conditions.weatherAuto': '날씨: 자동',
+  'conditions.precipitation': '월 {mm}mm',
+  'conditions.seasonTime': '{season} {timeOfDay}',
+  'conditions.daylight': '일조 {hours}시간',
+  'conditions.source': '출처: {source}',
+  'season.winter': '겨울',
+  'season.spring': '봄',
+  'season.summer': '여름',
+  'season.autumn': '가을',
+  'timeOfDay.dawn': '새벽',
+  'timeOfDay.morning': '아침',
+  'timeOfDay.midday': '한낮',
+  'timeOfDay.afternoon': '오후',
+  'timeOfDay.dusk': '해질녘',
+  'timeOfDay.night': '밤',
+  'weather.clear': '맑음',
+  'weather.partlyCloudy': '구름 조금',
+  'weather.overcast': '흐림',
+  'weather.fog': '안개',
+  'weather.rain': '비',
+  'weather.storm': '뇌우',
+  'weather.snow': '눈',
+
+  'timeline.title': '타임라인',
+  'timeline.frames': '{done}/{total} 프레임',
+  'timeline.frameAlt': '타임라인 {year}',
+  'timeline.rendering': '{year} 렌더링 중...',
+  'timeline.stop': '타임라인 중지',
+
+  'travelers.placeholder': '여행자 {number}',
+  'travelers.remove': '여행자 삭제',
+  'travelers.removePhoto': '사진 삭제',
+  'travelers.selfie': '셀카',
+  'travelers.more': '추가',
+  'travelers.addPerson': '사진에 사람 추가',
+  'travelers.processFailed': '{name}을(를) 처리할 수 없습니다',
+  'travelers.processedAlt': '처리된 업로드',
+  'travelers.sentAsShown': '보이는 그대로 전송됩니다.',
+  'travelers.orientation': 'EXIF 방향 {value} 적용됨',
+  'travelers.faceCropped': '감지된 얼굴 중심으로 잘라냄',
+  'travelers.metadataRemoved': '메타데이터 제거됨',
+  'travelers.maxSize': '최대',
+  'travelers.cropToFace': '얼굴에 맞춰 자르기',
+  'travelers.noMetadata': '메타데이터 없음',
+  'travelers.noMetadataTitle': '사진을 다시 인코딩하여 GPS 위치를 포함한 EXIF 데이터를 제거합니다',
+  'travelers.hint': '한 사람당 최대 {max}장의 사진을 넣으면 더 닮게 나옵니다. 설정은 새로 추가하는 사진에 적용됩니다.',
+
+  'gallery.title': '여행 갤러리',
+  'gallery.search': '장소, 연도, 사진 검색...',
+  'gallery.allEras': '모든 시대',
+  'gallery.allStyles': '모든 스타일',
+  'gallery.empty': '생성한 사진이 여기에 표시됩니다.',
+  'gallery.noMatch': '조건에 맞는 사진이 없습니다.',
+  'gallery.edit': '편집: {instruction}',
+  'gallery.delete': '사진 삭제',
+
+  'lightbox.single': '한 장',
+  'lightbox.split': '그때와 지금',
+  'lightbox.side': '나란히',
+  'lightbox.today': '오늘',
+  'lightbox.position': '{index} / {total}',
+  'lightbox.help': '←/→ 넘기기 · +/− 확대/축소 · 0 초기화 · 1–3 모드',
+  'lightbox.noPartner': '아직 비교할 이곳의 다른 사진이 없습니다. 다른 연도(또는 다른 스타일)로 생성하면 여기에 표시됩니다.',
+  'lightbox.compareWith': '비교 대상',
+  'lightbox.version': '{label} · v{number}',
+  'lightbox.zoomIn': '확대',
+  'lightbox.zoomOut': '축소',
+  'lightbox.reset': '보기 초기화',
+  'lightbox.close': '닫기',
+  'lightbox.previous': '이전',
+  'lightbox.next': '다음',
+
+  'clothing.separator': ', ',
+  'clothing.heavyInsulated': '두꺼운 방한 코트, 털모자, 장갑과 목도리',
+  'clothing.winterCoat': '따뜻한 겨울 코트, 모자와 장갑',
+  'clothing.warmCoat': '따뜻한 코트나 두꺼운 모직 옷',
+  'clothing.lightJacket': '가벼운 재킷이나 긴소매',
+  'clothing.lightLayers': '가벼운 겹옷',
+  'clothing.breathable': '헐렁하고 통기성 좋은 가벼운 옷',
+  'clothing.waterproof': '방수 겉옷이나 망토',
+  'clothing.boots': '방한 부츠',
+  'clothing.extraLayer': '쌀쌀함을 막을 겉옷 한 벌',
+  'clothing.sunHat': '햇볕을 가릴 모자',
+
+  'search.coordinates': '좌표',
+
+  'search.placeholder': '장소 검색 또는 “위도, 경도” 붙여넣기',
+  'search.failed': '검색에 실패했습니다',
+  'search.noResults': '일치하는 장소가 없습니다',
+
+  'map.title': '{year} 지도',
+  'map.basemap': '배경 지도: {name}',
+  'map.basemapModern': '현대 도로',
+  'map.basemapHistorical': '역사 지도 (현대 지명 없음)',
+  'map.basemapAncient': '자연 지형',
+  'map.basemapFuture': '미래 (야간 모드)',
+  'map.showOverlays': '역사적 국경과 도시 표시',
+  'map.noOverlays': '이 연도의 역사 오버레이가 없습니다.',
+
+  'offline.banner': '오프라인: 캐시된 장소와 지도 타일은 계속 사용할 수 있습니다',
+  'offline.stateWaiting': '연결 대기 중',
+  'offline.stateSending': '전송 중',
+  'offline.stateDone': '완료',
+  'offline.stateFailed': '실패',
+  'offline.failedCount': '{count}개 실패',
+  'offline.open': '열기',
+  'offline.cancel': '취소',
+  'offline.dismiss': '닫기',
+
+  'editor.title': '“{label}” 편집',
+  'editor.originalShot': '원본 사진',
+  'editor.instruction': '지시',
+  'editor.placeholder': '예: 해 질 녘으로 바꿔 줘',
+  'editor.suggestSunset': '해 질 녘으로 바꿔 줘',
+  'editor.suggestRain': '가랑비를 추가해 줘',
+  'editor.suggestCars': '자동차를 지워 줘',
+  'editor.suggestHat': '내 모자를 삼각모로 바꿔 줘',
+  'editor.apply': 'v{number}에 적용',
+  'editor.history': '기록',
+  'editor.stepBack': '한 단계 뒤로',
+  'editor.original': '원본',
+  'editor.branchedFrom': 'v{number}에서',
+
+  'export.title': '엽서 내보내기',
+  'export.previewAlt': '내보내기 미리보기',
+  'export.layout': '레이아웃',
+  'export.postcard': '엽서',
+  'export.collage': '콜라주',
+  'export.size': '{widthIn}×{heightIn}인치 · {width}×{height}px, {dpi} dpi',
+  'export.image': '이미지',
+  'export.images': '이미지 (최대 {max}장)',
+  'export.caption': '캡션',
+  'export.format': '형식',
+  'export.embedded': '장소, 시대, 프롬프트가 파일에 포함됩니다.',
+  'export.previewFailed': '미리보기를 만들지 못했습니다',
+  'export.failed': '내보내기에 실패했습니다',
+  'export.download': '{format}(으)로 내보내기',
+
+  'trip.title': '여행 계획',
+  'trip.empty': '지도를 클릭하거나 장소를 검색해 첫 번째 경유지를 추가하세요.',
+  'trip.showOnMap': '지도에서 보기',
+  'trip.removeStop': '경유지 삭제',
+  'trip.dateTitle': '연도 또는 날짜, 예: 1889, 1920년대, 16세기, 기원전 300년',
+  'trip.stateQueued': '대기 중',
+  'trip.stateAnalyzing': '분석 중',
+  'trip.stateGenerating': '생성 중',
+  'trip.stateDone': '완료',
+  'trip.stateFailed': '실패',
+  'trip.stateCancelled': '취소됨',
+  'trip.dragHint': '경유지를 끌어서 순서를 바꾸세요.',
+  'trip.maxStops': '최대 {max}개 경유지에 도달했습니다.',
+  'trip.addMore': '지도를 클릭해 더 추가하세요.',
+  'trip.scenePlaceholder': '모든 경유지에 적용됩니다...',
+  'trip.stop': '여행 중지 ({done}/{total})',
+  'trip.travel_one': '{count}개 경유지로 여행',
+  'trip.travel_other': '{count}개 경유지로 여행',
+  'trip.offlineNote': '여행에는 연결이 필요합니다. 각 경유지는 생성 전에 분석됩니다.',
+  'trip.openAlbum': '앨범 열기 ({done}/{total})',
+
+  'album.stopFailed': '이 경유지는 실패했습니다.',
+  'album.cancelled': '취소됨',
+  'album.travelling': '아직 이동 중...',
+  'album.page': '경유지 {number}/{total}',
+
+  'prompts.title': '프롬프트 프리셋',
+  'prompts.builtIn': '{name} (기본 제공)',
+  'prompts.revisionOption': '{name} · r{revision}',
+  'prompts.export': 'JSON으로 내보내기',
+  'prompts.import': 'JSON 가져오기',
+  'prompts.delete': '프리셋 삭제',
+  'prompts.namePlaceholder': '프리셋 이름',
+  'prompts.photoTab': '사진 프롬프트',
+  'prompts.analysisTab': '장소 분석',
+  'prompts.syntax': '변수 · {variable}, 구역 · {section}',
+  'prompts.showPreview': '현재 장면으로 미리보기',
+  'prompts.hidePreview': '미리보기 숨기기',
+  'prompts.builtInNote': '저장하면 편집 가능한 사본이 만들어집니다.',
+  'prompts.revision': '리비전 {revision}',
+  'prompts.discard': '취소',
+  'prompts.save': '저장',
+  'prompts.saved': '저장됨',
+
+  'preset.issueAnalysis': '분석: {issue}',
+  'preset.issuePhoto': '사진: {issue}',
+  'preset.unexpectedClose': '예상하지 못한 {tag}입니다.',
+  'preset.unexpectedCloseExpected': '예상하지 못한 {tag}입니다. {expected}이(가) 필요합니다.',
+  'preset.unclosed': '{tag} 구역이 닫히지 않았습니다.',
+  'preset.unknownVariable': '알 수 없는 변수 "{name}"입니다.',
+  'preset.invalidJson': '올바른 JSON 파일이 아닙니다.',
+  'preset.wrongFormat': 'ChronoTravel 프롬프트 프리셋이 아닙니다.',
+  'preset.unsupportedVersion': '지원하지 않는 프리셋 버전 {version}입니다 (필요한 버전: {expected}).',
+  'preset.notObject': '프리셋이 객체가 아닙니다.',
+  'preset.needsName': '프리셋에 이름이 필요합니다.',
+  'preset.needsTemplates': '프리셋에 "analysisTemplate"과 "photoTemplate" 문자열이 필요합니다.',
+
+  'promptVar.clickedLat': '클릭한 지점의 위도',
+  'promptVar.clickedLng': '클릭한 지점의 경도',
+  'promptVar.language': 'UI 언어에 따른 텍스트 필드의 언어 (예: "Korean")',
+  'promptVar.location': '장소 분석에서 얻은 장소 이름',
+  'promptVar.lat': '위도',
+  'promptVar.lng': '경도',
+  'promptVar.era': '선택한 시대 이름',
+  'promptVar.year': '입력한 그대로의 연도, 예: "1990", "1920s", "300 BC"',
+  'promptVar.yearAbs': '부호 없는 연도 (연대, 세기, 범위는 가운데 연도)',
+  'promptVar.date': '정밀도를 유지한 날짜 설명, 예: "the mid-16th century (1534 CE–1567 CE)"',
+  'promptVar.historicalNotes': '역사 확인 결과: 정착지, 풍경, 건축물, 피해야 할 시대착오, 담을 만한 요소',
+  'promptVar.timeDescription': '시대와 날짜, 예: "Present Day (Specifically the year 1990 CE)"',
+  'promptVar.weather': '날씨 요약, 예: "rain, 12°C, autumn afternoon"',
+  'promptVar.season': '장면의 계절',
+  'promptVar.timeOfDay': '시간대 (dawn, morning, midday, afternoon, dusk, night)',
+  'promptVar.temperature': '섭씨 기온',
+  'promptVar.daylight': '일조 시간',
+  'promptVar.clothing': '조건에 맞는 옷차림 (시대와 무관)',
+  'promptVar.style': '비주얼 스타일 이름',
+  'promptVar.styleFragment': '선택한 스타일의 프롬프트 조각',
+  'promptVar.negativeConstraints': '스타일이 피해야 할 것 (비어 있을 수 있음)',
+  'promptVar.variation': '이 이미지의 촬영 변형',
+  'promptVar.customPrompt': '사용자의 장면 지시 (비어 있을 수 있음)',
+  'promptVar.subjectIntro': '참고 사진 속 인물을 넣는 방법',
+  'promptVar.peopleList': '이름 붙은 인물마다 한 줄',
+  'promptVar.peopleCount': '인원 수',
+  'promptVar.hasYear': '구역: 특정 연도가 주어짐',
+  'promptVar.isBC': '구역: 기원전 연도',
+  'promptVar.isAD': '구역: 기원후 연도',
+  'promptVar.isFuture': '구역: 미래 시대가 선택됨',
+  'promptVar.isGroup': '구역: 두 명 이상',
+};
@@ -0,0 +1,106 @@
+/**
+ * ChronoTravel service worker.
+ *
+ * - App shell and CDN modules (import map, Tailwind, fonts, Leaflet CSS): stale-while-revalidate,
+ *   so the installed app starts offline and picks up new builds on the next visit.
+ * - Map tiles and Leaflet marker images: cache-first, trimmed to MAX_TILES entries.
+ * - API calls (Gemini, geocoding, weather) are never cached here; the app caches
+ *   location analysis itself and queues generations while offline.
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `chronotravel-shell-${VERSION}`;
+const TILE_CACHE = `chronotravel-tiles-${VERSION}`;
+const MAX_TILES = 1500;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon.svg'];
+
+const TILE_HOSTS = [/\.basemaps\.cartocdn\.com$/, /^server\.arcgisonline\.com$/, /\.tile\.openstreetmap\.org$/];
+const ASSET_HOSTS = [/^cdn\.tailwindcss\.com$/, /^fonts\.googleapis\.com$/, /^fonts\.gstatic\.com$/, /^aistudiocdn\.com$/, /^esm\.sh$/];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('chronotravel-') && key !== SHELL_CACHE && key !== TILE_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isTile = (url) => TILE_HOSTS.some(pattern => pattern.test(url.hostname));
+const isMarkerAsset = (url) => url.hostname === 'unpkg.com' && url.pathname.includes('/leaflet@') && url.pathname.includes('/images/');
+const isShellAsset = (url) =>
+  url.origin === self.location.origin
+  || ASSET_HOSTS.some(pattern => pattern.test(url.hostname))
+  || (url.hostname === 'unpkg.com' && url.pathname.endsWith('.css'));
+
+// Oldest entries go first; Cache.keys() returns them in insertion order
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque (no-cors) tile responses have status 0 but are still usable
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    trimCache(cacheName, MAX_TILES);
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    // Offline with nothing cached: respondWith() needs a Response, so fail like the network would
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isTile(url) || isMarkerAsset(url)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE));
+    return;
+  }
+
+  // Page loads fall back to the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then(cache => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(async () => (await caches.match('/index.html')) || (await caches.match('/')))
+    );
+    return;
+  }
+
+  if (isShellAsset(url)) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  }
+});
@@ -0,0 +1,94 @@
+import { AspectRatio, GeneratedImageResult, LocationAnalysisResult, LocationContext, PlausibilityReport, PlausibilityResult, PromptPreset, ReferenceImage, ReferencePerson, SceneConditions, TimeEra, VisualStyle } from "../types";
+import { createGeminiProvider, validateGeminiKey } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import type { Locale } from "./i18n";
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface TravelPhotoRequest {
+  lat: number;
+  lng: number;
+  locationName: string;
+  era: TimeEra;
+  people: ReferencePerson[];
+  weatherCondition: string;
+  conditions?: SceneConditions; // computed weather/light; takes precedence over weatherCondition
+  year?: string;
+  customPrompt?: string;
+  style?: VisualStyle; // defaults to the catalog's default style
+  variation?: string;
+  aspectRatio?: AspectRatio;
+  promptPreset?: PromptPreset; // defaults to the built-in preset
+  plausibility?: PlausibilityReport; // checked notes on the place at this date, added to the prompt
+  signal?: AbortSignal;
+}
+
+export interface PlausibilityRequest {
+  lat: number;
+  lng: number;
+  context: LocationContext; // from analyzeLocation
+  year: string; // the year field as typed, e.g. "1200", "3000 BC", "1920s"
+  style?: VisualStyle;
+  locale?: Locale; // language of the report's text
+  signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+  image: ReferenceImage; // the version being edited
+  instruction: string; // e.g. "make it sunset"
+  history?: string[]; // instructions that produced `image`, oldest first
+  signal?: AbortSignal;
+}
+
+/**
+ * Backend used for location analysis and image generation.
+ * Gemini is the production adapter; the mock adapter works offline.
+ * Failures are thrown as AppErrors (see ./errors), except cancellation, which stays an AbortError.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  requiresApiKey: boolean;
+  // `locale` is the language the place name and descriptions come back in
+  analyzeLocation: (lat: number, lng: number, promptPreset?: PromptPreset, locale?: Locale) => Promise<LocationAnalysisResult>;
+  // What the place was like at the requested date, and what the shot would get wrong
+  checkPlausibility: (request: PlausibilityRequest) => Promise<PlausibilityResult>;
+  generateTravelPhoto: (request: TravelPhotoRequest) => Promise<GeneratedImageResult>;
+  editImage: (request: ImageEditRequest) => Promise<GeneratedImageResult>;
+}
+
+export type KeyValidationResult =
+  | { kind: 'valid' }
+  | { kind: 'invalid'; message: string }
+  | { kind: 'unverified'; message: string };
+
+/**
+ * Reads the provider from the build config (AI_PROVIDER in .env.local).
+ * Falls back to Gemini for unknown or missing values.
+ */
+export const getConfiguredProviderId = (): AIProviderId => {
+  const configured = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+  return configured === 'mock' ? 'mock' : 'gemini';
+};
+
+export const createAIProvider = (id: AIProviderId, apiKey: string): AIProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(apiKey);
+  }
+};
+
+/**
+ * Lightweight check that a key works before it is stored.
+ */
+export const validateApiKey = (id: AIProviderId, apiKey: string): Promise<KeyValidationResult> => {
+  switch (id) {
+    case 'mock':
+      return Promise.resolve({ kind: 'valid' });
+    case 'gemini':
+    default:
+      return validateGeminiKey(apiKey);
+  }
+};
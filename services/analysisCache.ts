@@ -0,0 +1,92 @@
+import { LocationAnalysisResult, LocationContext, PromptPreset } from "../types";
+import type { AIProvider } from "./aiProvider";
+import { DEFAULT_PROMPT_PRESET } from "./promptPresets";
+import { DEFAULT_LOCALE, Locale } from "./i18n";
+
+/**
+ * Successful location analyses, kept in localStorage so revisited places
+ * (and places seen before going offline) need no API call.
+ */
+
+const STORAGE_KEY = 'chronotravel_analysis_cache';
+const CACHE_VERSION = 1;
+const MAX_ENTRIES = 300;
+// 3 decimals is ~110 m: clicks on the same landmark share an entry
+const COORD_DECIMALS = 3;
+// The analysis includes the current weather, so entries go stale; older ones are only used offline
+export const ANALYSIS_TTL_MS = 3 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  key: string;
+  context: LocationContext;
+  cachedAt: number;
+}
+
+/**
+ * Rounded coordinates plus the preset revision, since a different analysis prompt
+ * may describe the same place differently, and the reply language.
+ */
+export const analysisCacheKey = (lat: number, lng: number, preset: PromptPreset = DEFAULT_PROMPT_PRESET, locale: Locale = DEFAULT_LOCALE) =>
+  `${lat.toFixed(COORD_DECIMALS)},${lng.toFixed(COORD_DECIMALS)}|${preset.id}@${preset.revision}|${locale}`;
+
+const readEntries = (): CacheEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data = JSON.parse(raw);
+    if (data?.version !== CACHE_VERSION || !Array.isArray(data.entries)) {
+      console.warn("Ignoring analysis cache with unknown version", data?.version);
+      return [];
+    }
+    return data.entries;
+  } catch (e) {
+    console.error("Failed to read analysis cache", e);
+    return [];
+  }
+};
+
+const writeEntries = (entries: CacheEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: CACHE_VERSION, entries }));
+  } catch (e) {
+    console.error("Failed to write analysis cache", e);
+  }
+};
+
+/**
+ * The cached analysis for `key`, if it is younger than `maxAgeMs`.
+ */
+export const getCachedAnalysis = (key: string, maxAgeMs: number = ANALYSIS_TTL_MS): LocationContext | null => {
+  const entry = readEntries().find(entry => entry.key === key);
+  return entry && Date.now() - entry.cachedAt <= maxAgeMs ? entry.context : null;
+};
+
+// Most recent first; the oldest entries fall off past MAX_ENTRIES
+export const putCachedAnalysis = (key: string, context: LocationContext) => {
+  const entries = readEntries().filter(entry => entry.key !== key);
+  writeEntries([{ key, context, cachedAt: Date.now() }, ...entries].slice(0, MAX_ENTRIES));
+};
+
+export const clearAnalysisCache = () => localStorage.removeItem(STORAGE_KEY);
+
+/**
+ * Wraps a provider so analyzeLocation answers from the cache when it can.
+ * Only successful results are stored; failures are always retried live.
+ * Offline, an expired entry still beats no analysis at all.
+ */
+export const withAnalysisCache = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  analyzeLocation: async (lat, lng, promptPreset, locale) => {
+    const key = analysisCacheKey(lat, lng, promptPreset, locale);
+    const cached = getCachedAnalysis(key);
+    if (cached) return { kind: 'success', context: cached, warnings: [] };
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      const stale = getCachedAnalysis(key, Infinity);
+      if (stale) return { kind: 'success', context: stale, warnings: ['Offline: the weather in this cached analysis may be out of date.'] };
+    }
+
+    const result: LocationAnalysisResult = await provider.analyzeLocation(lat, lng, promptPreset, locale);
+    if (result.kind === 'success') putCachedAnalysis(key, result.context);
+    return result;
+  },
+});
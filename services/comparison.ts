@@ -0,0 +1,37 @@
+import { Coordinates, LightboxImage, SavedShot } from "../types";
+import { distanceKm } from "./geo";
+import { yearFromText } from "./historicalDate";
+
+// Gallery shots within this distance count as the same location
+export const COMPARE_RADIUS_KM = 1;
+
+/**
+ * Gallery shots of the same location, newest first. Edits are left out:
+ * they show the same moment as the shot they were made from.
+ */
+export const shotsNearby = (shots: SavedShot[], coords: Coordinates, radiusKm: number = COMPARE_RADIUS_KM): SavedShot[] =>
+  shots
+    .filter(shot => !shot.parentId && distanceKm(coords.lat, coords.lng, shot.coords.lat, shot.coords.lng) <= radiusKm)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+export const toLightboxImage = (shot: SavedShot): LightboxImage => ({
+  id: shot.id,
+  imageUrl: shot.imageUrl,
+  label: shot.variation,
+  year: shot.year,
+});
+
+// An empty year is today
+const yearOf = (image: LightboxImage) => yearFromText(image.year || '') ?? new Date().getFullYear();
+
+/**
+ * The default "then vs now" partner for `image`: the candidate furthest away in time,
+ * so a 1889 shot is paired with today's rather than with another 1889 variation.
+ * Falls back to any other image, or null when there is none.
+ */
+export const pickComparison = (image: LightboxImage, candidates: LightboxImage[]): LightboxImage | null => {
+  const others = candidates.filter(c => c.imageUrl !== image.imageUrl);
+  if (others.length === 0) return null;
+  const year = yearOf(image);
+  return others.reduce((best, c) => Math.abs(yearOf(c) - year) > Math.abs(yearOf(best) - year) ? c : best);
+};
@@ -0,0 +1,182 @@
+/**
+ * Typed failures shared by the service layer and the UI.
+ *
+ * Providers translate SDK and network errors into these classes once, so callers
+ * branch on `kind` (or `instanceof`) instead of matching substrings of messages.
+ */
+import { GenerationReport } from "../types";
+import { DEFAULT_LOCALE, Locale, MessageKey, translate } from "./i18n";
+
+export type AppErrorKind =
+  | 'rate_limited'
+  | 'auth_invalid'
+  | 'safety_blocked'
+  | 'no_image'
+  | 'network_offline'
+  | 'parse_failed'
+  | 'unexpected';
+
+export abstract class AppError extends Error {
+  abstract readonly kind: AppErrorKind;
+
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = new.target.name;
+  }
+}
+
+/** Quota or rate limit hit. `retryAfterMs` is the server's suggested wait, if it gave one. */
+export class RateLimitedError extends AppError {
+  readonly kind = 'rate_limited';
+
+  constructor(message: string, readonly retryAfterMs: number | null, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+/** The API key is missing, invalid, expired or lacks access. */
+export class AuthInvalidError extends AppError {
+  readonly kind = 'auth_invalid';
+}
+
+/** The prompt or the generated image was blocked. `reason` is the provider's code, e.g. "SAFETY". */
+export class SafetyBlockedError extends AppError {
+  readonly kind = 'safety_blocked';
+
+  constructor(message: string, readonly reason: string, readonly report: GenerationReport | null = null, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+/** The model answered but sent no image; `report.modelText` is whatever it said instead. */
+export class NoImageReturnedError extends AppError {
+  readonly kind = 'no_image';
+
+  constructor(message: string, readonly report: GenerationReport | null = null, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+/** The request never reached the API. */
+export class NetworkOfflineError extends AppError {
+  readonly kind = 'network_offline';
+}
+
+/** A reply arrived but could not be turned into the expected structure. */
+export class ParseFailedError extends AppError {
+  readonly kind = 'parse_failed';
+
+  constructor(message: string, readonly issues: string[] = [], cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+/** Anything not covered above; the original error is kept as `cause`. */
+export class UnexpectedError extends AppError {
+  readonly kind = 'unexpected';
+}
+
+const RATE_LIMIT_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|quota/i;
+// Only a rejected or unauthorized key counts; generic 400s and 404s are not auth problems
+const AUTH_PATTERN = /API_KEY_INVALID|API key not valid|API key expired|UNAUTHENTICATED|PERMISSION_DENIED/i;
+const NETWORK_PATTERN = /Failed to fetch|NetworkError|Load failed|network request failed|ERR_INTERNET_DISCONNECTED/i;
+
+/**
+ * The server's suggested wait, from "Please retry in 37.2s" or a `"retryDelay": "37s"` detail.
+ */
+export const parseRetryAfterMs = (message: string): number | null => {
+  const match = message.match(/retry in ([0-9.]+)s/i) || message.match(/"retryDelay"\s*:\s*"([0-9.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+/**
+ * Translates any thrown value into an AppError. AppErrors pass through unchanged;
+ * unrecognized failures become UnexpectedError, prefixed with `context` when given.
+ */
+export const toAppError = (error: any, context?: string): AppError => {
+  if (error instanceof AppError) return error;
+
+  const message: string = error?.message || (typeof error === 'string' ? error : '');
+  const status = error?.status;
+
+  if (status === 429 || RATE_LIMIT_PATTERN.test(message)) {
+    return new RateLimitedError("Rate limit or quota exceeded.", parseRetryAfterMs(message), error);
+  }
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    return new AuthInvalidError("The API key was rejected.", error);
+  }
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) || NETWORK_PATTERN.test(message)) {
+    return new NetworkOfflineError("Could not reach the server.", error);
+  }
+  const detail = message || "Unknown error";
+  return new UnexpectedError(context ? `${context}: ${detail}` : detail, error);
+};
+
+/**
+ * One-line summary, used where there is no room for the full remediation UI (e.g. a shot tile).
+ */
+export const describeError = (error: AppError, locale: Locale = DEFAULT_LOCALE): string => {
+  switch (error.kind) {
+    case 'rate_limited': return translate(locale, 'error.rateLimitedShort');
+    case 'auth_invalid': return translate(locale, 'error.authShort');
+    case 'safety_blocked': return translate(locale, 'error.safetyShort');
+    case 'no_image': return translate(locale, 'error.noImageShort');
+    case 'network_offline': return translate(locale, 'error.offlineShort');
+    case 'parse_failed': return translate(locale, 'error.parseShort');
+    default: return error.message || translate(locale, 'error.failedShort');
+  }
+};
+
+// Plain-language names for the reason codes providers send with a refusal
+const REFUSAL_REASONS: Record<string, MessageKey> = {
+  SAFETY: 'refusal.safety',
+  IMAGE_SAFETY: 'refusal.imageSafety',
+  PROHIBITED_CONTENT: 'refusal.prohibited',
+  IMAGE_PROHIBITED_CONTENT: 'refusal.imageProhibited',
+  BLOCKLIST: 'refusal.blocklist',
+  SPII: 'refusal.spii',
+  RECITATION: 'refusal.recitation',
+  NO_IMAGE: 'refusal.noImage',
+  OTHER: 'refusal.other',
+};
+
+const CATEGORY_TIPS: Record<string, MessageKey> = {
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'refusal.tipSexual',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'refusal.tipDangerous',
+  HARM_CATEGORY_HARASSMENT: 'refusal.tipHarassment',
+  HARM_CATEGORY_HATE_SPEECH: 'refusal.tipHate',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'refusal.tipCivic',
+};
+
+const REASON_TIPS: Record<string, MessageKey> = {
+  PROHIBITED_CONTENT: 'refusal.tipProhibited',
+  IMAGE_PROHIBITED_CONTENT: 'refusal.tipProhibited',
+  RECITATION: 'refusal.tipRecitation',
+  SPII: 'refusal.tipSpii',
+  NO_IMAGE: 'refusal.tipNoImage',
+  BLOCKLIST: 'refusal.tipBlocklist',
+};
+
+/**
+ * Why a shot came back without an image, in plain language, or null if no refusal was reported.
+ */
+export const describeRefusal = (report: GenerationReport, locale: Locale = DEFAULT_LOCALE): string | null => {
+  const code = report.blockReason || report.finishReason;
+  if (!code || code === 'STOP') return report.modelText ? translate(locale, 'refusal.textInstead') : null;
+  return REFUSAL_REASONS[code] ? translate(locale, REFUSAL_REASONS[code]) : code.toLowerCase().replace(/_/g, ' ');
+};
+
+/**
+ * Rephrasing suggestions matched to the refusal reason and the flagged safety categories.
+ */
+export const suggestRephrasing = (report: GenerationReport, locale: Locale = DEFAULT_LOCALE): string[] => {
+  const tips = new Set<MessageKey>();
+  const code = report.blockReason || report.finishReason;
+  if (code && REASON_TIPS[code]) tips.add(REASON_TIPS[code]);
+  for (const rating of report.safetyRatings) {
+    const flagged = rating.blocked || rating.probability === 'MEDIUM' || rating.probability === 'HIGH';
+    if (flagged && CATEGORY_TIPS[rating.category]) tips.add(CATEGORY_TIPS[rating.category]);
+  }
+  if (tips.size === 0) tips.add('refusal.tipSimplify');
+  return [...tips].map(key => translate(locale, key));
+};
@@ -0,0 +1,333 @@
+import { Coordinates } from "../types";
+import { BASEMAPS } from "./historicalMap";
+import { addJpegMetadata, addPngMetadata, buildJpegPdf, FileMetadata } from "./fileMetadata";
+import { formatYearDisplay } from "./years";
+import { Locale } from "./i18n";
+
+export type ExportLayout = 'postcard' | 'collage';
+export type ExportFormat = 'png' | 'jpeg' | 'pdf';
+
+export const PRINT_DPI = 300;
+
+// Physical print sizes, landscape
+export const LAYOUT_SIZES: Record<ExportLayout, { widthIn: number; heightIn: number }> = {
+  postcard: { widthIn: 6, heightIn: 4 },
+  collage: { widthIn: 10, heightIn: 8 },
+};
+
+export const MAX_COLLAGE_IMAGES = 9;
+
+export interface ExportImage {
+  url: string;
+  label: string;
+  year?: string; // overrides the composition year, e.g. timeline frames
+  prompt?: string;
+}
+
+export interface ExportDetails {
+  locationName: string;
+  coords: Coordinates;
+  era: string;
+  year?: string;
+  styleLabel?: string;
+  locale?: Locale; // how years are written on the composition
+}
+
+export interface ExportRequest {
+  layout: ExportLayout;
+  format: ExportFormat;
+  images: ExportImage[];
+  details: ExportDetails;
+  caption: string;
+}
+
+const TITLE_FONT = 'Georgia, "Times New Roman", serif';
+const BODY_FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+const INK = '#1e293b';
+const ACCENT = '#4f46e5';
+const MUTED = '#64748b';
+const SOFTWARE = 'ChronoTravel AI';
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(`Could not load image ${url.slice(0, 60)}`));
+  img.src = url;
+});
+
+// Draws `img` to fill the box, cropping the overflow (CSS object-fit: cover)
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.naturalWidth, h / img.naturalHeight);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(img, (img.naturalWidth - sw) / 2, (img.naturalHeight - sh) / 2, sw, sh, x, y, w, h);
+};
+
+/**
+ * Greedy word wrap. Text beyond `maxLines` is cut with an ellipsis.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  else if (line && lines.length === maxLines) {
+    let last = lines[maxLines - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+    lines[maxLines - 1] = `${last.trimEnd()}…`;
+  }
+  return lines;
+};
+
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number) => {
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+const INSET_ZOOM = 11;
+const TILE_SIZE = 512; // @2x tiles
+
+/**
+ * Draws a small street map centred on the coordinates, with a pin.
+ * Tiles that fail to load (offline, CORS) leave a plain grid behind.
+ */
+const drawMapInset = async (ctx: CanvasRenderingContext2D, coords: Coordinates, x: number, y: number, w: number, h: number) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+  ctx.fillStyle = '#e2e8f0';
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 2;
+  for (let gx = x; gx < x + w; gx += 60) { ctx.beginPath(); ctx.moveTo(gx, y); ctx.lineTo(gx, y + h); ctx.stroke(); }
+  for (let gy = y; gy < y + h; gy += 60) { ctx.beginPath(); ctx.moveTo(x, gy); ctx.lineTo(x + w, gy); ctx.stroke(); }
+
+  // World pixel position of the point (Web Mercator)
+  const worldSize = TILE_SIZE * 2 ** INSET_ZOOM;
+  const latRad = (coords.lat * Math.PI) / 180;
+  const px = ((coords.lng + 180) / 360) * worldSize;
+  const py = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * worldSize;
+  const left = px - w / 2;
+  const top = py - h / 2;
+
+  const tiles: { tx: number; ty: number }[] = [];
+  for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + w) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + h) / TILE_SIZE); ty++) {
+      tiles.push({ tx, ty });
+    }
+  }
+  const tileCount = 2 ** INSET_ZOOM;
+  await Promise.all(tiles.map(async ({ tx, ty }) => {
+    if (ty < 0 || ty >= tileCount) return;
+    const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+    const url = BASEMAPS.modern.url
+      .replace('{s}', 'abc'[Math.abs(tx + ty) % 3])
+      .replace('{z}', String(INSET_ZOOM))
+      .replace('{x}', String(wrappedX))
+      .replace('{y}', String(ty))
+      .replace('{r}', '@2x');
+    try {
+      const tile = await loadImage(url);
+      ctx.drawImage(tile, x + tx * TILE_SIZE - left, y + ty * TILE_SIZE - top, TILE_SIZE, TILE_SIZE);
+    } catch (e) {
+      console.warn("Map inset tile failed", e);
+    }
+  }));
+
+  // Pin
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+  ctx.fillStyle = ACCENT;
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 6;
+  ctx.beginPath();
+  ctx.arc(cx, cy, 18, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  // Coordinates label
+  const label = `${Math.abs(coords.lat).toFixed(3)}°${coords.lat >= 0 ? 'N' : 'S'}  ${Math.abs(coords.lng).toFixed(3)}°${coords.lng >= 0 ? 'E' : 'W'}`;
+  ctx.font = `600 24px ${BODY_FONT}`;
+  const labelWidth = ctx.measureText(label).width + 24;
+  ctx.fillStyle = 'rgba(255,255,255,0.85)';
+  ctx.fillRect(x + w - labelWidth - 12, y + h - 48, labelWidth, 36);
+  ctx.fillStyle = INK;
+  ctx.fillText(label, x + w - labelWidth, y + h - 21);
+  ctx.restore();
+
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 8;
+  ctx.strokeRect(x, y, w, h);
+};
+
+const yearLine = (details: ExportDetails, year?: string) => {
+  const effectiveYear = year || details.year;
+  return effectiveYear ? formatYearDisplay(effectiveYear, details.locale) : details.era;
+};
+
+const drawPostcard = async (ctx: CanvasRenderingContext2D, width: number, height: number, request: ExportRequest) => {
+  const { details, caption } = request;
+  const image = request.images[0];
+  const margin = 60;
+  const photoSize = height - margin * 2;
+
+  drawCover(ctx, await loadImage(image.url), margin, margin, photoSize, photoSize);
+
+  const colX = margin * 2 + photoSize;
+  const colW = width - colX - margin;
+  ctx.textBaseline = 'alphabetic';
+
+  ctx.fillStyle = INK;
+  ctx.font = `bold 64px ${TITLE_FONT}`;
+  let y = drawLines(ctx, wrapText(ctx, details.locationName, colW, 3), colX, margin + 60, 72);
+
+  ctx.fillStyle = ACCENT;
+  ctx.font = `600 44px ${BODY_FONT}`;
+  y = drawLines(ctx, [yearLine(details, image.year)], colX, y + 16, 52);
+
+  ctx.fillStyle = MUTED;
+  ctx.font = `28px ${BODY_FONT}`;
+  const insetH = 330;
+  const captionBottom = height - margin - insetH - 40;
+  const maxLines = Math.max(1, Math.floor((captionBottom - y - 20) / 40));
+  drawLines(ctx, wrapText(ctx, caption, colW, maxLines), colX, y + 30, 40);
+
+  await drawMapInset(ctx, details.coords, colX, height - margin - insetH, colW, insetH);
+};
+
+const drawCollage = async (ctx: CanvasRenderingContext2D, width: number, height: number, request: ExportRequest) => {
+  const { details, caption } = request;
+  const images = request.images.slice(0, MAX_COLLAGE_IMAGES);
+  const margin = 80;
+  const headerH = 220;
+  const footerH = 480;
+  const gap = 30;
+
+  ctx.fillStyle = INK;
+  ctx.font = `bold 96px ${TITLE_FONT}`;
+  ctx.fillText(wrapText(ctx, details.locationName, width - margin * 2 - 700, 1)[0] || '', margin, margin + 96);
+  ctx.fillStyle = ACCENT;
+  ctx.font = `600 60px ${BODY_FONT}`;
+  const years = Array.from(new Set(images.map(img => yearLine(details, img.year))));
+  const headerYear = years.length > 1 ? `${years[0]} – ${years[years.length - 1]}` : years[0];
+  ctx.textAlign = 'right';
+  ctx.fillText(headerYear, width - margin, margin + 90);
+  ctx.textAlign = 'left';
+
+  const cols = Math.ceil(Math.sqrt(images.length));
+  const rows = Math.ceil(images.length / cols);
+  const gridTop = margin + headerH - 60;
+  const gridH = height - gridTop - footerH - margin;
+  const cellW = (width - margin * 2 - gap * (cols - 1)) / cols;
+  const cellH = (gridH - gap * (rows - 1)) / rows;
+
+  const loaded = await Promise.all(images.map(img => loadImage(img.url)));
+  loaded.forEach((img, i) => {
+    const cx = margin + (i % cols) * (cellW + gap);
+    const cy = gridTop + Math.floor(i / cols) * (cellH + gap);
+    drawCover(ctx, img, cx, cy, cellW, cellH);
+
+    const label = images[i].year ? formatYearDisplay(images[i].year, request.details.locale) : images[i].label;
+    ctx.font = `600 30px ${BODY_FONT}`;
+    const labelW = Math.min(cellW - 40, ctx.measureText(label).width + 32);
+    ctx.fillStyle = 'rgba(15,23,42,0.65)';
+    ctx.fillRect(cx + 20, cy + cellH - 66, labelW, 46);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(wrapText(ctx, label, labelW - 32, 1)[0] || '', cx + 36, cy + cellH - 33);
+  });
+
+  const footerTop = height - margin - footerH + 60;
+  const insetW = 720;
+  const insetH = footerH - 60;
+  ctx.fillStyle = MUTED;
+  ctx.font = `36px ${BODY_FONT}`;
+  const lines = wrapText(ctx, caption, width - margin * 3 - insetW, Math.floor(insetH / 50) - 1);
+  const afterCaption = drawLines(ctx, lines, margin, footerTop + 40, 50);
+  if (details.styleLabel) {
+    ctx.font = `italic 28px ${BODY_FONT}`;
+    ctx.fillText(`${details.styleLabel} · ${SOFTWARE}`, margin, Math.min(afterCaption + 30, height - margin));
+  }
+
+  await drawMapInset(ctx, details.coords, width - margin - insetW, footerTop, insetW, insetH);
+};
+
+/**
+ * Renders the layout onto a canvas at print resolution.
+ */
+export const composeCanvas = async (request: ExportRequest): Promise<HTMLCanvasElement> => {
+  if (request.images.length === 0) throw new Error("Pick at least one image to export");
+  const size = LAYOUT_SIZES[request.layout];
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.widthIn * PRINT_DPI);
+  canvas.height = Math.round(size.heightIn * PRINT_DPI);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+
+  ctx.fillStyle = '#fdfbf7';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (request.layout === 'postcard') await drawPostcard(ctx, canvas.width, canvas.height, request);
+  else await drawCollage(ctx, canvas.width, canvas.height, request);
+  return canvas;
+};
+
+const canvasBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Could not encode the image"));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, type, quality);
+  });
+
+const buildFileMetadata = (request: ExportRequest): FileMetadata => {
+  const { details, images, caption } = request;
+  const prompts = images.map(img => img.prompt).filter(Boolean);
+  return {
+    title: `${details.locationName}, ${yearLine(details, images.length === 1 ? images[0].year : undefined)}`,
+    description: caption,
+    location: details.locationName,
+    lat: details.coords.lat,
+    lng: details.coords.lng,
+    era: details.era,
+    year: images.length === 1 ? images[0].year || details.year : details.year,
+    prompt: prompts.length > 0 ? prompts.join('\n---\n') : undefined,
+    software: SOFTWARE,
+  };
+};
+
+/**
+ * Composes the layout and encodes it with embedded metadata.
+ */
+export const exportComposition = async (request: ExportRequest): Promise<Blob> => {
+  const canvas = await composeCanvas(request);
+  const meta = buildFileMetadata(request);
+
+  switch (request.format) {
+    case 'png':
+      return new Blob([addPngMetadata(await canvasBytes(canvas, 'image/png'), meta)], { type: 'image/png' });
+    case 'jpeg':
+      return new Blob([addJpegMetadata(await canvasBytes(canvas, 'image/jpeg', 0.92), meta)], { type: 'image/jpeg' });
+    case 'pdf': {
+      const size = LAYOUT_SIZES[request.layout];
+      const jpeg = await canvasBytes(canvas, 'image/jpeg', 0.92);
+      const pdf = buildJpegPdf(jpeg, canvas.width, canvas.height, size.widthIn * 72, size.heightIn * 72, meta);
+      return new Blob([pdf], { type: 'application/pdf' });
+    }
+  }
+};
+
+export const exportFileName = (request: ExportRequest): string => {
+  const slug = request.details.locationName.toLowerCase().replace(/[^\w]+/g, '-').replace(/^-|-$/g, '') || 'chronotravel';
+  return `${slug}-${request.layout}.${request.format === 'jpeg' ? 'jpg' : request.format}`;
+};
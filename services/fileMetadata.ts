@@ -0,0 +1,208 @@
+/**
+ * Byte-level helpers that make exported files self-describing:
+ * PNG text chunks, JPEG XMP segments and a minimal single-image PDF.
+ */
+
+export interface FileMetadata {
+  title: string;
+  description: string;
+  location: string;
+  lat: number;
+  lng: number;
+  era: string;
+  year?: string;
+  prompt?: string;
+  software: string;
+}
+
+const encoder = new TextEncoder();
+
+// Download name suffix for an image's actual format
+export const fileExtension = (mimeType?: string) =>
+  ({ 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg' } as Record<string, string>)[mimeType || ''] || 'png';
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// XMP GPS coordinates are "DDD,MM.mmmmK"
+const xmpCoordinate = (value: number, positive: string, negative: string) => {
+  const abs = Math.abs(value);
+  const degrees = Math.floor(abs);
+  return `${degrees},${((abs - degrees) * 60).toFixed(4)}${value >= 0 ? positive : negative}`;
+};
+
+/**
+ * Builds an XMP packet with Dublin Core, EXIF GPS and ChronoTravel fields.
+ */
+export const buildXmp = (meta: FileMetadata): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:exif="http://ns.adobe.com/exif/1.0/"
+    xmlns:chrono="https://chronotravel.app/ns/1.0/"
+    xmp:CreatorTool="${escapeXml(meta.software)}"
+    exif:GPSLatitude="${xmpCoordinate(meta.lat, 'N', 'S')}"
+    exif:GPSLongitude="${xmpCoordinate(meta.lng, 'E', 'W')}"
+    chrono:Location="${escapeXml(meta.location)}"
+    chrono:Era="${escapeXml(meta.era)}"${meta.year ? `
+    chrono:Year="${escapeXml(meta.year)}"` : ''}>
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.title)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.description)}</rdf:li></rdf:Alt></dc:description>${meta.prompt ? `
+   <chrono:Prompt>${escapeXml(meta.prompt)}</chrono:Prompt>` : ''}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concatBytes([encoder.encode(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+const isLatin1 = (text: string) => /^[\x00-\xff]*$/.test(text);
+
+// tEXt is Latin-1 only; anything else goes into an uncompressed UTF-8 iTXt chunk
+const pngTextChunk = (keyword: string, text: string): Uint8Array => {
+  if (isLatin1(text)) {
+    return pngChunk('tEXt', Uint8Array.from(`${keyword}\0${text}`, c => c.charCodeAt(0)));
+  }
+  return pngChunk('iTXt', concatBytes([encoder.encode(`${keyword}\0\0\0\0\0`), encoder.encode(text)]));
+};
+
+/**
+ * Inserts text chunks (standard keywords plus XMP) right before IEND.
+ */
+export const addPngMetadata = (png: Uint8Array, meta: FileMetadata): Uint8Array => {
+  const iendOffset = png.length - 12;
+  if (String.fromCharCode(...png.slice(iendOffset + 4, iendOffset + 8)) !== 'IEND') {
+    throw new Error("Not a PNG file ending in IEND");
+  }
+  const entries: [string, string][] = [
+    ['Title', meta.title],
+    ['Description', meta.description],
+    ['Location', `${meta.location} (${meta.lat.toFixed(5)}, ${meta.lng.toFixed(5)})`],
+    ['Era', meta.year ? `${meta.era}, ${meta.year}` : meta.era],
+    ['Software', meta.software],
+  ];
+  if (meta.prompt) entries.push(['Comment', meta.prompt]);
+
+  const chunks = entries.map(([keyword, text]) => pngTextChunk(keyword, text));
+  chunks.push(pngChunk('iTXt', concatBytes([encoder.encode('XML:com.adobe.xmp\0\0\0\0\0'), encoder.encode(buildXmp(meta))])));
+  return concatBytes([png.slice(0, iendOffset), ...chunks, png.slice(iendOffset)]);
+};
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_SEGMENT_BYTES = 65533;
+
+/**
+ * Adds an XMP APP1 segment after the JFIF header. A prompt too long for one
+ * segment is dropped from the XMP rather than splitting into extended XMP.
+ */
+export const addJpegMetadata = (jpeg: Uint8Array, meta: FileMetadata): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error("Not a JPEG file");
+
+  let payload = concatBytes([encoder.encode(XMP_HEADER), encoder.encode(buildXmp(meta))]);
+  if (payload.length + 2 > MAX_SEGMENT_BYTES) {
+    payload = concatBytes([encoder.encode(XMP_HEADER), encoder.encode(buildXmp({ ...meta, prompt: undefined }))]);
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+
+  // Keep APP0 (JFIF) first if present
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  return concatBytes([jpeg.slice(0, insertAt), segment, jpeg.slice(insertAt)]);
+};
+
+// PDF text strings: plain ASCII literals, or UTF-16BE hex with a BOM for anything else
+const pdfString = (text: string): string => {
+  if (/^[\x20-\x7e]*$/.test(text)) return `(${text.replace(/([\\()])/g, '\\$1')})`;
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+};
+
+const pdfDate = (date: Date) =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/**
+ * Wraps one JPEG into a single-page PDF sized to `widthPt` x `heightPt`,
+ * with the metadata in both the Info dictionary and an XMP stream.
+ */
+export const buildJpegPdf = (jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, widthPt: number, heightPt: number, meta: FileMetadata): Uint8Array => {
+  const xmp = encoder.encode(buildXmp(meta));
+  const content = encoder.encode(`q ${widthPt} 0 0 ${heightPt} 0 0 cm /Im0 Do Q`);
+  const keywords = [meta.location, meta.era, meta.year].filter(Boolean).join(', ');
+
+  const objects: Uint8Array[][] = [
+    [encoder.encode('<< /Type /Catalog /Pages 2 0 R /Metadata 7 0 R >>')],
+    [encoder.encode('<< /Type /Pages /Kids [3 0 R] /Count 1 >>')],
+    [encoder.encode(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${widthPt} ${heightPt}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`)],
+    [encoder.encode(`<< /Length ${content.length} >>\nstream\n`), content, encoder.encode('\nendstream')],
+    [encoder.encode(`<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`), jpeg, encoder.encode('\nendstream')],
+    [encoder.encode(`<< /Title ${pdfString(meta.title)} /Subject ${pdfString(meta.description)} /Keywords ${pdfString(keywords)} /Creator ${pdfString(meta.software)} /CreationDate ${pdfString(pdfDate(new Date()))} >>`)],
+    [encoder.encode(`<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>\nstream\n`), xmp, encoder.encode('\nendstream')],
+  ];
+
+  // The comment line's bytes must stay above 0x7f, so they are written raw rather than UTF-8 encoded
+  const header = concatBytes([encoder.encode('%PDF-1.4\n%'), new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3, 0x0a])]);
+  const parts: Uint8Array[] = [header];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const objectParts = [encoder.encode(`${i + 1} 0 obj\n`), ...body, encoder.encode('\nendobj\n')];
+    parts.push(...objectParts);
+    offset += objectParts.reduce((sum, p) => sum + p.length, 0);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(encoder.encode(xref + '\n'));
+  return concatBytes(parts);
+};
@@ -0,0 +1,62 @@
+import { SavedShot } from "../types";
+
+const DB_NAME = 'chronotravel';
+const DB_VERSION = 1;
+const STORE = 'shots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          store.createIndex('batchId', 'batchId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createShotId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const saveShot = async (shot: SavedShot): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(shot));
+};
+
+/**
+ * Returns every saved shot, newest first.
+ */
+export const listShots = async (): Promise<SavedShot[]> => {
+  const shots = await withStore<SavedShot[]>('readonly', (store) => store.getAll());
+  return shots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteShot = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
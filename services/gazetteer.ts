@@ -0,0 +1,74 @@
+import { GeocodeResult } from "../types";
+
+// Offline place list for the default geocoder. Coordinates point at the
+// landmark itself rather than the city centre where that matters.
+export const GAZETTEER: GeocodeResult[] = [
+  { name: "Machu Picchu", detail: "Cusco, Peru", coords: { lat: -13.1631, lng: -72.545 } },
+  { name: "Colosseum", detail: "Rome, Italy", coords: { lat: 41.8902, lng: 12.4922 } },
+  { name: "Rome", detail: "Italy", coords: { lat: 41.9028, lng: 12.4964 } },
+  { name: "Pompeii", detail: "Campania, Italy", coords: { lat: 40.7497, lng: 14.4869 } },
+  { name: "Venice", detail: "Italy", coords: { lat: 45.4408, lng: 12.3155 } },
+  { name: "Eiffel Tower", detail: "Paris, France", coords: { lat: 48.8584, lng: 2.2945 } },
+  { name: "Paris", detail: "France", coords: { lat: 48.8566, lng: 2.3522 } },
+  { name: "Mont-Saint-Michel", detail: "Normandy, France", coords: { lat: 48.6361, lng: -1.5115 } },
+  { name: "London", detail: "United Kingdom", coords: { lat: 51.5074, lng: -0.1278 } },
+  { name: "Stonehenge", detail: "Wiltshire, United Kingdom", coords: { lat: 51.1789, lng: -1.8262 } },
+  { name: "Edinburgh", detail: "Scotland, United Kingdom", coords: { lat: 55.9533, lng: -3.1883 } },
+  { name: "Acropolis of Athens", detail: "Athens, Greece", coords: { lat: 37.9715, lng: 23.7257 } },
+  { name: "Istanbul", detail: "Türkiye", coords: { lat: 41.0082, lng: 28.9784 } },
+  { name: "Hagia Sophia", detail: "Istanbul, Türkiye", coords: { lat: 41.0086, lng: 28.9802 } },
+  { name: "Berlin", detail: "Germany", coords: { lat: 52.52, lng: 13.405 } },
+  { name: "Brandenburg Gate", detail: "Berlin, Germany", coords: { lat: 52.5163, lng: 13.3777 } },
+  { name: "Prague", detail: "Czechia", coords: { lat: 50.0755, lng: 14.4378 } },
+  { name: "Vienna", detail: "Austria", coords: { lat: 48.2082, lng: 16.3738 } },
+  { name: "Barcelona", detail: "Spain", coords: { lat: 41.3874, lng: 2.1686 } },
+  { name: "Sagrada Família", detail: "Barcelona, Spain", coords: { lat: 41.4036, lng: 2.1744 } },
+  { name: "Alhambra", detail: "Granada, Spain", coords: { lat: 37.176, lng: -3.5881 } },
+  { name: "Amsterdam", detail: "Netherlands", coords: { lat: 52.3676, lng: 4.9041 } },
+  { name: "Moscow", detail: "Russia", coords: { lat: 55.7558, lng: 37.6173 } },
+  { name: "Pyramids of Giza", detail: "Giza, Egypt", coords: { lat: 29.9792, lng: 31.1342 } },
+  { name: "Cairo", detail: "Egypt", coords: { lat: 30.0444, lng: 31.2357 } },
+  { name: "Petra", detail: "Ma'an, Jordan", coords: { lat: 30.3285, lng: 35.4444 } },
+  { name: "Jerusalem", detail: "Old City", coords: { lat: 31.7767, lng: 35.2345 } },
+  { name: "Babylon", detail: "Babil, Iraq", coords: { lat: 32.5364, lng: 44.4208 } },
+  { name: "Persepolis", detail: "Fars, Iran", coords: { lat: 29.9352, lng: 52.8916 } },
+  { name: "Dubai", detail: "United Arab Emirates", coords: { lat: 25.2048, lng: 55.2708 } },
+  { name: "Taj Mahal", detail: "Agra, India", coords: { lat: 27.1751, lng: 78.0421 } },
+  { name: "Varanasi", detail: "Uttar Pradesh, India", coords: { lat: 25.3176, lng: 82.9739 } },
+  { name: "Angkor Wat", detail: "Siem Reap, Cambodia", coords: { lat: 13.4125, lng: 103.867 } },
+  { name: "Bangkok", detail: "Thailand", coords: { lat: 13.7563, lng: 100.5018 } },
+  { name: "Singapore", detail: "Singapore", coords: { lat: 1.2903, lng: 103.852 } },
+  { name: "Great Wall at Badaling", detail: "Beijing, China", coords: { lat: 40.3588, lng: 116.0204 } },
+  { name: "Forbidden City", detail: "Beijing, China", coords: { lat: 39.9163, lng: 116.3972 } },
+  { name: "Shanghai", detail: "China", coords: { lat: 31.2304, lng: 121.4737 } },
+  { name: "Xi'an", detail: "Shaanxi, China", coords: { lat: 34.3416, lng: 108.9398 } },
+  { name: "Hong Kong", detail: "China", coords: { lat: 22.3193, lng: 114.1694 } },
+  { name: "Seoul", detail: "South Korea", coords: { lat: 37.5665, lng: 126.978 } },
+  { name: "Gyeongbokgung Palace", detail: "Seoul, South Korea", coords: { lat: 37.5796, lng: 126.977 } },
+  { name: "Gyeongju", detail: "North Gyeongsang, South Korea", coords: { lat: 35.8562, lng: 129.2247 } },
+  { name: "Busan", detail: "South Korea", coords: { lat: 35.1796, lng: 129.0756 } },
+  { name: "Tokyo", detail: "Japan", coords: { lat: 35.6762, lng: 139.6503 } },
+  { name: "Shibuya Crossing", detail: "Tokyo, Japan", coords: { lat: 35.6595, lng: 139.7005 } },
+  { name: "Kyoto", detail: "Japan", coords: { lat: 35.0116, lng: 135.7681 } },
+  { name: "Mount Fuji", detail: "Shizuoka, Japan", coords: { lat: 35.3606, lng: 138.7274 } },
+  { name: "Sydney Opera House", detail: "Sydney, Australia", coords: { lat: -33.8568, lng: 151.2153 } },
+  { name: "Uluru", detail: "Northern Territory, Australia", coords: { lat: -25.3444, lng: 131.0369 } },
+  { name: "New York City", detail: "United States", coords: { lat: 40.7128, lng: -74.006 } },
+  { name: "Statue of Liberty", detail: "New York, United States", coords: { lat: 40.6892, lng: -74.0445 } },
+  { name: "San Francisco", detail: "United States", coords: { lat: 37.7749, lng: -122.4194 } },
+  { name: "Golden Gate Bridge", detail: "San Francisco, United States", coords: { lat: 37.8199, lng: -122.4783 } },
+  { name: "Grand Canyon", detail: "Arizona, United States", coords: { lat: 36.1069, lng: -112.1129 } },
+  { name: "Los Angeles", detail: "United States", coords: { lat: 34.0522, lng: -118.2437 } },
+  { name: "Chichén Itzá", detail: "Yucatán, Mexico", coords: { lat: 20.6843, lng: -88.5678 } },
+  { name: "Teotihuacan", detail: "State of Mexico, Mexico", coords: { lat: 19.6925, lng: -98.8438 } },
+  { name: "Mexico City", detail: "Mexico", coords: { lat: 19.4326, lng: -99.1332 } },
+  { name: "Havana", detail: "Cuba", coords: { lat: 23.1136, lng: -82.3666 } },
+  { name: "Rio de Janeiro", detail: "Brazil", coords: { lat: -22.9068, lng: -43.1729 } },
+  { name: "Buenos Aires", detail: "Argentina", coords: { lat: -34.6037, lng: -58.3816 } },
+  { name: "Easter Island", detail: "Chile", coords: { lat: -27.1127, lng: -109.3497 } },
+  { name: "Cape Town", detail: "South Africa", coords: { lat: -33.9249, lng: 18.4241 } },
+  { name: "Marrakesh", detail: "Morocco", coords: { lat: 31.6295, lng: -7.9811 } },
+  { name: "Timbuktu", detail: "Mali", coords: { lat: 16.7666, lng: -3.0026 } },
+  { name: "Great Zimbabwe", detail: "Masvingo, Zimbabwe", coords: { lat: -20.2674, lng: 30.9338 } },
+  { name: "Reykjavík", detail: "Iceland", coords: { lat: 64.1466, lng: -21.9426 } },
+];
@@ -1,5 +1,12 @@
-import { GoogleGenAI } from "@google/genai";
-import { LocationContext, TimeEra } from "../types";
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { GeneratedImageResult, GenerationReport, LocationAnalysisResult, PlausibilityResult, PromptPreset, ReferencePerson, Traveler } from "../types";
+import type { AIProvider, ImageEditRequest, KeyValidationResult, PlausibilityRequest, TravelPhotoRequest } from "./aiProvider";
+import { parseLocationResponse } from "./locationSchema";
+import { parsePlausibilityResponse, renderPlausibilityPrompt } from "./plausibility";
+import { DEFAULT_PROMPT_PRESET, renderAnalysisPrompt, renderEditPrompt, renderPhotoPrompt } from "./promptPresets";
+import { isAbortError } from "./generationQueue";
+import { AuthInvalidError, NoImageReturnedError, SafetyBlockedError, toAppError } from "./errors";
+import type { Locale } from "./i18n";
 
 // Helper to convert Blob to Base64
 export const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -16,192 +23,224 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Encodes every traveler's photos with their real MIME type.
+ * Travelers without photos are skipped; unnamed ones get a numbered label.
+ */
+export const prepareReferencePeople = async (travelers: Traveler[]): Promise<ReferencePerson[]> => {
+  const withPhotos = travelers.filter(t => t.photos.length > 0);
+  return Promise.all(withPhotos.map(async (traveler, index) => ({
+    name: traveler.name.trim() || `Traveler ${index + 1}`,
+    images: await Promise.all(traveler.photos.map(async (photo) => ({
+      data: await blobToBase64(photo),
+      mimeType: photo.type || 'image/jpeg'
+    })))
+  })));
+};
 
 /**
  * Analyzes the coordinates to provide context.
- * Now accepts apiKey explicitly to support web deployment.
+ * Invalid replies get one corrective retry; transport errors (quota, auth) are thrown as AppErrors.
  */
-export const analyzeLocation = async (lat: number, lng: number, apiKey: string): Promise<LocationContext> => {
-  if (!apiKey) throw new Error("API Key is required");
-
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const prompt = `
-    I am at coordinates: Latitude ${lat}, Longitude ${lng}.
-    
-    Task 1: Use Google Maps to identify the exact location.
-    Task 2: Determine if this location is "Specific" (a named landmark, city, building, park) or "Vague" (middle of the ocean, generic unnamed road, vast desert, generic field).
-    
-    Task 3: Create a JSON object with the following structure.
-    
-    Structure:
-    {
-      "name": "The specific location name found via Maps",
-      "isVague": boolean, // true if the location is generic/unclear, false if it is a specific place
-      "nearbyPOIs": [ // Only populate if isVague is true. Find up to 3 interesting landmarks/cities within 50km.
-         { "name": "Name of landmark", "lat": 0.00, "lng": 0.00 } 
-      ],
-      "weather": {
-        "temp": "Estimated typical temperature for right now (e.g. 25°C)",
-        "condition": "Estimated typical condition (e.g. Sunny)"
-      },
-      "description": "A short, interesting historical or geographical fact about this specific place (max 2 sentences).",
-      "clothingRecommendation": "Appropriate clothing suggestion for a tourist here right now."
-    }
+const analyzeLocation = async (ai: GoogleGenAI, lat: number, lng: number, preset: PromptPreset = DEFAULT_PROMPT_PRESET, locale?: Locale): Promise<LocationAnalysisResult> => {
+  const prompt = renderAnalysisPrompt(preset, lat, lng, locale);
+
+  const model = "gemini-2.5-flash";
+  const config = { tools: [{ googleMaps: {} }] };
+
+  const response = await ai.models.generateContent({ model, contents: prompt, config });
+  const firstAttempt = parseLocationResponse(response.text);
+  if (firstAttempt.kind === 'success') return firstAttempt;
+
+  console.warn("Location analysis reply was invalid, retrying:", firstAttempt.error);
+
+  const correction = `
+    Your previous reply could not be used: ${firstAttempt.error.message}
+    ${firstAttempt.error.issues.map(issue => `- ${issue}`).join('\n    ')}
 
-    Output ONLY the JSON code block. Do not output any other text.
+    Reply again with ONLY the corrected JSON object, following the exact structure requested.
+    All strings must be non-empty, "isVague" must be a boolean, and POI coordinates must be valid numbers.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleMaps: {} }], 
-      }
-    });
+  const retry = await ai.models.generateContent({
+    model,
+    contents: [
+      { role: 'user', parts: [{ text: prompt }] },
+      { role: 'model', parts: [{ text: response.text || '' }] },
+      { role: 'user', parts: [{ text: correction }] }
+    ],
+    config
+  });
+  return parseLocationResponse(retry.text);
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
+/**
+ * Checks the place against the requested date, grounded with Google Search.
+ * No corrective retry: the report is advice, and generation works without it.
+ */
+const checkPlausibility = async (ai: GoogleGenAI, request: PlausibilityRequest): Promise<PlausibilityResult> => {
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: renderPlausibilityPrompt(request),
+    config: { tools: [{ googleSearch: {} }], abortSignal: request.signal }
+  });
+  return parsePlausibilityResponse(response.text);
+};
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]) as LocationContext;
-    } else {
-        throw new Error("Failed to parse location JSON");
-    }
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Finish reasons that mean the output was withheld rather than never produced
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * Collects finish reason, safety ratings, commentary and token usage from a reply.
+ * Prompt-level and candidate-level safety ratings are merged.
+ */
+const readGenerationReport = (response: GenerateContentResponse, promptUsed: string): GenerationReport => {
+    const candidate = response.candidates?.[0];
+    const feedback = response.promptFeedback;
+    const usage = response.usageMetadata;
+    const commentary = (candidate?.content?.parts || [])
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text.trim());
 
-  } catch (error) {
-    console.error("Error analyzing location:", error);
     return {
-      name: "Unknown Location",
-      description: "Could not retrieve exact location details.",
-      weather: { temp: "--", condition: "Unknown" },
-      clothingRecommendation: "Casual wear",
-      isVague: false
+        finishReason: candidate?.finishReason || null,
+        blockReason: feedback?.blockReason || null,
+        safetyRatings: [...(feedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])].map(rating => ({
+            category: rating.category || 'HARM_CATEGORY_UNSPECIFIED',
+            probability: rating.probability || 'HARM_PROBABILITY_UNSPECIFIED',
+            blocked: !!rating.blocked
+        })),
+        modelText: [...commentary, feedback?.blockReasonMessage, candidate?.finishMessage].filter(Boolean).join('\n'),
+        usage: usage ? {
+            promptTokens: usage.promptTokenCount || 0,
+            outputTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0
+        } : null,
+        promptUsed
     };
-  }
 };
 
 /**
- * Generates the travel photo.
- * Supports B.C. years, apiKey injection, and shot variations.
+ * The image of a reply with its report. Without one, throws SafetyBlockedError
+ * for refusals and NoImageReturnedError when the model only answered in text.
  */
-export const generateTravelPhoto = async (
-  apiKey: string,
-  lat: number,
-  lng: number,
-  locationName: string,
-  era: TimeEra,
-  userImageBase64: string,
-  weatherCondition: string,
-  year?: string,
-  customPrompt?: string,
-  style: string = 'Realistic',
-  variation: string = 'Standard Shot'
-): Promise<string> => {
-    if (!apiKey) throw new Error("API Key is required");
-  
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Handle Year logic for B.C. / A.D.
-    let timeDescription = era as string;
-    let historicInstruction = "";
-
-    if (year) {
-      // Check if it's B.C. (negative or formatted)
-      const yearNum = parseInt(year);
-      if (!isNaN(yearNum) && yearNum < 0) {
-          const absYear = Math.abs(yearNum);
-          timeDescription += ` (Specifically ${absYear} B.C.)`;
-          historicInstruction = `
-            CRITICAL HISTORICAL ACCURACY (B.C. ERA):
-            The year is ${absYear} B.C. (Before Christ/Common Era).
-            - MODERN CITIES DO NOT EXIST. Do NOT show modern buildings, roads, or ruins.
-            - Show the NATURAL LANDSCAPE (pristine forests, rivers, deserts, terrain) exactly as it would have looked at these coordinates (${lat}, ${lng}) in ${absYear} B.C.
-            - If early human settlements (Neolithic, Bronze Age, Indigenous tribes) were historically present in this specific region at that time, depict them accurately (huts, primitive tools, campfires).
-            - Clothing MUST be primitive and accurate to the region and era (e.g., animal skins, simple woven tunics).
-          `;
-      } else {
-          timeDescription += ` (Specifically the year ${year})`;
-          historicInstruction = `
-            HISTORICAL ACCURACY: The year is ${year}.
-            - Ensure architecture, street signs, technology, and background details match this year.
-            - If Future, use grounded sci-fi aesthetics suitable for ${year}.
-          `;
-      }
+const toImageResult = (response: GenerateContentResponse, promptUsed: string): GeneratedImageResult => {
+    const report = readGenerationReport(response, promptUsed);
+    const imagePart = (response.candidates?.[0]?.content?.parts || []).find(part => part.inlineData?.data);
+    if (imagePart) {
+        const mimeType = imagePart.inlineData.mimeType || 'image/png';
+        return {
+            ...report,
+            imageUrl: `data:${mimeType};base64,${imagePart.inlineData.data}`,
+            mimeType
+        };
     }
 
-    const textPrompt = `
-      Create a highly realistic and historically accurate travel photo.
-
-      CONTEXT:
-      - Location: ${locationName} (Lat: ${lat}, Lng: ${lng}).
-      - Era/Year: ${timeDescription}.
-      - Weather: ${weatherCondition}.
-      - Shot Variation: ${variation} (Ensure this image has a distinct composition).
-
-      USER INSTRUCTIONS:
-      "${customPrompt || "No specific scene instructions provided."}"
-
-      REQUIREMENTS:
-      1. ${historicInstruction}
-      
-      2. SUBJECT: Insert the person from the reference image.
-         - Maintain facial identity strictly.
-         - CHANGE CLOTHING: The subject MUST wear clothing accurate to ${timeDescription} and ${weatherCondition}.
-         - Pose: Natural travel pose.
-
-      3. AESTHETICS:
-         - Visual Style: ${style}. 
-         - Photorealistic, 8k resolution, cinematic lighting.
-         - No text, borders, or frames.
-    `;
-
-    const makeRequest = async (retryCount = 0): Promise<any> => {
-        try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: {
-                    parts: [
-                        { text: textPrompt },
-                        {
-                            inlineData: {
-                                mimeType: 'image/jpeg',
-                                data: userImageBase64
-                            }
+    const blockReason = report.blockReason || (SAFETY_FINISH_REASONS.includes(report.finishReason) ? report.finishReason : null);
+    if (blockReason) {
+        throw new SafetyBlockedError("The request was blocked by the model's safety filters.", blockReason, report);
+    }
+    throw new NoImageReturnedError("The model did not return an image.", report);
+};
+
+/**
+ * Generates the travel photo.
+ * The prompt comes from the request's preset (B.C./A.D./future sections live in the template).
+ */
+const generateTravelPhoto = async (ai: GoogleGenAI, request: TravelPhotoRequest): Promise<GeneratedImageResult> => {
+    const { people, aspectRatio = '1:1', promptPreset = DEFAULT_PROMPT_PRESET, signal } = request;
+    const textPrompt = renderPhotoPrompt(promptPreset, request);
+
+    // Rate-limit retries are handled by the shared generation queue
+    const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [
+                { text: textPrompt },
+                // Each person's photos follow a text label so the model can tell them apart
+                ...people.flatMap((person, i) => [
+                    { text: `Reference photos for PERSON ${i + 1} "${person.name}":` },
+                    ...person.images.map(image => ({
+                        inlineData: {
+                            mimeType: image.mimeType,
+                            data: image.data
                         }
-                    ],
-                },
-                config: {
-                    imageConfig: { aspectRatio: "1:1" }
-                },
-            });
-        } catch (error: any) {
-            if (error.message?.includes('429') || error.status === 429) {
-                if (retryCount < 2) {
-                    console.log(`Quota exceeded. Retrying...`);
-                    let delay = 3000 * Math.pow(2, retryCount);
-                    const match = error.message?.match(/retry in ([0-9.]+)s/);
-                    if (match) delay = Math.ceil(parseFloat(match[1])) * 1000 + 2000;
-                    
-                    if (delay < 70000) {
-                        await wait(delay);
-                        return makeRequest(retryCount + 1);
-                    }
-                }
-            }
-            throw error;
-        }
-    };
+                    }))
+                ])
+            ],
+        },
+        config: {
+            imageConfig: { aspectRatio },
+            abortSignal: signal
+        },
+    });
+
+    return toImageResult(response, textPrompt);
+};
+
+/**
+ * Applies a follow-up instruction to a previous image, which is sent back as input.
+ */
+const editImage = async (ai: GoogleGenAI, request: ImageEditRequest): Promise<GeneratedImageResult> => {
+    const { image, instruction, history = [], signal } = request;
+    const textPrompt = renderEditPrompt(instruction, history);
+
+    const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [
+                { inlineData: { mimeType: image.mimeType, data: image.data } },
+                { text: textPrompt }
+            ]
+        },
+        config: { abortSignal: signal }
+    });
+    return toImageResult(response, textPrompt);
+};
 
-    const response = await makeRequest();
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-        }
+/**
+ * Checks a key with a metadata lookup, which costs no generation quota.
+ * Network failures can't tell us anything about the key, so they come back as "unverified".
+ */
+export const validateGeminiKey = async (apiKey: string): Promise<KeyValidationResult> => {
+  try {
+    await new GoogleGenAI({ apiKey }).models.get({ model: 'gemini-2.5-flash' });
+    return { kind: 'valid' };
+  } catch (error: any) {
+    if (toAppError(error) instanceof AuthInvalidError || error?.status === 400) {
+      return { kind: 'invalid', message: "This key was rejected. Check that it is a Gemini API key and is enabled." };
     }
-    throw new Error("No image generated");
-};
\ No newline at end of file
+    return { kind: 'unverified', message: error?.message || "Could not reach the API to check the key." };
+  }
+};
+
+// SDK and fetch failures leave the provider as AppErrors; cancellation stays an AbortError
+const translateErrors = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    throw isAbortError(error) ? error : toAppError(error);
+  }
+};
+
+/**
+ * Gemini adapter. The client is created once per API key and shared by every call.
+ */
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  const requireClient = () => {
+    if (!ai) throw new AuthInvalidError("API Key is required");
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+    requiresApiKey: true,
+    analyzeLocation: (lat, lng, promptPreset, locale) => translateErrors(() => analyzeLocation(requireClient(), lat, lng, promptPreset, locale)),
+    checkPlausibility: (request) => translateErrors(() => checkPlausibility(requireClient(), request)),
+    generateTravelPhoto: (request) => translateErrors(() => generateTravelPhoto(requireClient(), request)),
+    editImage: (request) => translateErrors(() => editImage(requireClient(), request)),
+  };
+};
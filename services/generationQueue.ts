@@ -0,0 +1,106 @@
+import { RateLimitedError } from './errors';
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_RATE_LIMIT_RETRIES = 2;
+// Longer server-suggested waits are surfaced to the user instead of slept through
+const MAX_RETRY_DELAY_MS = 70000;
+
+// Shared by every queue: when one request is rate limited, all of them back off
+let pausedUntil = 0;
+
+export const createAbortError = () => new DOMException('Generation cancelled', 'AbortError');
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+/**
+ * Delay before the next attempt: the server's "retry in Ns" hint (plus a margin)
+ * when present, exponential backoff otherwise.
+ */
+export const getRetryDelayMs = (error: RateLimitedError, attempt: number): number => {
+  if (error.retryAfterMs !== null) return error.retryAfterMs + 2000;
+  return 3000 * Math.pow(2, attempt);
+};
+
+export const abortableWait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const waitForRateLimit = async (signal: AbortSignal) => {
+  while (Date.now() < pausedUntil) {
+    await abortableWait(pausedUntil - Date.now(), signal);
+  }
+};
+
+export interface GenerationQueue {
+  /**
+   * Runs `task` once a slot is free and the shared rate limiter allows it.
+   * Rate-limited attempts are retried; aborting `signal` rejects with an AbortError
+   * whether the task is still queued or already running.
+   */
+  run: <T>(task: (signal: AbortSignal) => Promise<T>, signal: AbortSignal) => Promise<T>;
+}
+
+export const createGenerationQueue = (concurrency: number = DEFAULT_CONCURRENCY): GenerationQueue => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal.aborted) return reject(createAbortError());
+      if (active < concurrency) {
+        active++;
+        return resolve();
+      }
+      const grant = () => {
+        signal.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(grant);
+        if (index !== -1) waiting.splice(index, 1);
+        reject(createAbortError());
+      };
+      waiting.push(grant);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const run = async <T>(task: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> => {
+    await acquire(signal);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await waitForRateLimit(signal);
+        try {
+          return await task(signal);
+        } catch (error) {
+          if (signal.aborted) throw createAbortError();
+          if (!(error instanceof RateLimitedError) || attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+
+          const delay = getRetryDelayMs(error, attempt);
+          if (delay > MAX_RETRY_DELAY_MS) throw error;
+
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        }
+      }
+    } finally {
+      release();
+    }
+  };
+
+  return { run };
+};
@@ -0,0 +1,111 @@
+import { Coordinates, GeocodeResult } from "../types";
+import { GAZETTEER } from "./gazetteer";
+
+export type GeocoderId = 'gazetteer' | 'nominatim';
+
+/**
+ * Resolves free text to places. Implementations may be offline or remote.
+ */
+export interface Geocoder {
+  id: GeocoderId;
+  search: (query: string, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+}
+
+const MAX_RESULTS = 6;
+
+// Lowercase and strip accents so "chichen itza" finds "Chichén Itzá"
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Parses "lat, lng" input such as "41.89, 12.49", "41.89 12.49" or
+ * "41.89N 12.49E". Returns null when the text is not a coordinate pair.
+ */
+export const parseCoordinateQuery = (query: string): Coordinates | null => {
+  const match = query.trim().match(
+    /^(-?\d+(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)\s*°?\s*([EW])?$/i
+  );
+  if (!match) return null;
+
+  let lat = parseFloat(match[1]);
+  let lng = parseFloat(match[3]);
+  if (match[2]?.toUpperCase() === 'S') lat = -Math.abs(lat);
+  if (match[4]?.toUpperCase() === 'W') lng = -Math.abs(lng);
+
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+};
+
+/**
+ * Default geocoder: ranks the bundled gazetteer, works fully offline.
+ */
+export const createGazetteerGeocoder = (entries: GeocodeResult[] = GAZETTEER): Geocoder => {
+  const indexed = entries.map(entry => ({
+    entry,
+    name: normalize(entry.name),
+    detail: normalize(entry.detail || ''),
+  }));
+
+  const rank = (q: string, name: string, detail: string) => {
+    if (name === q) return 0;
+    if (name.startsWith(q)) return 1;
+    if (name.split(/[\s-]+/).some(word => word.startsWith(q))) return 2;
+    if (name.includes(q)) return 3;
+    if (detail.includes(q)) return 4;
+    return -1;
+  };
+
+  return {
+    id: 'gazetteer',
+    search: async (query) => {
+      const q = normalize(query);
+      if (!q) return [];
+      return indexed
+        .map(item => ({ item, score: rank(q, item.name, item.detail) }))
+        .filter(({ score }) => score >= 0)
+        .sort((a, b) => a.score - b.score || a.item.name.length - b.item.name.length)
+        .slice(0, MAX_RESULTS)
+        .map(({ item }) => item.entry);
+    },
+  };
+};
+
+/**
+ * OpenStreetMap Nominatim. Online only; subject to its usage policy (max 1 req/s).
+ */
+export const createNominatimGeocoder = (): Geocoder => ({
+  id: 'nominatim',
+  search: async (query, signal) => {
+    if (query.trim().length < 3) return [];
+    const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=${MAX_RESULTS}&q=${encodeURIComponent(query)}`;
+    const response = await fetch(url, { signal, headers: { 'Accept-Language': navigator.language } });
+    if (!response.ok) throw new Error(`Geocoding failed (${response.status})`);
+    const results: { name?: string; display_name: string; lat: string; lon: string }[] = await response.json();
+    return results.map(r => ({
+      name: r.name || r.display_name.split(',')[0],
+      detail: r.display_name,
+      coords: { lat: parseFloat(r.lat), lng: parseFloat(r.lon) },
+    }));
+  },
+});
+
+export const getConfiguredGeocoderId = (): GeocoderId =>
+  (process.env.GEOCODER || '').trim().toLowerCase() === 'nominatim' ? 'nominatim' : 'gazetteer';
+
+/**
+ * Builds the configured geocoder. Raw coordinate input is always resolved
+ * locally, whichever backend handles place names.
+ */
+export const createGeocoder = (id: GeocoderId): Geocoder => {
+  const backend = id === 'nominatim' ? createNominatimGeocoder() : createGazetteerGeocoder();
+  return {
+    id: backend.id,
+    search: async (query, signal) => {
+      const coords = parseCoordinateQuery(query);
+      if (coords) {
+        return [{ name: `${coords.lat.toFixed(5)}, ${coords.lng.toFixed(5)}`, coords, isCoordinates: true }];
+      }
+      return backend.search(query, signal);
+    },
+  };
+};
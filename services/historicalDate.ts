@@ -0,0 +1,247 @@
+import { DatePart, HistoricalDate, TimeEra } from "../types";
+import { DEFAULT_LOCALE, Locale, MessageKey, translate } from "./i18n";
+
+/**
+ * Reads the free-text year field into a HistoricalDate, and writes dates back out
+ * for the UI (localized) and for prompts (English, with the span spelled out).
+ *
+ * Accepted input, among others:
+ *   1889 · AD 30 · 1889 CE · 500 BC · 500 B.C.E. · 10,000 BC · 기원전 500년 · 紀元前500年
+ *   -500 (500 BCE, as the app has always read it) · 0 (1 BCE) · -499 astronomical (500 BCE)
+ *   1920s · 1500s (1500–1599) · 1900s and 2000s (decades) · 16th century · 3rd century BC
+ *   mid-16th century · early 1920s
+ *   c. 1500 · ~1500 · 1500–1550 · 500 to 300 BC · between 1500 and 1550
+ */
+
+type EraMarker = 'bc' | 'ad' | 'astronomical' | null;
+
+interface Term {
+  start: number;
+  end: number;
+  precision: 'year' | 'decade' | 'century';
+  marker: EraMarker;
+}
+
+const BC_MARKERS = [/^(?:기원전|紀元前)\s*/, /\s*(?<![a-z])b\.?\s?c\.?(?:\s?e\.?)?$/, /\s*(?<![a-z])a\.\s?c\.$/];
+const AD_MARKERS = [/^(?:a\.?\s?d\.?|서기|西暦)\s*/, /\s*(?<![a-z])(?:a\.?\s?d\.?|c\.?\s?e\.?)$/, /\s*(?<![a-z])d\.\s?c\.$/];
+const ASTRONOMICAL_MARKERS = [/\s*(?<![a-z])(?:astronomical|astro\.?|ay)$/];
+
+const PART_PATTERNS: [RegExp, DatePart][] = [
+  [/^early[\s-]+/, 'early'], [/^(?:mid|middle)[\s-]+/, 'mid'], [/^late[\s-]+/, 'late'],
+  [/\s*(?:초반|초)$/, 'early'], [/\s*중반$/, 'mid'], [/\s*(?:후반|말)$/, 'late'],
+  [/(?:初頭|前半)$/, 'early'], [/(?:半ば|中頃)$/, 'mid'], [/(?:後半|末)$/, 'late'],
+];
+
+const APPROXIMATE_PATTERN = /^(?:c\.|ca\.?|circa|around|about|~)\s*|\s*(?:경|頃)$/;
+const RANGE_PATTERN = /^(.+?)\s+(?:-|to|until|and)\s+(.+)$/;
+
+const stripFirst = (text: string, patterns: RegExp[]): string | null => {
+  for (const pattern of patterns) {
+    if (pattern.test(text)) return text.replace(pattern, '').trim();
+  }
+  return null;
+};
+
+// Astronomical year for a year number written with (or without) an era marker
+const toAstronomical = (year: number, marker: EraMarker): number | null => {
+  if (marker === 'astronomical') return year;
+  if (marker === 'bc') return year >= 1 ? 1 - year : null;
+  if (marker === 'ad') return year >= 1 ? year : null;
+  // Unmarked: negative numbers have always meant B.C. here; there is no year 0, so read it as 1 BCE
+  return year < 0 ? year + 1 : year;
+};
+
+const parseTerm = (input: string, defaultMarker: EraMarker = null): Term | null => {
+  let text = input.trim();
+  let marker: EraMarker = null;
+  let rest: string | null;
+  if ((rest = stripFirst(text, BC_MARKERS)) !== null) { text = rest; marker = 'bc'; }
+  else if ((rest = stripFirst(text, AD_MARKERS)) !== null) { text = rest; marker = 'ad'; }
+  else if ((rest = stripFirst(text, ASTRONOMICAL_MARKERS)) !== null) { text = rest; marker = 'astronomical'; }
+  const effective = marker || defaultMarker;
+  const isBc = effective === 'bc';
+
+  let match: RegExpMatchArray | null;
+  if ((match = text.match(/^(\d+)(?:st|nd|rd|th)?\s*(?:century|cent\.?|c\.|세기|世紀)$/))) {
+    const n = parseInt(match[1]);
+    if (n < 1) return null;
+    return isBc
+      ? { start: 1 - n * 100, end: -(n - 1) * 100, precision: 'century', marker }
+      : { start: (n - 1) * 100 + 1, end: n * 100, precision: 'century', marker };
+  }
+  // "1500s" is the hundred years 1500–1599, but "1900s" and "2000s" are read as decades:
+  // for those, most people mean 1900–1909 and 2000–2009
+  if ((match = text.match(/^([1-9]\d*00)'?s$/)) && (isBc || !['1900', '2000'].includes(match[1]))) {
+    const hundred = parseInt(match[1]);
+    return isBc
+      ? { start: 1 - (hundred + 99), end: 1 - hundred, precision: 'century', marker }
+      : { start: hundred, end: hundred + 99, precision: 'century', marker };
+  }
+  if ((match = text.match(/^(\d*0)(?:'?s|\s*년대|年代)$/))) {
+    const decade = parseInt(match[1]);
+    return isBc
+      ? { start: 1 - (decade + 9), end: Math.min(1 - decade, 0), precision: 'decade', marker }
+      : { start: decade, end: decade + 9, precision: 'decade', marker };
+  }
+  if ((match = text.replace(/\s*(?:년|年)$/, '').match(/^([+-]?\d+)$/))) {
+    const year = toAstronomical(parseInt(match[1]), effective);
+    return year === null ? null : { start: year, end: year, precision: 'year', marker };
+  }
+  return null;
+};
+
+// The first, middle or last third of a decade or century
+const narrowToPart = (start: number, end: number, part: DatePart): [number, number] => {
+  const third = Math.floor((end - start + 1) / 3);
+  if (part === 'early') return [start, start + third - 1];
+  if (part === 'late') return [end - third + 1, end];
+  return [start + third, end - third];
+};
+
+/**
+ * Parses the year field. Returns null for empty or unreadable input.
+ */
+export const parseHistoricalDate = (input: string): HistoricalDate | null => {
+  let text = (input || '').trim().toLowerCase()
+    .replace(/[−]/g, '-') // minus sign
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/\s*[–—]\s*/g, ' - ')
+    .replace(/(\S)\s*[~～]\s*(?=\S)/g, '$1 - ') // ranges as written in ko/ja; a leading ~ still means "about"
+    .replace(/(\d)-(\d)/g, '$1 - $2');
+  if (!text) return null;
+
+  const approximate = APPROXIMATE_PATTERN.test(text);
+  text = text.replace(APPROXIMATE_PATTERN, '').replace(/^between\s+/, '').trim();
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const to = parseTerm(range[2]);
+    // "500 to 300 BC": the era written once applies to both ends
+    const from = to ? parseTerm(range[1], to.marker === 'bc' ? 'bc' : null) : null;
+    if (!from || !to) return null;
+    return {
+      start: Math.min(from.start, to.start),
+      end: Math.max(from.end, to.end),
+      precision: 'range',
+      approximate,
+    };
+  }
+
+  let part: DatePart | undefined;
+  for (const [pattern, name] of PART_PATTERNS) {
+    if (pattern.test(text)) {
+      part = name;
+      text = text.replace(pattern, '').trim();
+      break;
+    }
+  }
+
+  const term = parseTerm(text);
+  if (!term) return null;
+  if (part && term.precision === 'year') return null;
+  const [start, end] = part ? narrowToPart(term.start, term.end, part) : [term.start, term.end];
+  return { start, end, precision: term.precision, part, approximate };
+};
+
+/**
+ * The single year a date stands for (its midpoint), signed the way the rest of
+ * the app counts: negative for B.C., never 0.
+ */
+export const representativeYear = (date: HistoricalDate): number => {
+  const mid = Math.round((date.start + date.end) / 2);
+  return mid <= 0 ? mid - 1 : mid;
+};
+
+export const eraForDate = (date: HistoricalDate): TimeEra => {
+  const currentYear = new Date().getFullYear();
+  if (date.end < currentYear) return TimeEra.PAST;
+  if (date.start > currentYear) return TimeEra.FUTURE;
+  return TimeEra.PRESENT;
+};
+
+// Conveniences for callers holding the raw field text
+export const yearFromText = (text: string): number | undefined => {
+  const date = parseHistoricalDate(text);
+  return date ? representativeYear(date) : undefined;
+};
+
+/**
+ * The era implied by the year field: Present when it is empty,
+ * `fallback` while the text can't be read (e.g. half typed).
+ */
+export const eraFromText = (text: string, fallback: TimeEra = TimeEra.PRESENT): TimeEra => {
+  if (!text || !text.trim()) return TimeEra.PRESENT;
+  const date = parseHistoricalDate(text);
+  return date ? eraForDate(date) : fallback;
+};
+
+const ordinal = (n: number) => {
+  const tens = n % 100;
+  const suffix = tens >= 11 && tens <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const roman = (n: number) => {
+  const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+};
+
+// One astronomical year as written in `locale`, e.g. "500 BCE", "기원전 500년"
+export const formatAstronomicalYear = (year: number, locale: Locale = DEFAULT_LOCALE) =>
+  translate(locale, year <= 0 ? 'year.bc' : 'year.ad', { year: year <= 0 ? 1 - year : year });
+
+/**
+ * A date as shown in the UI, e.g. "mid-16th century", "1920년대", "紀元前3世紀", "c. 1500 CE".
+ */
+export const formatHistoricalDate = (date: HistoricalDate, locale: Locale = DEFAULT_LOCALE): string => {
+  const mid = Math.round((date.start + date.end) / 2);
+  const isBc = mid <= 0;
+  let text: string;
+  switch (date.precision) {
+    case 'decade': {
+      const decade = Math.floor((isBc ? 1 - mid : mid) / 10) * 10;
+      text = translate(locale, isBc ? 'date.decadeBc' : 'date.decade', { decade });
+      break;
+    }
+    case 'century': {
+      const n = Math.ceil((isBc ? 1 - mid : mid) / 100);
+      text = translate(locale, isBc ? 'date.centuryBc' : 'date.century', { n, ordinal: ordinal(n), roman: roman(n) });
+      break;
+    }
+    case 'range':
+      text = translate(locale, 'date.range', { from: formatAstronomicalYear(date.start, locale), to: formatAstronomicalYear(date.end, locale) });
+      break;
+    default:
+      text = formatAstronomicalYear(date.start, locale);
+  }
+  if (date.part) text = translate(locale, `date.${date.part}` as MessageKey, { date: text });
+  if (date.approximate) text = translate(locale, 'date.approx', { date: text });
+  return text;
+};
+
+/**
+ * English wording for prompts, keeping the precision the user gave:
+ * "the year 1889 CE", "the mid-16th century (1534–1567 CE)", "roughly the 1920s (1920–1929 CE)".
+ */
+export const describeDateForPrompt = (date: HistoricalDate): string => {
+  const label = formatHistoricalDate({ ...date, approximate: false }, 'en');
+  const span = `${formatAstronomicalYear(date.start, 'en')}–${formatAstronomicalYear(date.end, 'en')}`;
+  let phrase: string;
+  switch (date.precision) {
+    case 'year':
+      return date.approximate ? `around ${label}` : `the year ${label}`;
+    case 'range':
+      phrase = `the years ${span}`;
+      break;
+    default:
+      phrase = `the ${label} (${span})`;
+  }
+  return date.approximate ? `roughly ${phrase}` : phrase;
+};
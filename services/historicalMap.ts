@@ -0,0 +1,117 @@
+import { TimeEra } from "../types";
+import { yearFromText } from "./historicalDate";
+
+export type BasemapId = 'modern' | 'historical' | 'ancient' | 'future';
+
+export interface Basemap {
+  id: BasemapId;
+  label: string;
+  url: string;
+  attribution: string;
+  maxZoom?: number;
+  className?: string; // CSS filter hook, see index.html
+}
+
+const CARTO_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>';
+
+export const BASEMAPS: Record<BasemapId, Basemap> = {
+  modern: {
+    id: 'modern',
+    label: 'Modern streets',
+    url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png',
+    attribution: CARTO_ATTRIBUTION,
+  },
+  historical: {
+    id: 'historical',
+    label: 'Historical map (no modern labels)',
+    url: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager_nolabels/{z}/{x}/{y}{r}.png',
+    attribution: CARTO_ATTRIBUTION,
+    className: 'basemap-sepia',
+  },
+  ancient: {
+    id: 'ancient',
+    label: 'Natural relief',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Shaded_Relief/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri',
+    maxZoom: 13,
+  },
+  future: {
+    id: 'future',
+    label: 'Future (night mode)',
+    url: 'https://{s}.basemaps.cartocdn.com/rastertiles/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: CARTO_ATTRIBUTION,
+  },
+};
+
+// Before this year there are no streets worth drawing: show the land itself
+const ANCIENT_BEFORE_YEAR = 500;
+// From here on modern street maps are a fair approximation
+const MODERN_FROM_YEAR = 1950;
+
+/**
+ * The year the map should depict for the current scene settings.
+ */
+export const getMapYear = (era: TimeEra, year: string): number => {
+  const parsed = yearFromText(year);
+  if (era !== TimeEra.PRESENT && parsed !== undefined) return parsed;
+  return new Date().getFullYear();
+};
+
+export const selectBasemap = (era: TimeEra, year: number): Basemap => {
+  if (era === TimeEra.FUTURE) return BASEMAPS.future;
+  if (year < ANCIENT_BEFORE_YEAR) return BASEMAPS.ancient;
+  if (year < MODERN_FROM_YEAR) return BASEMAPS.historical;
+  return BASEMAPS.modern;
+};
+
+export interface OverlayInfo {
+  id: string;
+  name: string;
+  file: string;
+  startYear: number;
+  endYear: number;
+  kind: 'border' | 'city';
+  color: string;
+}
+
+interface OverlayManifest {
+  version: number;
+  overlays: OverlayInfo[];
+}
+
+// Served from public/overlays so they are bundled with the app and work offline
+const OVERLAY_BASE_URL = './overlays/';
+
+let manifestPromise: Promise<OverlayInfo[]> | null = null;
+const geoJsonCache = new Map<string, Promise<any>>();
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load ${url} (${response.status})`);
+  return response.json();
+};
+
+export const loadOverlayManifest = (): Promise<OverlayInfo[]> => {
+  if (!manifestPromise) {
+    manifestPromise = fetchJson(`${OVERLAY_BASE_URL}manifest.json`)
+      .then((manifest: OverlayManifest) => manifest.overlays)
+      .catch(error => {
+        manifestPromise = null;
+        throw error;
+      });
+  }
+  return manifestPromise;
+};
+
+export const loadOverlayGeoJson = (overlay: OverlayInfo): Promise<any> => {
+  let cached = geoJsonCache.get(overlay.id);
+  if (!cached) {
+    cached = fetchJson(`${OVERLAY_BASE_URL}${overlay.file}`);
+    cached.catch(() => geoJsonCache.delete(overlay.id));
+    geoJsonCache.set(overlay.id, cached);
+  }
+  return cached;
+};
+
+export const overlaysForYear = (overlays: OverlayInfo[], year: number) =>
+  overlays.filter(o => year >= o.startYear && year <= o.endYear);
@@ -0,0 +1,82 @@
+import { en } from "../locales/en";
+import { ko } from "../locales/ko";
+import { es } from "../locales/es";
+import { ja } from "../locales/ja";
+
+/**
+ * UI languages and message lookup. Catalogs live in /locales, one file per language;
+ * English is the reference and the fallback for anything missing at runtime.
+ */
+
+export type Locale = 'en' | 'ko' | 'es' | 'ja';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export interface LocaleInfo {
+  id: Locale;
+  label: string; // in the language itself, for the switcher
+  englishName: string; // used in prompts, e.g. "reply in Korean"
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', label: 'English', englishName: 'English' },
+  { id: 'ko', label: '한국어', englishName: 'Korean' },
+  { id: 'es', label: 'Español', englishName: 'Spanish' },
+  { id: 'ja', label: '日本語', englishName: 'Japanese' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, ko, es, ja };
+
+const STORAGE_KEY = 'chronotravel_locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+/**
+ * The saved choice if there is one, otherwise the first browser language we support.
+ */
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    console.error("Failed to read saved locale", e);
+  }
+  const preferred = typeof navigator !== 'undefined' ? (navigator.languages?.length ? navigator.languages : [navigator.language]) : [];
+  for (const tag of preferred) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.error("Failed to save locale", e);
+  }
+};
+
+export const localeInfo = (locale: Locale): LocaleInfo => LOCALES.find(l => l.id === locale) || LOCALES[0];
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Looks up `key` and fills its `{name}` placeholders. Unknown placeholders are left as written.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const template = CATALOGS[locale]?.[key] ?? en[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+/**
+ * Plural-aware lookup for keys with `_one`/`_other` forms, e.g. translatePlural(locale, 'sidebar.generateShots', 3).
+ * `count` is also passed as the {count} placeholder.
+ */
+export const translatePlural = (locale: Locale, key: string, count: number, params: MessageParams = {}): string => {
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? 'one' : 'other';
+  return translate(locale, `${key}_${form}` as MessageKey, { count, ...params });
+};
@@ -0,0 +1,70 @@
+import { ImageVersion, ReferenceImage, SavedShot, ShotRun } from "../types";
+import { blobToBase64 } from "./geminiService";
+
+/**
+ * Helpers for follow-up edits. Versions form a tree through `parentId`:
+ * editing an older version branches instead of discarding the newer ones.
+ */
+
+// The original generation, before any edit
+export const rootVersion = (run: ShotRun): ImageVersion => ({
+  id: run.savedShotId || run.shot.id,
+  parentId: null,
+  instruction: null,
+  imageUrl: run.imageUrl || '',
+  prompt: run.prompt || '',
+  createdAt: 0,
+});
+
+export const versionsOf = (run: ShotRun): ImageVersion[] =>
+  run.versions && run.versions.length > 0 ? run.versions : [rootVersion(run)];
+
+/**
+ * The chain from the root to `versionId`, following parent links.
+ */
+export const lineage = (versions: ImageVersion[], versionId: string): ImageVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const chain: ImageVersion[] = [];
+  for (let v = byId.get(versionId); v && !chain.includes(v); v = v.parentId ? byId.get(v.parentId) : undefined) {
+    chain.unshift(v);
+  }
+  return chain;
+};
+
+// Instructions already baked into a version, oldest first
+export const instructionsFor = (versions: ImageVersion[], versionId: string): string[] =>
+  lineage(versions, versionId).map(v => v.instruction).filter(Boolean);
+
+export const savedShotToVersion = (shot: SavedShot): ImageVersion => ({
+  id: shot.id,
+  parentId: shot.parentId || null,
+  instruction: shot.editInstruction || null,
+  imageUrl: shot.imageUrl,
+  prompt: shot.prompt,
+  createdAt: shot.createdAt,
+});
+
+/**
+ * Rebuilds the edit tree below `root` from gallery entries (edits of edits included).
+ * Returns an empty list when the shot was never edited.
+ */
+export const versionsFromGallery = (root: SavedShot, shots: SavedShot[]): ImageVersion[] => {
+  const included = new Set([root.id]);
+  const edits: SavedShot[] = [];
+  // Entries are sorted oldest first, so a parent is always seen before its edits
+  for (const shot of shots) {
+    if (shot.parentId && included.has(shot.parentId)) {
+      included.add(shot.id);
+      edits.push(shot);
+    }
+  }
+  return edits.length > 0 ? [savedShotToVersion(root), ...edits.map(savedShotToVersion)] : [];
+};
+
+/**
+ * Loads a displayed image (data, blob or http URL) as model input.
+ */
+export const imageUrlToReference = async (url: string): Promise<ReferenceImage> => {
+  const blob = await (await fetch(url)).blob();
+  return { data: await blobToBase64(blob), mimeType: blob.type || 'image/png' };
+};
@@ -0,0 +1,201 @@
+export interface PreprocessOptions {
+  maxDimension: number;
+  cropToFace: boolean;
+  outputType: 'image/jpeg' | 'image/png';
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1024,
+  cropToFace: true,
+  outputType: 'image/jpeg',
+  quality: 0.9,
+};
+
+export const MAX_DIMENSION_CHOICES = [512, 768, 1024, 1536];
+
+/**
+ * What the pipeline did to one upload, for display next to the preview.
+ */
+export interface PreprocessReport {
+  originalType: string;
+  originalBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  bytes: number;
+  orientation: number; // EXIF orientation tag, 1 = upright
+  faceDetected: boolean;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  report: PreprocessReport;
+}
+
+// How much context to keep around a detected face, as a multiple of its size
+const FACE_CROP_SCALE = 2.5;
+
+/**
+ * Reads the EXIF orientation tag (0x0112) from a JPEG. Returns 1 when absent.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  // EXIF lives in APP1 near the start of the file
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const isHeic = (file: File) => /heic|heif/i.test(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+/**
+ * Converts HEIC/HEIF (iPhone photos) to PNG for browsers without a native decoder.
+ * The decoder is large, so it is only loaded the first time it is needed.
+ */
+const convertHeic = async (file: File): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/png' });
+  // Image sequences (bursts, live photos) come back as several frames; keep the first
+  return Array.isArray(result) ? result[0] : result;
+};
+
+/**
+ * Decodes with the browser's native codecs, baking EXIF orientation into the pixels.
+ * HEIC falls back to a bundled decoder where the browser has none.
+ */
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    if (!isHeic(file)) throw new Error(`Unsupported or corrupt image: ${file.name}`);
+  }
+  try {
+    return await createImageBitmap(await convertHeic(file), { imageOrientation: 'from-image' });
+  } catch (e) {
+    console.warn("HEIC conversion failed", e);
+    throw new Error(`Could not convert the HEIC photo ${file.name}. Export it as JPEG or PNG first.`);
+  }
+};
+
+const detectFace = async (bitmap: ImageBitmap): Promise<{ x: number; y: number; width: number; height: number } | null> => {
+  // Shape Detection API; only some Chromium builds ship it
+  const FaceDetectorCtor = (window as any).FaceDetector;
+  if (!FaceDetectorCtor) return null;
+  try {
+    const faces = await new FaceDetectorCtor({ fastMode: true, maxDetectedFaces: 1 }).detect(bitmap);
+    return faces[0]?.boundingBox ?? null;
+  } catch (e) {
+    console.warn("Face detection failed, using center crop", e);
+    return null;
+  }
+};
+
+/**
+ * Square crop around the face, or a centered crop biased towards the top of
+ * portrait photos (where faces usually are) when no face is found.
+ */
+const computeCrop = (
+  width: number,
+  height: number,
+  face: { x: number; y: number; width: number; height: number } | null
+) => {
+  const maxSide = Math.min(width, height);
+  const side = face ? Math.min(maxSide, Math.max(face.width, face.height) * FACE_CROP_SCALE) : maxSide;
+  const cx = face ? face.x + face.width / 2 : width / 2;
+  const cy = face ? face.y + face.height / 2 : height > width ? height * 0.4 : height / 2;
+  const clamp = (v: number, max: number) => Math.min(Math.max(v, 0), max);
+  return {
+    sx: clamp(cx - side / 2, width - side),
+    sy: clamp(cy - side / 2, height - side),
+    side,
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image")), type, quality);
+  });
+
+/**
+ * Prepares an upload for the API: applies EXIF orientation, optionally crops
+ * around the face, downscales, and re-encodes. Re-encoding through a canvas
+ * drops all metadata, including EXIF GPS.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessedImage> => {
+  const orientation = await readExifOrientation(file).catch(() => 1);
+  const bitmap = await decodeImage(file);
+
+  try {
+    const face = options.cropToFace ? await detectFace(bitmap) : null;
+    const crop = options.cropToFace
+      ? computeCrop(bitmap.width, bitmap.height, face)
+      : null;
+
+    const srcX = crop?.sx ?? 0;
+    const srcY = crop?.sy ?? 0;
+    const srcW = crop?.side ?? bitmap.width;
+    const srcH = crop?.side ?? bitmap.height;
+    const scale = Math.min(1, options.maxDimension / Math.max(srcW, srcH));
+    const width = Math.round(srcW * scale);
+    const height = Math.round(srcH * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available");
+    if (options.outputType === 'image/jpeg') {
+      // JPEG has no alpha: flatten transparent uploads onto white
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, srcX, srcY, srcW, srcH, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, options.outputType, options.quality);
+    const extension = options.outputType === 'image/png' ? 'png' : 'jpg';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+
+    return {
+      file: new File([blob], `${baseName}.${extension}`, { type: options.outputType }),
+      report: {
+        originalType: file.type || 'unknown',
+        originalBytes: file.size,
+        originalWidth: bitmap.width,
+        originalHeight: bitmap.height,
+        width,
+        height,
+        bytes: blob.size,
+        orientation,
+        faceDetected: face !== null,
+      },
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,70 @@
+import { Coordinates, SceneSettings, TripStop } from "../types";
+import { DEFAULT_LOCALE, Locale } from "./i18n";
+import { formatYearDisplay } from "./years";
+
+/**
+ * The trip planner's stops, kept in localStorage so a planned route survives reloads.
+ * Only the plan is stored; generated images live in the gallery.
+ */
+
+const STORAGE_KEY = 'chronotravel_itinerary';
+const ITINERARY_VERSION = 1;
+
+export const MAX_TRIP_STOPS = 10;
+
+let stopCounter = 0;
+
+export const formatCoords = (coords: Coordinates) => `${coords.lat.toFixed(3)}, ${coords.lng.toFixed(3)}`;
+
+/**
+ * A new stop at `coords`, starting from the current scene's era, year and style.
+ */
+export const createTripStop = (coords: Coordinates, settings: Pick<SceneSettings, 'era' | 'year' | 'style'>, label?: string): TripStop => ({
+  id: `stop-${Date.now().toString(36)}-${stopCounter++}`,
+  coords,
+  label: label || formatCoords(coords),
+  era: settings.era,
+  year: settings.year,
+  style: settings.style,
+});
+
+// Used by drag and drop: the stop at `from` ends up at index `to`
+export const moveStop = (stops: TripStop[], from: number, to: number): TripStop[] => {
+  if (from === to || from < 0 || from >= stops.length || to < 0 || to >= stops.length) return stops;
+  const next = [...stops];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// e.g. "Rome 100 A.D."
+export const describeStop = (stop: Pick<TripStop, 'label' | 'year'>, locale: Locale = DEFAULT_LOCALE) =>
+  stop.year ? `${stop.label} ${formatYearDisplay(stop.year, locale)}` : stop.label;
+
+// e.g. "Rome 100 A.D. → Paris 1889 A.D. → Tokyo 2077 A.D."
+export const describeTrip = (stops: Pick<TripStop, 'label' | 'year'>[], locale: Locale = DEFAULT_LOCALE) =>
+  stops.map(stop => describeStop(stop, locale)).join(' → ');
+
+export const loadItinerary = (): TripStop[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data = JSON.parse(raw);
+    if (data?.version !== ITINERARY_VERSION || !Array.isArray(data.stops)) {
+      console.warn("Ignoring itinerary with unknown version", data?.version);
+      return [];
+    }
+    return data.stops;
+  } catch (e) {
+    console.error("Failed to load itinerary", e);
+    return [];
+  }
+};
+
+export const saveItinerary = (stops: TripStop[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: ITINERARY_VERSION, stops }));
+  } catch (e) {
+    console.error("Failed to save itinerary", e);
+  }
+};
@@ -0,0 +1,205 @@
+/**
+ * Passphrase-encrypted API key storage.
+ *
+ * Keys are encrypted with AES-GCM under a key derived from the passphrase
+ * (PBKDF2-SHA256). Only ciphertext reaches localStorage; the derived key and
+ * decrypted API keys live in memory for the session.
+ */
+
+export const KEY_VAULT_VERSION = 1;
+
+const STORAGE_KEY = 'chronotravel_key_vault';
+// Plaintext key written by older versions; migrated into the vault on creation
+export const LEGACY_KEY_STORAGE = 'gemini_api_key';
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'chronotravel-key-vault';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface StoredProfile {
+  id: string;
+  name: string;
+  key: EncryptedValue;
+  createdAt: number;
+}
+
+interface StoredVault {
+  version: number;
+  salt: string;
+  iterations: number;
+  verifier: EncryptedValue;
+  profiles: StoredProfile[];
+  activeProfileId: string | null;
+}
+
+export interface KeyProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  maskedKey: string; // e.g. "AIza…x9Q"
+}
+
+/**
+ * An unlocked vault. Every change is written back to localStorage immediately.
+ */
+export interface KeyVault {
+  listProfiles: () => KeyProfile[];
+  getActiveProfile: () => KeyProfile | null;
+  getKey: (profileId: string) => string | null;
+  addProfile: (name: string, apiKey: string) => Promise<KeyProfile>;
+  removeProfile: (profileId: string) => void;
+  setActiveProfile: (profileId: string) => void;
+}
+
+export type UnlockResult =
+  | { kind: 'unlocked'; vault: KeyVault }
+  | { kind: 'wrong_passphrase' };
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const maskKey = (apiKey: string) =>
+  apiKey.length <= 8 ? '••••' : `${apiKey.slice(0, 4)}…${apiKey.slice(-3)}`;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return new TextDecoder().decode(data);
+};
+
+const readStoredVault = (): StoredVault | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    if (data?.version !== KEY_VAULT_VERSION) {
+      console.warn("Ignoring key vault with unknown version", data?.version);
+      return null;
+    }
+    return data as StoredVault;
+  } catch (e) {
+    console.error("Failed to read key vault", e);
+    return null;
+  }
+};
+
+const writeStoredVault = (vault: StoredVault) => localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+
+export const hasKeyVault = () => readStoredVault() !== null;
+
+export const deleteKeyVault = () => localStorage.removeItem(STORAGE_KEY);
+
+export const createProfileId = () => `key-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const openVault = (stored: StoredVault, cryptoKey: CryptoKey, keys: Map<string, string>): KeyVault => {
+  const toProfile = (p: StoredProfile): KeyProfile => ({
+    id: p.id,
+    name: p.name,
+    createdAt: p.createdAt,
+    maskedKey: maskKey(keys.get(p.id) || ''),
+  });
+
+  return {
+    listProfiles: () => stored.profiles.map(toProfile),
+    getActiveProfile: () => {
+      const active = stored.profiles.find(p => p.id === stored.activeProfileId);
+      return active ? toProfile(active) : null;
+    },
+    getKey: (profileId) => keys.get(profileId) || null,
+    addProfile: async (name, apiKey) => {
+      const profile: StoredProfile = {
+        id: createProfileId(),
+        name: name.trim() || `Key ${stored.profiles.length + 1}`,
+        key: await encrypt(cryptoKey, apiKey),
+        createdAt: Date.now(),
+      };
+      keys.set(profile.id, apiKey);
+      stored.profiles.push(profile);
+      stored.activeProfileId = profile.id;
+      writeStoredVault(stored);
+      return toProfile(profile);
+    },
+    removeProfile: (profileId) => {
+      stored.profiles = stored.profiles.filter(p => p.id !== profileId);
+      keys.delete(profileId);
+      if (stored.activeProfileId === profileId) stored.activeProfileId = stored.profiles[0]?.id || null;
+      writeStoredVault(stored);
+    },
+    setActiveProfile: (profileId) => {
+      if (!stored.profiles.some(p => p.id === profileId)) return;
+      stored.activeProfileId = profileId;
+      writeStoredVault(stored);
+    },
+  };
+};
+
+/**
+ * Creates an empty vault protected by `passphrase`, replacing any existing one.
+ */
+export const createKeyVault = async (passphrase: string): Promise<KeyVault> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cryptoKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const stored: StoredVault = {
+    version: KEY_VAULT_VERSION,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encrypt(cryptoKey, VERIFIER_TEXT),
+    profiles: [],
+    activeProfileId: null,
+  };
+  writeStoredVault(stored);
+  return openVault(stored, cryptoKey, new Map());
+};
+
+/**
+ * Decrypts the stored vault. A wrong passphrase fails the AES-GCM tag check.
+ */
+export const unlockKeyVault = async (passphrase: string): Promise<UnlockResult> => {
+  const stored = readStoredVault();
+  if (!stored) throw new Error("No key vault to unlock");
+
+  const cryptoKey = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+  try {
+    if (await decrypt(cryptoKey, stored.verifier) !== VERIFIER_TEXT) return { kind: 'wrong_passphrase' };
+  } catch (e) {
+    return { kind: 'wrong_passphrase' };
+  }
+
+  const keys = new Map<string, string>();
+  for (const profile of stored.profiles) {
+    keys.set(profile.id, await decrypt(cryptoKey, profile.key));
+  }
+  return { kind: 'unlocked', vault: openVault(stored, cryptoKey, keys) };
+};
+
+/**
+ * The plaintext key left by older versions, if any.
+ */
+export const readLegacyKey = (): string | null => localStorage.getItem(LEGACY_KEY_STORAGE);
+
+export const clearLegacyKey = () => localStorage.removeItem(LEGACY_KEY_STORAGE);
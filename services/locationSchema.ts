@@ -0,0 +1,165 @@
+import { LocationAnalysisResult, LocationContext, PointOfInterest } from "../types";
+
+// Latitudes this far past a pole are treated as rounding noise and clamped
+const LAT_CLAMP_TOLERANCE = 1;
+
+export type SchemaResult<T> =
+  | { kind: 'valid'; value: T; warnings: string[] }
+  | { kind: 'invalid'; issues: string[] };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Pulls the first complete JSON object out of a model reply.
+ * Tolerates markdown fences and prose before or after the object.
+ */
+export const extractJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') inString = true;
+    else if (c === '{') depth++;
+    else if (c === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+};
+
+/**
+ * Validates one POI. Latitudes slightly past a pole are clamped and longitudes
+ * are wrapped into [-180, 180]; anything further off is rejected.
+ */
+export const validatePointOfInterest = (raw: unknown, path: string): SchemaResult<PointOfInterest> => {
+  if (!isRecord(raw)) return { kind: 'invalid', issues: [`${path} must be an object`] };
+
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  const { name, lat, lng } = raw;
+
+  if (!isNonEmptyString(name)) issues.push(`${path}.name must be a non-empty string`);
+  if (typeof lat !== 'number' || !Number.isFinite(lat)) issues.push(`${path}.lat must be a number`);
+  if (typeof lng !== 'number' || !Number.isFinite(lng)) issues.push(`${path}.lng must be a number`);
+  if (issues.length > 0) return { kind: 'invalid', issues };
+
+  let safeLat = lat as number;
+  let safeLng = lng as number;
+
+  if (Math.abs(safeLat) > 90) {
+    if (Math.abs(safeLat) > 90 + LAT_CLAMP_TOLERANCE) {
+      return { kind: 'invalid', issues: [`${path}.lat ${safeLat} is outside [-90, 90]`] };
+    }
+    warnings.push(`${path}.lat ${safeLat} clamped to ${Math.sign(safeLat) * 90}`);
+    safeLat = Math.sign(safeLat) * 90;
+  }
+
+  if (Math.abs(safeLng) > 180) {
+    if (Math.abs(safeLng) > 360) {
+      return { kind: 'invalid', issues: [`${path}.lng ${safeLng} is outside [-360, 360]`] };
+    }
+    const wrapped = ((((safeLng + 180) % 360) + 360) % 360) - 180;
+    warnings.push(`${path}.lng ${safeLng} wrapped to ${wrapped}`);
+    safeLng = wrapped;
+  }
+
+  return { kind: 'valid', value: { name: (name as string).trim(), lat: safeLat, lng: safeLng }, warnings };
+};
+
+/**
+ * Runtime check for a parsed analyzeLocation reply.
+ * Unknown extra keys are dropped; invalid POIs are dropped with a warning
+ * so one bad landmark does not fail the whole analysis.
+ */
+export const validateLocationContext = (raw: unknown): SchemaResult<LocationContext> => {
+  if (!isRecord(raw)) return { kind: 'invalid', issues: ['Response must be a JSON object'] };
+
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isNonEmptyString(raw.name)) issues.push('name must be a non-empty string');
+  if (!isNonEmptyString(raw.description)) issues.push('description must be a non-empty string');
+  if (!isNonEmptyString(raw.clothingRecommendation)) issues.push('clothingRecommendation must be a non-empty string');
+
+  const weather = raw.weather;
+  if (!isRecord(weather)) {
+    issues.push('weather must be an object with temp and condition');
+  } else {
+    if (!isNonEmptyString(weather.temp)) issues.push('weather.temp must be a non-empty string');
+    if (!isNonEmptyString(weather.condition)) issues.push('weather.condition must be a non-empty string');
+  }
+
+  if (raw.isVague !== undefined && typeof raw.isVague !== 'boolean') {
+    issues.push('isVague must be a boolean');
+  }
+
+  const pois: PointOfInterest[] = [];
+  if (raw.nearbyPOIs !== undefined && raw.nearbyPOIs !== null) {
+    if (!Array.isArray(raw.nearbyPOIs)) {
+      issues.push('nearbyPOIs must be an array');
+    } else {
+      raw.nearbyPOIs.forEach((item, index) => {
+        const result = validatePointOfInterest(item, `nearbyPOIs[${index}]`);
+        if (result.kind === 'valid') {
+          pois.push(result.value);
+          warnings.push(...result.warnings);
+        } else {
+          warnings.push(...result.issues.map(issue => `Dropped ${issue}`));
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) return { kind: 'invalid', issues };
+
+  const w = weather as Record<string, string>;
+  const context: LocationContext = {
+    name: (raw.name as string).trim(),
+    description: (raw.description as string).trim(),
+    weather: { temp: w.temp.trim(), condition: w.condition.trim() },
+    clothingRecommendation: (raw.clothingRecommendation as string).trim(),
+    isVague: (raw.isVague as boolean | undefined) ?? false,
+  };
+  if (pois.length > 0) context.nearbyPOIs = pois;
+
+  return { kind: 'valid', value: context, warnings };
+};
+
+/**
+ * Turns a raw model reply into a typed analysis result.
+ */
+export const parseLocationResponse = (text: string | undefined): LocationAnalysisResult => {
+  if (!text || !text.trim()) {
+    return { kind: 'failure', error: { kind: 'no_response', message: 'The model returned an empty response.', issues: [] } };
+  }
+
+  const json = extractJsonObject(text);
+  if (!json) {
+    return { kind: 'failure', error: { kind: 'parse_failed', message: 'The response did not contain a JSON object.', issues: [] } };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    return { kind: 'failure', error: { kind: 'parse_failed', message: 'The response contained malformed JSON.', issues: [e.message] } };
+  }
+
+  const result = validateLocationContext(parsed);
+  if (result.kind === 'invalid') {
+    return { kind: 'failure', error: { kind: 'invalid_schema', message: 'The location data was incomplete or had the wrong shape.', issues: result.issues } };
+  }
+  return { kind: 'success', context: result.value, warnings: result.warnings };
+};
@@ -0,0 +1,225 @@
+import { GeneratedImageResult, LocationAnalysisResult, LocationContext, PlausibilityResult, PlausibilityVerdict } from "../types";
+import type { AIProvider, ImageEditRequest, PlausibilityRequest, TravelPhotoRequest } from "./aiProvider";
+import { abortableWait } from "./generationQueue";
+import { DEFAULT_PROMPT_PRESET, renderEditPrompt, renderPhotoPrompt } from "./promptPresets";
+import { DEFAULT_STYLE } from "./styleCatalog";
+import { formatAstronomicalYear, formatHistoricalDate, parseHistoricalDate } from "./historicalDate";
+import { distanceKm } from "./geo";
+
+// Canned places the mock "recognizes". Anything further than MATCH_RADIUS_KM
+// from all of them is reported as a vague location with these as nearby POIs.
+// `built` drives the plausibility check (astronomical year).
+const CANNED_PLACES: (LocationContext & { lat: number; lng: number; built: { year: number; what: string } })[] = [
+  {
+    lat: 41.8902,
+    lng: 12.4922,
+    name: "Colosseum, Rome",
+    description: "The Flavian Amphitheatre was completed in 80 A.D. and could hold around 50,000 spectators.",
+    weather: { temp: "24°C", condition: "Sunny" },
+    clothingRecommendation: "Light linen shirt, sun hat and comfortable walking shoes.",
+    isVague: false,
+    built: { year: 70, what: "The Colosseum" },
+  },
+  {
+    lat: 48.8584,
+    lng: 2.2945,
+    name: "Eiffel Tower, Paris",
+    description: "Built for the 1889 World's Fair, it was the tallest man-made structure in the world for 41 years.",
+    weather: { temp: "16°C", condition: "Partly Cloudy" },
+    clothingRecommendation: "Light jacket and jeans.",
+    isVague: false,
+    built: { year: 1887, what: "The Eiffel Tower" },
+  },
+  {
+    lat: 35.6595,
+    lng: 139.7005,
+    name: "Shibuya Crossing, Tokyo",
+    description: "One of the busiest pedestrian crossings in the world, with up to 3,000 people crossing at once.",
+    weather: { temp: "20°C", condition: "Clear" },
+    clothingRecommendation: "Layered casual wear with a light coat.",
+    isVague: false,
+    built: { year: 1885, what: "Shibuya Station" },
+  },
+  {
+    lat: -13.1631,
+    lng: -72.545,
+    name: "Machu Picchu",
+    description: "This 15th-century Inca citadel sits on a ridge 2,430 metres above sea level.",
+    weather: { temp: "18°C", condition: "Misty" },
+    clothingRecommendation: "Hiking boots, rain jacket and layers.",
+    isVague: false,
+    built: { year: 1450, what: "The Inca citadel" },
+  },
+];
+
+const MATCH_RADIUS_KM = 50;
+// Fake render time so progress and cancellation can be exercised offline
+const MOCK_RENDER_MS = 600;
+
+// Small string hash (FNV-1a) so the same request always yields the same placeholder.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+const nearestPlace = (lat: number, lng: number) => [...CANNED_PLACES].sort(
+  (a, b) => distanceKm(lat, lng, a.lat, a.lng) - distanceKm(lat, lng, b.lat, b.lng)
+)[0];
+
+const analyzeLocation = async (lat: number, lng: number): Promise<LocationAnalysisResult> => {
+  const nearest = nearestPlace(lat, lng);
+
+  if (distanceKm(lat, lng, nearest.lat, nearest.lng) <= MATCH_RADIUS_KM) {
+    const { lat: _lat, lng: _lng, built: _built, ...context } = nearest;
+    return { kind: 'success', context: JSON.parse(JSON.stringify(context)) as LocationContext, warnings: [] };
+  }
+
+  const context: LocationContext = {
+    name: `Unnamed spot (${lat.toFixed(2)}, ${lng.toFixed(2)})`,
+    description: "A quiet, unremarkable place. The mock provider only knows a handful of landmarks.",
+    weather: { temp: "22°C", condition: "Sunny" },
+    clothingRecommendation: "Casual wear",
+    isVague: true,
+    nearbyPOIs: CANNED_PLACES.slice(0, 3).map(({ name, lat, lng }) => ({ name, lat, lng })),
+  };
+  return { kind: 'success', context, warnings: [] };
+};
+
+// Compares the date with when the canned landmark was built; other spots only get era-wide notes
+const checkPlausibility = async (request: PlausibilityRequest): Promise<PlausibilityResult> => {
+  const date = parseHistoricalDate(request.year);
+  if (!date) {
+    return { kind: 'failure', error: { kind: 'parse_failed', message: `Could not read the date "${request.year}".`, issues: [] } };
+  }
+  const nearest = nearestPlace(request.lat, request.lng);
+  const place = distanceKm(request.lat, request.lng, nearest.lat, nearest.lng) <= MATCH_RADIUS_KM ? nearest : null;
+  const isFuture = date.start > new Date().getFullYear();
+
+  let verdict: PlausibilityVerdict = 'plausible';
+  const structures: string[] = [];
+  const anachronisms: string[] = [];
+  if (place) {
+    const built = formatAstronomicalYear(place.built.year);
+    if (date.end < place.built.year) {
+      verdict = 'implausible';
+      anachronisms.push(`${place.built.what} (not built until ${built})`);
+    } else if (date.start < place.built.year) {
+      verdict = 'questionable';
+      anachronisms.push(`${place.built.what} before ${built}`);
+    } else {
+      structures.push(place.built.what);
+    }
+  }
+  if (date.end <= 0) anachronisms.push("Paved roads, glass windows and modern clothing");
+
+  return {
+    kind: 'success',
+    report: {
+      verdict,
+      summary: `Mock report for ${request.context.name} in ${formatHistoricalDate(date)}.`,
+      settlement: place ? `${place.name} as the mock provider knows it.` : "Unknown to the mock provider.",
+      landscape: "As today; the mock provider has no historical landscapes.",
+      structures,
+      anachronisms,
+      suggestedElements: isFuture
+        ? ["Grounded sci-fi architecture"]
+        : date.end <= 0 ? ["Natural landscape", "Simple dwellings"] : ["Period clothing", "Period vehicles"],
+    },
+    warnings: [],
+  };
+};
+
+interface PlaceholderOptions {
+  hue: number;
+  aspectRatio: string;
+  title: string;
+  caption: string;
+  subtitle: string;
+}
+
+const renderPlaceholder = ({ hue, aspectRatio, title, caption, subtitle }: PlaceholderOptions): string => {
+  // Grow the canvas around the 512x512 artwork to match the requested ratio
+  const [rw, rh] = aspectRatio.split(':').map(Number);
+  const width = rw >= rh ? Math.round((512 * rw) / rh) : 512;
+  const height = rw >= rh ? 512 : Math.round((512 * rh) / rw);
+  const viewBox = `${(512 - width) / 2} ${(512 - height) / 2} ${width} ${height}`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue},60%,55%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,30%)"/>
+    </linearGradient>
+  </defs>
+  <rect x="${(512 - width) / 2}" y="${(512 - height) / 2}" width="${width}" height="${height}" fill="url(#bg)"/>
+  <circle cx="256" cy="210" r="70" fill="rgba(255,255,255,0.35)"/>
+  <rect x="166" y="290" width="180" height="140" rx="60" fill="rgba(255,255,255,0.35)"/>
+  <text x="256" y="470" font-family="sans-serif" font-size="20" fill="#fff" text-anchor="middle">${escapeXml(caption)}</text>
+  <text x="256" y="496" font-family="sans-serif" font-size="14" fill="rgba(255,255,255,0.8)" text-anchor="middle">${escapeXml(subtitle)}</text>
+  <text x="256" y="60" font-family="sans-serif" font-size="16" fill="#fff" text-anchor="middle">${escapeXml(title)}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const mockResult = (imageUrl: string, promptUsed: string): GeneratedImageResult => ({
+  imageUrl,
+  mimeType: 'image/svg+xml',
+  finishReason: 'STOP',
+  blockReason: null,
+  safetyRatings: [],
+  modelText: '',
+  usage: null,
+  promptUsed,
+});
+
+const generateTravelPhoto = async (request: TravelPhotoRequest): Promise<GeneratedImageResult> => {
+  const { locationName, era, year, variation = 'Standard Shot', aspectRatio = '1:1' } = request;
+  const style = (request.style || DEFAULT_STYLE).label;
+  await abortableWait(MOCK_RENDER_MS, request.signal);
+
+  const names = request.people.map(p => p.name).join(', ');
+  const seed = hashString([locationName, era, year, style, variation, request.customPrompt, names].join('|'));
+  const imageUrl = renderPlaceholder({
+    hue: seed % 360,
+    aspectRatio,
+    title: names,
+    caption: year ? `${locationName} · ${year}` : locationName,
+    subtitle: `${style} · ${variation}`,
+  });
+  return mockResult(imageUrl, renderPhotoPrompt(request.promptPreset || DEFAULT_PROMPT_PRESET, request));
+};
+
+// The input image is not decoded; each instruction just shifts the colours and is written on the placeholder
+const editImage = async (request: ImageEditRequest): Promise<GeneratedImageResult> => {
+  const { instruction, history = [] } = request;
+  await abortableWait(MOCK_RENDER_MS, request.signal);
+
+  const imageUrl = renderPlaceholder({
+    hue: hashString([...history, instruction].join('|')) % 360,
+    aspectRatio: '1:1',
+    title: `Edit ${history.length + 1}`,
+    caption: instruction,
+    subtitle: history.length > 0 ? `after: ${history[history.length - 1]}` : 'from the original shot',
+  });
+  return mockResult(imageUrl, renderEditPrompt(instruction, history));
+};
+
+/**
+ * Deterministic offline provider for local development and CI.
+ * Never touches the network and needs no API key.
+ */
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  requiresApiKey: false,
+  analyzeLocation,
+  checkPlausibility,
+  generateTravelPhoto,
+  editImage,
+});
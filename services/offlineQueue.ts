@@ -0,0 +1,121 @@
+import { QueuedGeneration } from "../types";
+import { AppError, NetworkOfflineError, describeError, toAppError } from "./errors";
+import { isAbortError } from "./generationQueue";
+
+/**
+ * One image of a queued generation. Resolves with the id of the saved gallery entry.
+ */
+export type OfflineItem = (signal: AbortSignal) => Promise<string>;
+
+export interface OfflineQueue {
+  enqueue: (label: string, items: OfflineItem[]) => QueuedGeneration;
+  remove: (id: string) => void; // cancels the job if it is being sent
+  list: () => QueuedGeneration[];
+  subscribe: (listener: (jobs: QueuedGeneration[]) => void) => () => void;
+  flush: () => void; // sends waiting jobs now, if online
+  dispose: () => void;
+}
+
+interface Job {
+  info: QueuedGeneration;
+  items: OfflineItem[];
+  next: number; // index of the first item not yet sent
+  controller: AbortController | null;
+}
+
+const createJobId = () => `queued-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Holds generations made while offline and sends them, one job at a time, when the
+ * browser reports the connection is back. A job that loses the connection mid-way
+ * goes back to waiting and resumes from the first unsent image.
+ *
+ * Jobs live for the session only: reference photos are not persisted.
+ * `describe` turns a failure into the message stored on the job, e.g. in the current UI language.
+ */
+export const createOfflineQueue = (describe: (error: AppError) => string = describeError): OfflineQueue => {
+  let jobs: Job[] = [];
+  let running = false;
+  const listeners = new Set<(jobs: QueuedGeneration[]) => void>();
+
+  const list = () => jobs.map(job => job.info);
+  const notify = () => listeners.forEach(listener => listener(list()));
+  const update = (job: Job, patch: Partial<QueuedGeneration>) => {
+    job.info = { ...job.info, ...patch };
+    notify();
+  };
+
+  const runJob = async (job: Job) => {
+    const controller = new AbortController();
+    job.controller = controller;
+    update(job, { state: 'sending', error: undefined });
+
+    for (; job.next < job.items.length; job.next++) {
+      try {
+        const shotId = await job.items[job.next](controller.signal);
+        update(job, { completed: job.info.completed + 1, firstShotId: job.info.firstShotId || shotId });
+      } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        const appError = toAppError(error);
+        if (appError instanceof NetworkOfflineError) {
+          update(job, { state: 'waiting', error: describe(appError) });
+          return;
+        }
+        update(job, { failed: job.info.failed + 1, error: describe(appError) });
+      }
+    }
+    job.controller = null;
+    update(job, { state: job.info.completed > 0 ? 'done' : 'failed' });
+  };
+
+  const flush = async () => {
+    if (running || !navigator.onLine) return;
+    running = true;
+    try {
+      for (let job = jobs.find(j => j.info.state === 'waiting'); job && navigator.onLine; job = jobs.find(j => j.info.state === 'waiting')) {
+        await runJob(job);
+        // Still waiting means the connection dropped again; wait for the next "online"
+        if (job.info.state === 'waiting') break;
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const onOnline = () => { flush(); };
+  window.addEventListener('online', onOnline);
+
+  return {
+    enqueue: (label, items) => {
+      const info: QueuedGeneration = {
+        id: createJobId(),
+        label,
+        createdAt: Date.now(),
+        state: 'waiting',
+        total: items.length,
+        completed: 0,
+        failed: 0,
+      };
+      jobs = [...jobs, { info, items, next: 0, controller: null }];
+      notify();
+      flush();
+      return info;
+    },
+    remove: (id) => {
+      jobs.find(job => job.info.id === id)?.controller?.abort();
+      jobs = jobs.filter(job => job.info.id !== id);
+      notify();
+    },
+    list,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    flush: () => { flush(); },
+    dispose: () => {
+      window.removeEventListener('online', onOnline);
+      jobs.forEach(job => job.controller?.abort());
+      listeners.clear();
+    },
+  };
+};
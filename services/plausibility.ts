@@ -0,0 +1,141 @@
+import { PlausibilityReport, PlausibilityResult, PlausibilityVerdict } from "../types";
+import type { PlausibilityRequest } from "./aiProvider";
+import { extractJsonObject, isNonEmptyString, isRecord, SchemaResult } from "./locationSchema";
+import { describeDateForPrompt, parseHistoricalDate } from "./historicalDate";
+import { DEFAULT_LOCALE, localeInfo } from "./i18n";
+import { renderTemplate } from "./promptTemplates";
+
+/**
+ * The pre-generation check of a place at a date: what stood there, what the
+ * request would get wrong, and what to show instead. The prompt is fixed
+ * (not part of a preset) since its reply is parsed, like the location analysis.
+ */
+
+const VERDICTS: PlausibilityVerdict[] = ['plausible', 'questionable', 'implausible'];
+// Longer lists are cut; the report is read in the Sidebar and pasted into the photo prompt
+const MAX_LIST_ITEMS = 6;
+
+const PLAUSIBILITY_TEMPLATE = `You are a historian checking a time-travel photo request before it is rendered.
+
+Place: {{location}} (Lat: {{lat}}, Lng: {{lng}}).
+About the place today: {{description}}
+Target date: {{date}}.
+Visual style: {{style}}.
+
+Describe what this exact spot was like at the target date{{#isFuture}} (for a future date, extrapolate plausibly from today){{/isFuture}}, then list what the request could get wrong.
+Use Google Search to check founding and construction dates.
+
+Reply with a JSON object of this structure:
+{
+  "verdict": "plausible" | "questionable" | "implausible", // implausible if the named place or its landmark did not exist yet (or any more)
+  "summary": "One or two sentences on what a visitor would find here at the target date.",
+  "settlement": "What settlement existed here then (name, size, who lived there), or that there was none.",
+  "landscape": "The natural landscape and land use at the time.",
+  "structures": ["Notable structures standing at the target date"],
+  "anachronisms": ["Things that must NOT appear, each with the reason, e.g. 'The Eiffel Tower (built 1887–1889)'"],
+  "suggestedElements": ["Period-accurate details worth showing: buildings, vehicles, clothing, crops, signage"]
+}
+
+Lists may be empty, but include at most ${MAX_LIST_ITEMS} items each.
+Write every text value in {{language}}. Keep the JSON keys and the verdict values in English.
+Output ONLY the JSON object.`;
+
+export const renderPlausibilityPrompt = (request: PlausibilityRequest): string => {
+  const date = parseHistoricalDate(request.year);
+  return renderTemplate(PLAUSIBILITY_TEMPLATE, {
+    location: request.context.name,
+    lat: request.lat,
+    lng: request.lng,
+    description: request.context.description,
+    date: date ? describeDateForPrompt(date) : request.year,
+    isFuture: !!date && date.start > new Date().getFullYear(),
+    style: request.style?.label || 'Photorealistic',
+    language: localeInfo(request.locale || DEFAULT_LOCALE).englishName,
+  });
+};
+
+const readList = (value: unknown, path: string, issues: string[]): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array of strings`);
+    return [];
+  }
+  return value.filter(isNonEmptyString).map(item => item.trim()).slice(0, MAX_LIST_ITEMS);
+};
+
+/**
+ * Runtime check for a parsed plausibility reply. Non-string list items are dropped.
+ */
+export const validatePlausibilityReport = (raw: unknown): SchemaResult<PlausibilityReport> => {
+  if (!isRecord(raw)) return { kind: 'invalid', issues: ['Response must be a JSON object'] };
+
+  const issues: string[] = [];
+  const verdict = typeof raw.verdict === 'string' ? raw.verdict.trim().toLowerCase() : '';
+  if (!VERDICTS.includes(verdict as PlausibilityVerdict)) issues.push(`verdict must be one of ${VERDICTS.join(', ')}`);
+  if (!isNonEmptyString(raw.summary)) issues.push('summary must be a non-empty string');
+  if (!isNonEmptyString(raw.settlement)) issues.push('settlement must be a non-empty string');
+  if (!isNonEmptyString(raw.landscape)) issues.push('landscape must be a non-empty string');
+  const structures = readList(raw.structures, 'structures', issues);
+  const anachronisms = readList(raw.anachronisms, 'anachronisms', issues);
+  const suggestedElements = readList(raw.suggestedElements, 'suggestedElements', issues);
+
+  if (issues.length > 0) return { kind: 'invalid', issues };
+  return {
+    kind: 'valid',
+    value: {
+      verdict: verdict as PlausibilityVerdict,
+      summary: (raw.summary as string).trim(),
+      settlement: (raw.settlement as string).trim(),
+      landscape: (raw.landscape as string).trim(),
+      structures,
+      anachronisms,
+      suggestedElements,
+    },
+    warnings: [],
+  };
+};
+
+/**
+ * Turns a raw model reply into a typed plausibility result.
+ */
+export const parsePlausibilityResponse = (text: string | undefined): PlausibilityResult => {
+  if (!text || !text.trim()) {
+    return { kind: 'failure', error: { kind: 'no_response', message: 'The model returned an empty response.', issues: [] } };
+  }
+
+  const json = extractJsonObject(text);
+  if (!json) {
+    return { kind: 'failure', error: { kind: 'parse_failed', message: 'The response did not contain a JSON object.', issues: [] } };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    return { kind: 'failure', error: { kind: 'parse_failed', message: 'The response contained malformed JSON.', issues: [e.message] } };
+  }
+
+  const result = validatePlausibilityReport(parsed);
+  if (result.kind === 'invalid') {
+    return { kind: 'failure', error: { kind: 'invalid_schema', message: 'The plausibility report was incomplete or had the wrong shape.', issues: result.issues } };
+  }
+  return { kind: 'success', report: result.value, warnings: result.warnings };
+};
+
+/**
+ * Identifies the inputs a report was made for, so a stale report is never shown or sent.
+ * Rounded like the analysis cache: clicks on the same landmark share a report.
+ */
+export const plausibilityKey = (request: Pick<PlausibilityRequest, 'lat' | 'lng' | 'year' | 'style' | 'locale'>) =>
+  `${request.lat.toFixed(3)},${request.lng.toFixed(3)}|${request.year.trim()}|${request.style?.id || ''}|${request.locale || DEFAULT_LOCALE}`;
+
+/**
+ * The report as the `{{historicalNotes}}` block of the photo prompt.
+ */
+export const describeReportForPrompt = (report: PlausibilityReport): string => [
+  `- Settlement: ${report.settlement}`,
+  `- Landscape: ${report.landscape}`,
+  report.structures.length > 0 && `- Standing at the time: ${report.structures.join('; ')}`,
+  report.anachronisms.length > 0 && `- Do NOT show (anachronisms): ${report.anachronisms.join('; ')}`,
+  report.suggestedElements.length > 0 && `- Include period details: ${report.suggestedElements.join('; ')}`,
+].filter(Boolean).join('\n');
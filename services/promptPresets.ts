@@ -0,0 +1,349 @@
+import { PromptPreset, PromptPresetRef, TimeEra } from "../types";
+import type { TravelPhotoRequest } from "./aiProvider";
+import { renderTemplate, TemplateIssue, TemplateVariables, validateTemplate } from "./promptTemplates";
+import { DEFAULT_STYLE } from "./styleCatalog";
+import { DEFAULT_LOCALE, Locale, MessageKey, localeInfo, translate } from "./i18n";
+import { describeDateForPrompt, parseHistoricalDate, representativeYear } from "./historicalDate";
+import { describeReportForPrompt } from "./plausibility";
+
+// Bump when the stored/exported shape changes
+export const PROMPT_PRESET_VERSION = 1;
+export const PROMPT_PRESET_FORMAT = 'chronotravel.prompt-preset';
+
+const STORAGE_KEY = 'chronotravel_prompt_presets';
+const ACTIVE_KEY = 'chronotravel_active_prompt_preset';
+
+export interface PromptVariable {
+  name: string;
+  description: MessageKey;
+}
+
+export const ANALYSIS_PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'lat', description: 'promptVar.clickedLat' },
+  { name: 'lng', description: 'promptVar.clickedLng' },
+  { name: 'language', description: 'promptVar.language' },
+];
+
+export const PHOTO_PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'location', description: 'promptVar.location' },
+  { name: 'lat', description: 'promptVar.lat' },
+  { name: 'lng', description: 'promptVar.lng' },
+  { name: 'era', description: 'promptVar.era' },
+  { name: 'year', description: 'promptVar.year' },
+  { name: 'yearAbs', description: 'promptVar.yearAbs' },
+  { name: 'date', description: 'promptVar.date' },
+  { name: 'historicalNotes', description: 'promptVar.historicalNotes' },
+  { name: 'timeDescription', description: 'promptVar.timeDescription' },
+  { name: 'weather', description: 'promptVar.weather' },
+  { name: 'season', description: 'promptVar.season' },
+  { name: 'timeOfDay', description: 'promptVar.timeOfDay' },
+  { name: 'temperature', description: 'promptVar.temperature' },
+  { name: 'daylight', description: 'promptVar.daylight' },
+  { name: 'clothing', description: 'promptVar.clothing' },
+  { name: 'style', description: 'promptVar.style' },
+  { name: 'styleFragment', description: 'promptVar.styleFragment' },
+  { name: 'negativeConstraints', description: 'promptVar.negativeConstraints' },
+  { name: 'variation', description: 'promptVar.variation' },
+  { name: 'customPrompt', description: 'promptVar.customPrompt' },
+  { name: 'subjectIntro', description: 'promptVar.subjectIntro' },
+  { name: 'peopleList', description: 'promptVar.peopleList' },
+  { name: 'peopleCount', description: 'promptVar.peopleCount' },
+  { name: 'hasYear', description: 'promptVar.hasYear' },
+  { name: 'isBC', description: 'promptVar.isBC' },
+  { name: 'isAD', description: 'promptVar.isAD' },
+  { name: 'isFuture', description: 'promptVar.isFuture' },
+  { name: 'isGroup', description: 'promptVar.isGroup' },
+];
+
+const DEFAULT_ANALYSIS_TEMPLATE = `I am at coordinates: Latitude {{lat}}, Longitude {{lng}}.
+
+Task 1: Use Google Maps to identify the exact location.
+Task 2: Determine if this location is "Specific" (a named landmark, city, building, park) or "Vague" (middle of the ocean, generic unnamed road, vast desert, generic field).
+
+Task 3: Create a JSON object with the following structure.
+
+Structure:
+{
+  "name": "The specific location name found via Maps",
+  "isVague": boolean, // true if the location is generic/unclear, false if it is a specific place
+  "nearbyPOIs": [ // Only populate if isVague is true. Find up to 3 interesting landmarks/cities within 50km.
+     { "name": "Name of landmark", "lat": 0.00, "lng": 0.00 }
+  ],
+  "weather": {
+    "temp": "Estimated typical temperature for right now (e.g. 25°C)",
+    "condition": "Estimated typical condition (e.g. Sunny)"
+  },
+  "description": "A short, interesting historical or geographical fact about this specific place (max 2 sentences).",
+  "clothingRecommendation": "Appropriate clothing suggestion for a tourist here right now."
+}
+
+Write every text value (name, description, clothing, weather condition, POI names) in {{language}}. Keep the JSON keys in English.
+
+Output ONLY the JSON code block. Do not output any other text.`;
+
+const DEFAULT_PHOTO_TEMPLATE = `Create a highly realistic and historically accurate travel photo.
+
+CONTEXT:
+- Location: {{location}} (Lat: {{lat}}, Lng: {{lng}}).
+- Era/Year: {{timeDescription}}.
+- Weather: {{weather}}.
+{{#timeOfDay}}- Light: {{timeOfDay}} in {{season}}, about {{daylight}} hours of daylight. Sky, shadows and lighting must match.
+{{/timeOfDay}}- Shot Variation: {{variation}} (Ensure this image has a distinct composition).
+
+USER INSTRUCTIONS:
+"{{#customPrompt}}{{customPrompt}}{{/customPrompt}}{{^customPrompt}}No specific scene instructions provided.{{/customPrompt}}"
+
+REQUIREMENTS:
+1. {{#isBC}}CRITICAL HISTORICAL ACCURACY (B.C. ERA):
+   The setting is {{date}}.
+   - MODERN CITIES DO NOT EXIST. Do NOT show modern buildings, roads, or ruins.
+   - Show the NATURAL LANDSCAPE (pristine forests, rivers, deserts, terrain) exactly as it would have looked at these coordinates ({{lat}}, {{lng}}) in {{date}}.
+   - If early human settlements (Neolithic, Bronze Age, Indigenous tribes) were historically present in this specific region at that time, depict them accurately (huts, primitive tools, campfires).
+   - Clothing MUST be primitive and accurate to the region and era (e.g., animal skins, simple woven tunics).
+{{/isBC}}{{#isAD}}HISTORICAL ACCURACY: The setting is {{date}}.
+   - Ensure architecture, street signs, technology, and background details match this time.
+{{#isFuture}}   - Use grounded sci-fi aesthetics suitable for {{date}}.
+{{/isFuture}}{{/isAD}}{{#historicalNotes}}   HISTORICAL NOTES (checked for this place and date):
+{{historicalNotes}}
+{{/historicalNotes}}
+
+2. SUBJECTS: {{subjectIntro}}
+{{peopleList}}
+   - Maintain each person's facial identity strictly. Never merge, swap or duplicate faces.
+   - CHANGE CLOTHING: Every subject MUST wear clothing accurate to {{timeDescription}} and {{weather}}{{#clothing}} (dress for: {{clothing}}){{/clothing}}.
+   - Pose: Natural travel pose{{#isGroup}}, posed together as a group{{/isGroup}}.
+
+3. AESTHETICS:
+   - Visual Style: {{style}}. {{styleFragment}}
+{{#negativeConstraints}}   - Avoid: {{negativeConstraints}}.
+{{/negativeConstraints}}   - No text, borders, or frames.`;
+
+// Follow-up edits are short and generic, so their template is fixed rather than part of a preset
+const EDIT_TEMPLATE = `Edit the attached photo: {{instruction}}.
+{{#history}}
+Earlier edits already applied, keep them: {{history}}.
+{{/history}}
+Change only what the instruction asks for. Keep every person's face and identity, the framing, the lighting and the visual style exactly as they are.
+No text, borders, or frames.`;
+
+export const DEFAULT_PROMPT_PRESET: PromptPreset = {
+  id: 'default',
+  name: 'ChronoTravel default',
+  revision: 6,
+  builtIn: true,
+  analysisTemplate: DEFAULT_ANALYSIS_TEMPLATE,
+  photoTemplate: DEFAULT_PHOTO_TEMPLATE,
+  updatedAt: 0,
+};
+
+export const toPresetRef = (preset: PromptPreset): PromptPresetRef => ({
+  id: preset.id,
+  name: preset.name,
+  revision: preset.revision,
+});
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Applies an edited draft to the preset list. Saving over a user preset bumps its
+ * revision; saving a built-in (or an unknown id) creates a new user preset instead.
+ */
+export const commitPresetEdit = (presets: PromptPreset[], draft: PromptPreset): { presets: PromptPreset[]; saved: PromptPreset } => {
+  const existing = presets.find(p => p.id === draft.id);
+  const { builtIn, ...fields } = draft;
+
+  if (existing && !existing.builtIn) {
+    const saved = { ...fields, revision: existing.revision + 1, updatedAt: Date.now() };
+    return { presets: presets.map(p => p.id === saved.id ? saved : p), saved };
+  }
+
+  const name = existing && fields.name === existing.name ? `${fields.name} (copy)` : fields.name;
+  const saved = { ...fields, id: createPresetId(), name, revision: 1, updatedAt: Date.now() };
+  return { presets: [...presets, saved], saved };
+};
+
+/**
+ * Derives every photo-template variable from a generation request.
+ */
+export const buildPhotoPromptVariables = (request: TravelPhotoRequest): TemplateVariables => {
+  const { lat, lng, locationName, era, people, weatherCondition, conditions, year, customPrompt, style = DEFAULT_STYLE, variation = 'Standard Shot', plausibility } = request;
+
+  const date = year ? parseHistoricalDate(year) : null;
+  const hasYear = date !== null;
+  // A span reaching into A.D. (e.g. "50 BC to 50 AD") counts as A.D.: settlements may already exist
+  const isBC = hasYear && date.end <= 0;
+
+  let timeDescription = era as string;
+  if (hasYear) timeDescription += ` (Specifically ${describeDateForPrompt(date)})`;
+
+  const peopleList = people
+    .map((person, i) => `   - PERSON ${i + 1} "${person.name}": ${person.images.length} reference photo${person.images.length === 1 ? '' : 's'}.`)
+    .join('\n');
+  const subjectIntro = people.length === 1
+    ? `Insert the person from the reference images (all ${people[0].images.length} photos show the same person).`
+    : `Insert ALL ${people.length} people from the labeled reference images into the same shot, together.`;
+
+  return {
+    location: locationName,
+    lat,
+    lng,
+    era,
+    year: year || '',
+    yearAbs: hasYear ? Math.abs(representativeYear(date)) : '',
+    date: hasYear ? describeDateForPrompt(date) : '',
+    historicalNotes: plausibility ? describeReportForPrompt(plausibility) : '',
+    timeDescription,
+    weather: conditions ? conditions.summary : weatherCondition,
+    season: conditions?.season || '',
+    timeOfDay: conditions?.timeOfDay || '',
+    temperature: conditions ? conditions.temperatureC : '',
+    daylight: conditions ? conditions.daylightHours : '',
+    clothing: conditions?.clothing || '',
+    style: style.label,
+    styleFragment: style.promptFragment,
+    negativeConstraints: style.negativeConstraints || '',
+    variation,
+    customPrompt: (customPrompt || '').trim(),
+    subjectIntro,
+    peopleList,
+    peopleCount: people.length,
+    hasYear,
+    isBC,
+    isAD: hasYear && !isBC,
+    isFuture: era === TimeEra.FUTURE,
+    isGroup: people.length > 1,
+  };
+};
+
+/**
+ * Presets written before `{{historicalNotes}}` existed still get the plausibility
+ * report, appended after the template.
+ */
+export const renderPhotoPrompt = (preset: PromptPreset, request: TravelPhotoRequest): string => {
+  const variables = buildPhotoPromptVariables(request);
+  const prompt = renderTemplate(preset.photoTemplate, variables);
+  return variables.historicalNotes && !preset.photoTemplate.includes('{{historicalNotes}}')
+    ? `${prompt}\n\nHISTORICAL NOTES (checked for this place and date):\n${variables.historicalNotes}`
+    : prompt;
+};
+
+/**
+ * Prompt for one follow-up edit. `history` lists the instructions that produced the input image, oldest first.
+ */
+export const renderEditPrompt = (instruction: string, history: string[] = []): string =>
+  renderTemplate(EDIT_TEMPLATE, { instruction: instruction.trim().replace(/[.\s]+$/, ''), history: history.join('; ') });
+
+/**
+ * Presets written before `{{language}}` existed still get the reply language,
+ * as a trailing instruction, when it isn't English.
+ */
+export const renderAnalysisPrompt = (preset: PromptPreset, lat: number, lng: number, locale: Locale = DEFAULT_LOCALE): string => {
+  const language = localeInfo(locale).englishName;
+  const prompt = renderTemplate(preset.analysisTemplate, { lat, lng, language });
+  return preset.analysisTemplate.includes('{{language}}') || locale === DEFAULT_LOCALE
+    ? prompt
+    : `${prompt}\n\nWrite every text value in ${language}. Keep the JSON keys in English.`;
+};
+
+const describeTemplateIssue = (issue: TemplateIssue, locale: Locale): string => {
+  switch (issue.kind) {
+    case 'unexpected_close':
+      return issue.expected
+        ? translate(locale, 'preset.unexpectedCloseExpected', { tag: `{{/${issue.name}}}`, expected: `{{/${issue.expected}}}` })
+        : translate(locale, 'preset.unexpectedClose', { tag: `{{/${issue.name}}}` });
+    case 'unclosed': return translate(locale, 'preset.unclosed', { tag: `{{#${issue.name}}}` });
+    case 'unknown_variable': return translate(locale, 'preset.unknownVariable', { name: issue.name });
+  }
+};
+
+/**
+ * Problems with a preset's templates, prefixed with the template they belong to.
+ */
+export const validatePreset = (preset: PromptPreset, locale: Locale = DEFAULT_LOCALE): string[] => [
+  ...validateTemplate(preset.analysisTemplate, ANALYSIS_PROMPT_VARIABLES.map(v => v.name))
+    .map(issue => translate(locale, 'preset.issueAnalysis', { issue: describeTemplateIssue(issue, locale) })),
+  ...validateTemplate(preset.photoTemplate, PHOTO_PROMPT_VARIABLES.map(v => v.name))
+    .map(issue => translate(locale, 'preset.issuePhoto', { issue: describeTemplateIssue(issue, locale) })),
+];
+
+export type PresetParseResult =
+  | { kind: 'valid'; preset: PromptPreset }
+  | { kind: 'invalid'; message: string };
+
+const readPreset = (value: any, locale: Locale = DEFAULT_LOCALE): PresetParseResult => {
+  if (!value || typeof value !== 'object') return { kind: 'invalid', message: translate(locale, 'preset.notObject') };
+  const { id, name, revision, analysisTemplate, photoTemplate, updatedAt } = value;
+  if (typeof name !== 'string' || !name.trim()) return { kind: 'invalid', message: translate(locale, 'preset.needsName') };
+  if (typeof analysisTemplate !== 'string' || typeof photoTemplate !== 'string') {
+    return { kind: 'invalid', message: translate(locale, 'preset.needsTemplates') };
+  }
+  return {
+    kind: 'valid',
+    preset: {
+      id: typeof id === 'string' && id ? id : createPresetId(),
+      name: name.trim(),
+      revision: Number.isInteger(revision) && revision > 0 ? revision : 1,
+      analysisTemplate,
+      photoTemplate,
+      updatedAt: typeof updatedAt === 'number' ? updatedAt : Date.now(),
+    },
+  };
+};
+
+/**
+ * Serializes a preset for download. The wrapper carries the format version.
+ */
+export const exportPreset = (preset: PromptPreset): string => {
+  const { builtIn, ...rest } = preset;
+  return JSON.stringify({ format: PROMPT_PRESET_FORMAT, version: PROMPT_PRESET_VERSION, preset: rest }, null, 2);
+};
+
+/**
+ * Parses an exported preset. Imports always become user presets, never built-ins.
+ */
+export const importPreset = (json: string, locale: Locale = DEFAULT_LOCALE): PresetParseResult => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { kind: 'invalid', message: translate(locale, 'preset.invalidJson') };
+  }
+  if (data?.format !== PROMPT_PRESET_FORMAT) return { kind: 'invalid', message: translate(locale, 'preset.wrongFormat') };
+  if (data.version !== PROMPT_PRESET_VERSION) {
+    return { kind: 'invalid', message: translate(locale, 'preset.unsupportedVersion', { version: data.version, expected: PROMPT_PRESET_VERSION }) };
+  }
+  return readPreset(data.preset, locale);
+};
+
+/**
+ * Built-in preset first, then the user's presets from localStorage.
+ * Stored data from an unknown version is ignored rather than guessed at.
+ */
+export const loadPromptPresets = (): PromptPreset[] => {
+  const presets = [DEFAULT_PROMPT_PRESET];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return presets;
+    const data = JSON.parse(raw);
+    if (data?.version !== PROMPT_PRESET_VERSION || !Array.isArray(data.presets)) {
+      console.warn("Ignoring stored prompt presets with unknown version", data?.version);
+      return presets;
+    }
+    for (const entry of data.presets) {
+      const result = readPreset(entry);
+      if (result.kind === 'valid') presets.push(result.preset);
+    }
+  } catch (e) {
+    console.error("Failed to read prompt presets", e);
+  }
+  return presets;
+};
+
+export const savePromptPresets = (presets: PromptPreset[]) => {
+  const userPresets = presets.filter(p => !p.builtIn);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: PROMPT_PRESET_VERSION, presets: userPresets }));
+};
+
+export const loadActivePresetId = (): string => localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROMPT_PRESET.id;
+
+export const saveActivePresetId = (id: string) => localStorage.setItem(ACTIVE_KEY, id);
@@ -0,0 +1,114 @@
+/**
+ * Minimal mustache-style template engine for prompts.
+ *
+ *   {{name}}                 inserts a variable (missing values render empty)
+ *   {{#name}}...{{/name}}    section kept only when the variable is truthy
+ *   {{^name}}...{{/name}}    section kept only when the variable is falsy
+ *
+ * Sections nest. Empty strings, 0 and false are falsy.
+ */
+
+export type TemplateValue = string | number | boolean | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+// Structural problems; callers turn them into messages
+export type TemplateIssue =
+  | { kind: 'unexpected_close'; name: string; expected?: string }
+  | { kind: 'unclosed'; name: string }
+  | { kind: 'unknown_variable'; name: string };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+const parseTemplate = (template: string): ParsedTemplate => {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+  const issues: TemplateIssue[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, name] = match;
+    const current = stack[stack.length - 1];
+    if (match.index > cursor) current.children.push({ type: 'text', text: template.slice(cursor, match.index) });
+    cursor = match.index + tag.length;
+
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: sigil === '^', children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        issues.push({ kind: 'unexpected_close', name, expected: stack.length > 1 ? current.name : undefined });
+        continue;
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: 'variable', name });
+    }
+  }
+
+  if (cursor < template.length) stack[stack.length - 1].children.push({ type: 'text', text: template.slice(cursor) });
+  for (const open of stack.slice(1)) issues.push({ kind: 'unclosed', name: open.name });
+  return { nodes: root, issues };
+};
+
+const isTruthy = (value: TemplateValue) => value !== undefined && value !== '' && value !== 0 && value !== false;
+
+const renderNodes = (nodes: TemplateNode[], variables: TemplateVariables): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable': {
+        const value = variables[node.name];
+        return value === undefined || value === false ? '' : String(value);
+      }
+      case 'section':
+        return isTruthy(variables[node.name]) !== node.inverted ? renderNodes(node.children, variables) : '';
+    }
+  }).join('');
+
+/**
+ * Renders a template. Lines left empty by skipped sections are collapsed
+ * so the prompt doesn't fill up with blank runs.
+ */
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+  const rendered = renderNodes(parseTemplate(template).nodes, variables);
+  return rendered
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const collectNames = (nodes: TemplateNode[], names: Set<string>) => {
+  for (const node of nodes) {
+    if (node.type === 'variable') names.add(node.name);
+    if (node.type === 'section') {
+      names.add(node.name);
+      collectNames(node.children, names);
+    }
+  }
+  return names;
+};
+
+/**
+ * Lists problems with a template: unbalanced sections and names that are
+ * not in `knownNames`. An empty list means the template is usable.
+ */
+export const validateTemplate = (template: string, knownNames: string[]): TemplateIssue[] => {
+  const { nodes, issues } = parseTemplate(template);
+  const known = new Set(knownNames);
+  const unknown = Array.from(collectNames(nodes, new Set())).filter(name => !known.has(name));
+  return [...issues, ...unknown.map(name => ({ kind: 'unknown_variable' as const, name }))];
+};
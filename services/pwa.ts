@@ -0,0 +1,17 @@
+/**
+ * Installs the service worker in public/sw.js, which caches the app shell,
+ * map tiles and marker images for offline use.
+ *
+ * Off by default in development, where cached modules would hide code changes;
+ * set SERVICE_WORKER=on to try it with the dev server.
+ */
+export const isServiceWorkerEnabled = () => process.env.SERVICE_WORKER === 'on';
+
+export const registerServiceWorker = () => {
+  if (!isServiceWorkerEnabled() || !('serviceWorker' in navigator) || !window.isSecureContext) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(e => console.warn("Service worker registration failed", e));
+  });
+};
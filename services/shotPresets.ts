@@ -0,0 +1,30 @@
+import { AspectRatio, ShotSpec } from "../types";
+
+export const MIN_SHOTS = 1;
+export const MAX_SHOTS = 8;
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const SHOT_PRESETS: ShotSpec[] = [
+  { id: 'wide', label: 'Wide Angle', description: 'Wide Angle Shot (Establishing Context)' },
+  { id: 'medium', label: 'Medium Shot', description: 'Medium Shot (Character Interaction)' },
+  { id: 'closeup', label: 'Close-up Portrait', description: 'Close-up Portrait (Face and shoulders, shallow depth of field, background softly blurred)', aspectRatio: '3:4' },
+  { id: 'selfie', label: 'Selfie Arm', description: 'Selfie-Arm Shot (Handheld from arm\'s length, slight wide-angle distortion, subject looking into the lens)', aspectRatio: '9:16' },
+  { id: 'shoulder', label: 'Over the Shoulder', description: 'Over-the-Shoulder Shot (Subject seen from behind, looking out over the scene)' },
+  { id: 'aerial', label: 'Aerial', description: 'Aerial Shot (High vantage point looking down, subject small within the landscape)', aspectRatio: '16:9' },
+  { id: 'night', label: 'Night', description: 'Night Shot (After dark, lit by period-accurate light sources)' },
+];
+
+// Matches the two shots the app has always generated
+export const DEFAULT_SHOT_PLAN: ShotSpec[] = SHOT_PRESETS.slice(0, 2);
+
+let customShotCounter = 0;
+
+/**
+ * Copies a preset (or builds a custom shot) with a fresh id so the same
+ * preset can appear more than once in a plan.
+ */
+export const createPlannedShot = (base: Omit<ShotSpec, 'id'>): ShotSpec => ({
+  ...base,
+  id: `shot-${Date.now().toString(36)}-${customShotCounter++}`,
+});
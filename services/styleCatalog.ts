@@ -0,0 +1,148 @@
+import { VisualStyle } from "../types";
+
+// Bump when the stored shape changes
+export const STYLE_CATALOG_VERSION = 1;
+
+const STORAGE_KEY = 'chronotravel_styles';
+
+// Two-tone gradient used as the thumbnail of built-in styles
+const swatch = (from: string, to: string): string => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs><rect width="64" height="64" fill="url(#g)"/></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const BUILT_IN_STYLES: VisualStyle[] = [
+  {
+    id: 'realistic',
+    label: 'Realistic',
+    thumbnail: swatch('#7dd3fc', '#0f766e'),
+    promptFragment: 'Photorealistic, 8k resolution, natural cinematic lighting.',
+    builtIn: true,
+  },
+  {
+    id: 'cinematic',
+    label: 'Cinematic',
+    thumbnail: swatch('#f59e0b', '#1e3a8a'),
+    promptFragment: 'Widescreen film still, anamorphic lens, teal-and-orange color grade, shallow depth of field.',
+    defaultAspectRatio: '16:9',
+    builtIn: true,
+  },
+  {
+    id: 'documentary',
+    label: 'Documentary',
+    thumbnail: swatch('#d6d3d1', '#57534e'),
+    promptFragment: 'Candid documentary photograph, available light, 35mm lens, unposed and journalistic.',
+    negativeConstraints: 'staged studio lighting, glamour retouching',
+    builtIn: true,
+  },
+  {
+    id: 'daguerreotype',
+    label: 'Daguerreotype',
+    thumbnail: swatch('#e7e5e4', '#44403c'),
+    promptFragment: 'Mid-19th-century daguerreotype: silvery monochrome plate, long-exposure stillness, soft vignette, slight mirror sheen.',
+    negativeConstraints: 'color, motion blur from modern shutters, modern grain patterns',
+    defaultAspectRatio: '3:4',
+    builtIn: true,
+  },
+  {
+    id: 'kodachrome',
+    label: 'Kodachrome',
+    thumbnail: swatch('#fde047', '#b91c1c'),
+    promptFragment: 'Shot on Kodachrome 64 slide film: saturated reds and yellows, deep shadows, fine grain, 1960s travel-magazine look.',
+    negativeConstraints: 'digital sharpening, HDR',
+    defaultAspectRatio: '4:3',
+    builtIn: true,
+  },
+  {
+    id: 'super-8',
+    label: '8mm Film',
+    thumbnail: swatch('#fdba74', '#78350f'),
+    promptFragment: 'Frame from a Super 8 home movie: heavy grain, warm faded colors, light leaks, soft focus, slight gate weave.',
+    negativeConstraints: 'crisp digital detail',
+    defaultAspectRatio: '4:3',
+    builtIn: true,
+  },
+  {
+    id: 'oil-painting',
+    label: 'Oil Painting',
+    thumbnail: swatch('#a3e635', '#7c2d12'),
+    promptFragment: 'Classical oil painting on canvas: visible brushstrokes, rich glazes, painterly light in the manner of the old masters.',
+    negativeConstraints: 'photographic texture, lens artifacts',
+    builtIn: true,
+  },
+  {
+    id: 'cyberpunk-neon',
+    label: 'Cyberpunk Neon',
+    thumbnail: swatch('#e879f9', '#0e7490'),
+    promptFragment: 'Cyberpunk night scene: neon signage glow, magenta and cyan lighting, rain-slicked reflections, holographic haze.',
+    negativeConstraints: 'daylight, muted colors',
+    defaultAspectRatio: '9:16',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_STYLE = BUILT_IN_STYLES[0];
+
+export const createStyleId = () => `style-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Looks a style up by id. Older shots and links stored the label
+ * ('Realistic'), so labels are accepted case-insensitively as a fallback.
+ */
+export const findStyle = (catalog: VisualStyle[], idOrLabel: string): VisualStyle | undefined => {
+  const key = (idOrLabel || '').trim().toLowerCase();
+  return catalog.find(s => s.id === idOrLabel) || catalog.find(s => s.label.toLowerCase() === key);
+};
+
+export const resolveStyle = (catalog: VisualStyle[], idOrLabel: string): VisualStyle =>
+  findStyle(catalog, idOrLabel) || DEFAULT_STYLE;
+
+/**
+ * Copies a style into a new, editable user style.
+ */
+export const duplicateStyle = (style: VisualStyle): VisualStyle => {
+  const { builtIn, ...fields } = style;
+  return { ...fields, id: createStyleId(), label: `${style.label} (copy)` };
+};
+
+const readStyle = (value: any): VisualStyle | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { id, label, thumbnail, promptFragment, negativeConstraints, defaultAspectRatio } = value;
+  if (typeof id !== 'string' || typeof label !== 'string' || typeof promptFragment !== 'string') return null;
+  return {
+    id,
+    label,
+    thumbnail: typeof thumbnail === 'string' ? thumbnail : DEFAULT_STYLE.thumbnail,
+    promptFragment,
+    negativeConstraints: typeof negativeConstraints === 'string' && negativeConstraints ? negativeConstraints : undefined,
+    defaultAspectRatio: typeof defaultAspectRatio === 'string' ? defaultAspectRatio as VisualStyle['defaultAspectRatio'] : undefined,
+  };
+};
+
+/**
+ * Built-in styles followed by the user's styles from localStorage.
+ */
+export const loadStyleCatalog = (): VisualStyle[] => {
+  const catalog = [...BUILT_IN_STYLES];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return catalog;
+    const data = JSON.parse(raw);
+    if (data?.version !== STYLE_CATALOG_VERSION || !Array.isArray(data.styles)) {
+      console.warn("Ignoring stored styles with unknown version", data?.version);
+      return catalog;
+    }
+    for (const entry of data.styles) {
+      const style = readStyle(entry);
+      if (style && !catalog.some(s => s.id === style.id)) catalog.push(style);
+    }
+  } catch (e) {
+    console.error("Failed to read style catalog", e);
+  }
+  return catalog;
+};
+
+export const saveStyleCatalog = (catalog: VisualStyle[]) => {
+  const userStyles = catalog.filter(s => !s.builtIn);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STYLE_CATALOG_VERSION, styles: userStyles }));
+};
@@ -0,0 +1,89 @@
+import { ConditionOverrides, Coordinates, SceneSettings, Season, TimeEra, TimeOfDay, WeatherKind } from "../types";
+import { SEASONS, TIMES_OF_DAY, WEATHER_KINDS } from "./weather";
+import { parseHistoricalDate } from "./historicalDate";
+
+/**
+ * App state that survives reloads and can be shared as a link, e.g.
+ * ?lat=41.89020&lng=12.49220&era=PAST&year=-500&style=cinematic&season=winter&time=dusk
+ */
+export interface UrlState {
+  location: Coordinates | null;
+  settings: Partial<SceneSettings>;
+}
+
+// TimeEra values are display strings; the URL uses the shorter enum keys
+const ERA_BY_KEY = TimeEra as unknown as Record<string, TimeEra>;
+const keyForEra = (era: TimeEra) => Object.keys(ERA_BY_KEY).find(key => ERA_BY_KEY[key] === era);
+
+const parseCoordinate = (value: string | null, limit: number) => {
+  if (value === null || value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) && Math.abs(num) <= limit ? num : null;
+};
+
+export const readUrlState = (search: string = window.location.search): UrlState => {
+  const params = new URLSearchParams(search);
+  const lat = parseCoordinate(params.get('lat'), 90);
+  const lng = parseCoordinate(params.get('lng'), 180);
+
+  const settings: Partial<SceneSettings> = {};
+  const eraKey = params.get('era')?.toUpperCase();
+  if (eraKey && eraKey in ERA_BY_KEY) settings.era = ERA_BY_KEY[eraKey];
+  const year = params.get('year');
+  // Anything the year field understands: "1889", "-500", "1920s", "mid-16th century", "300 BC"
+  if (year && parseHistoricalDate(year)) settings.year = year.trim();
+  const style = params.get('style');
+  // Resolved against the style catalog by the app; unknown ids fall back to the default
+  if (style && style.trim()) settings.style = style.trim();
+  const prompt = params.get('prompt');
+  if (prompt) settings.customPrompt = prompt;
+
+  const conditions: ConditionOverrides = {};
+  const season = params.get('season');
+  if (SEASONS.includes(season as Season)) conditions.season = season as Season;
+  const time = params.get('time');
+  if (TIMES_OF_DAY.includes(time as TimeOfDay)) conditions.timeOfDay = time as TimeOfDay;
+  const weather = params.get('weather');
+  if (WEATHER_KINDS.includes(weather as WeatherKind)) conditions.weather = weather as WeatherKind;
+  if (Object.keys(conditions).length > 0) settings.conditions = conditions;
+
+  return {
+    location: lat !== null && lng !== null ? { lat, lng } : null,
+    settings,
+  };
+};
+
+const buildSearch = (state: UrlState) => {
+  const params = new URLSearchParams();
+  if (state.location) {
+    params.set('lat', state.location.lat.toFixed(5));
+    params.set('lng', state.location.lng.toFixed(5));
+  }
+  const { era, year, style, customPrompt } = state.settings;
+  const eraKey = era && keyForEra(era);
+  if (eraKey) params.set('era', eraKey);
+  if (year) params.set('year', year);
+  if (style) params.set('style', style);
+  if (customPrompt) params.set('prompt', customPrompt);
+  const { conditions } = state.settings;
+  if (conditions?.season) params.set('season', conditions.season);
+  if (conditions?.timeOfDay) params.set('time', conditions.timeOfDay);
+  if (conditions?.weather) params.set('weather', conditions.weather);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Writes the state into the address bar. Location changes should `push` so
+ * back/forward walks between places; control tweaks should `replace`.
+ */
+export const writeUrlState = (state: UrlState, mode: 'push' | 'replace') => {
+  const search = buildSearch(state);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (mode === 'push') {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+};
@@ -0,0 +1,279 @@
+import { ClothingItem, ConditionOverrides, SceneConditions, Season, TimeOfDay, WeatherKind } from "../types";
+
+export type WeatherSourceId = 'climatology' | 'open-meteo';
+
+export interface ClimateQuery {
+  lat: number;
+  lng: number;
+  month: number; // 0-11
+  year?: number;
+}
+
+/**
+ * Typical conditions for one month at one place.
+ */
+export interface ClimateNormals {
+  temperatureC: number; // monthly mean
+  precipitationMm: number; // monthly total
+}
+
+/**
+ * Where monthly normals come from. The climatology table works offline;
+ * other sources may fall back to it for years they don't cover.
+ */
+export interface WeatherSource {
+  id: WeatherSourceId;
+  label: string;
+  normals: (query: ClimateQuery, signal?: AbortSignal) => Promise<ClimateNormals>;
+}
+
+export const SEASONS: Season[] = ['winter', 'spring', 'summer', 'autumn'];
+export const TIMES_OF_DAY: TimeOfDay[] = ['dawn', 'morning', 'midday', 'afternoon', 'dusk', 'night'];
+export const WEATHER_KINDS: WeatherKind[] = ['clear', 'partly_cloudy', 'overcast', 'fog', 'rain', 'storm', 'snow'];
+
+export const WEATHER_LABELS: Record<WeatherKind, string> = {
+  clear: 'clear skies',
+  partly_cloudy: 'partly cloudy',
+  overcast: 'overcast',
+  fog: 'fog',
+  rain: 'rain',
+  storm: 'thunderstorm',
+  snow: 'snowfall',
+};
+
+// Northern-hemisphere monthly normals (Jan..Dec) by latitude band centre.
+// Rough zonal averages; good enough to pick plausible scene conditions.
+const CLIMATE_BANDS: { lat: number; temp: number[]; precip: number[] }[] = [
+  { lat: 5, temp: [27, 27, 27.5, 27.5, 27, 26.5, 26.5, 26.5, 27, 27, 27, 27], precip: [220, 200, 230, 240, 200, 180, 180, 180, 190, 220, 240, 230] },
+  { lat: 15, temp: [24, 25, 27, 29, 30, 29, 28, 28, 28, 27, 26, 24], precip: [10, 10, 15, 30, 90, 150, 200, 220, 180, 90, 30, 10] },
+  { lat: 25, temp: [16, 18, 21, 25, 29, 32, 33, 32, 30, 26, 21, 17], precip: [20, 20, 20, 15, 10, 10, 15, 20, 15, 15, 15, 20] },
+  { lat: 35, temp: [8, 9, 12, 15, 20, 24, 27, 27, 23, 18, 13, 9], precip: [80, 70, 65, 50, 40, 20, 10, 15, 40, 70, 90, 90] },
+  { lat: 45, temp: [1, 3, 7, 12, 17, 21, 23, 22, 18, 12, 6, 2], precip: [60, 50, 60, 65, 75, 75, 70, 70, 65, 70, 70, 65] },
+  { lat: 55, temp: [-3, -2, 2, 7, 12, 16, 18, 17, 13, 8, 3, -1], precip: [50, 40, 45, 45, 55, 65, 75, 70, 60, 60, 60, 55] },
+  { lat: 65, temp: [-13, -12, -7, 0, 7, 13, 16, 14, 8, 1, -6, -11], precip: [35, 30, 30, 30, 40, 55, 70, 70, 55, 50, 45, 40] },
+  { lat: 80, temp: [-28, -29, -27, -19, -7, 1, 4, 3, -2, -12, -21, -26], precip: [10, 10, 10, 10, 10, 15, 25, 25, 20, 15, 12, 10] },
+];
+
+// Months are mirrored south of the equator
+const hemisphereMonth = (lat: number, month: number) => (lat < 0 ? (month + 6) % 12 : month);
+
+/**
+ * Temperature shift for years outside the modern baseline: the tail of the
+ * last glacial period, the Little Ice Age, and projected warming.
+ */
+export const eraTemperatureOffset = (year?: number): number => {
+  if (year === undefined || isNaN(year)) return 0;
+  if (year < -9700) return -5;
+  if (year >= 1300 && year <= 1850) return -0.6;
+  if (year > 2025) return Math.min(4, (year - 2025) * 0.025);
+  return 0;
+};
+
+export const createClimatologySource = (): WeatherSource => ({
+  id: 'climatology',
+  label: 'Climatology table (era-adjusted)',
+  normals: async ({ lat, month, year }) => {
+    const absLat = Math.min(90, Math.abs(lat));
+    const m = hemisphereMonth(lat, month);
+    const upper = CLIMATE_BANDS.findIndex(b => b.lat >= absLat);
+    const hi = CLIMATE_BANDS[upper === -1 ? CLIMATE_BANDS.length - 1 : upper];
+    const lo = CLIMATE_BANDS[Math.max(0, (upper === -1 ? CLIMATE_BANDS.length : upper) - 1)];
+    const t = hi === lo ? 0 : (absLat - lo.lat) / (hi.lat - lo.lat);
+    const lerp = (a: number, b: number) => a + (b - a) * Math.min(1, Math.max(0, t));
+    return {
+      temperatureC: lerp(lo.temp[m], hi.temp[m]) + eraTemperatureOffset(year),
+      precipitationMm: lerp(lo.precip[m], hi.precip[m]),
+    };
+  },
+});
+
+// ERA5 reanalysis coverage on the Open-Meteo archive
+const OPEN_METEO_FIRST_YEAR = 1940;
+
+/**
+ * Real monthly weather for 1940 to last year from the Open-Meteo archive.
+ * Other years (and network failures) fall back to the climatology table.
+ */
+export const createOpenMeteoSource = (fallback: WeatherSource = createClimatologySource()): WeatherSource => ({
+  id: 'open-meteo',
+  label: 'Open-Meteo archive',
+  normals: async (query, signal) => {
+    const { lat, lng, month, year } = query;
+    if (year === undefined || year < OPEN_METEO_FIRST_YEAR || year >= new Date().getFullYear()) {
+      return fallback.normals(query, signal);
+    }
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const params = new URLSearchParams({
+      latitude: lat.toFixed(4),
+      longitude: lng.toFixed(4),
+      start_date: `${year}-${pad(month + 1)}-01`,
+      end_date: `${year}-${pad(month + 1)}-${pad(lastDay)}`,
+      daily: 'temperature_2m_mean,precipitation_sum',
+      timezone: 'GMT',
+    });
+    try {
+      const response = await fetch(`https://archive-api.open-meteo.com/v1/archive?${params}`, { signal });
+      if (!response.ok) throw new Error(`Open-Meteo request failed (${response.status})`);
+      const data = await response.json();
+      const temps: number[] = (data?.daily?.temperature_2m_mean || []).filter((v: unknown) => typeof v === 'number');
+      const precip: number[] = (data?.daily?.precipitation_sum || []).filter((v: unknown) => typeof v === 'number');
+      if (temps.length === 0) throw new Error("Open-Meteo returned no data");
+      return {
+        temperatureC: temps.reduce((a, b) => a + b, 0) / temps.length,
+        precipitationMm: precip.reduce((a, b) => a + b, 0),
+      };
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.warn("Falling back to climatology", e);
+      return fallback.normals(query, signal);
+    }
+  },
+});
+
+export const getConfiguredWeatherSourceId = (): WeatherSourceId =>
+  (process.env.WEATHER_SOURCE || '').trim().toLowerCase() === 'open-meteo' ? 'open-meteo' : 'climatology';
+
+export const createWeatherSource = (id: WeatherSourceId): WeatherSource =>
+  id === 'open-meteo' ? createOpenMeteoSource() : createClimatologySource();
+
+/**
+ * Hours of daylight from latitude and month (mid-month declination).
+ */
+export const daylightHours = (lat: number, month: number): number => {
+  const dayOfYear = Math.round(month * 30.44 + 15);
+  const declination = 23.44 * Math.sin((2 * Math.PI * (284 + dayOfYear)) / 365);
+  const x = -Math.tan((lat * Math.PI) / 180) * Math.tan((declination * Math.PI) / 180);
+  if (x <= -1) return 24; // midnight sun
+  if (x >= 1) return 0; // polar night
+  return (2 * Math.acos(x) * 180) / Math.PI / 15;
+};
+
+const SEASON_START_MONTH: Record<Season, number> = { winter: 0, spring: 3, summer: 6, autumn: 9 };
+
+export const seasonForMonth = (lat: number, month: number): Season => {
+  const m = hemisphereMonth(lat, month);
+  if (m === 11 || m <= 1) return 'winter';
+  if (m <= 4) return 'spring';
+  if (m <= 7) return 'summer';
+  return 'autumn';
+};
+
+// A representative month for the season in this hemisphere
+export const monthForSeason = (lat: number, season: Season): number =>
+  hemisphereMonth(lat, SEASON_START_MONTH[season]);
+
+/**
+ * Buckets local solar time into a time of day, relative to sunrise and sunset.
+ */
+export const timeOfDayAt = (lng: number, daylight: number, now: Date): TimeOfDay => {
+  const solarHour = (((now.getUTCHours() + now.getUTCMinutes() / 60 + lng / 15) % 24) + 24) % 24;
+  const sunrise = 12 - daylight / 2;
+  const sunset = 12 + daylight / 2;
+  if (daylight >= 24) return solarHour < 11 ? 'morning' : solarHour < 14 ? 'midday' : 'afternoon';
+  if (daylight <= 0) return 'night';
+  if (Math.abs(solarHour - sunrise) <= 1) return 'dawn';
+  if (Math.abs(solarHour - sunset) <= 1) return 'dusk';
+  if (solarHour < sunrise || solarHour > sunset) return 'night';
+  if (solarHour < 11) return 'morning';
+  if (solarHour < 14) return 'midday';
+  return 'afternoon';
+};
+
+// Most likely sky for a month's normals
+const typicalWeather = ({ temperatureC, precipitationMm }: ClimateNormals): WeatherKind => {
+  if (temperatureC <= 0 && precipitationMm >= 20) return 'snow';
+  if (precipitationMm >= 220 && temperatureC >= 24) return 'storm';
+  if (precipitationMm >= 160) return 'rain';
+  if (precipitationMm >= 90) return 'overcast';
+  if (precipitationMm >= 45) return 'partly_cloudy';
+  return 'clear';
+};
+
+const DIURNAL_OFFSET: Record<TimeOfDay, number> = {
+  dawn: -6, morning: -2, midday: 3, afternoon: 4, dusk: 0, night: -5,
+};
+
+const WEATHER_OFFSET: Record<WeatherKind, number> = {
+  clear: 0, partly_cloudy: 0, overcast: -1, fog: -1, rain: -2, storm: -2, snow: 0,
+};
+
+export const CLOTHING_LABELS: Record<ClothingItem, string> = {
+  heavy_insulated: 'heavy insulated coat, fur-lined hat, gloves and scarf',
+  winter_coat: 'warm winter coat, hat and gloves',
+  warm_coat: 'warm coat or thick woollen layers',
+  light_jacket: 'a light jacket or long sleeves',
+  light_layers: 'light layers',
+  breathable: 'loose, breathable, lightweight clothing',
+  waterproof: 'a waterproof outer layer or cloak',
+  boots: 'insulated boots',
+  extra_layer: 'an extra layer against the chill',
+  sun_hat: 'a hat for the sun',
+};
+
+/**
+ * What to wear for the conditions, independent of era (the prompt handles period dress).
+ */
+export const recommendClothing = (temperatureC: number, weather: WeatherKind, timeOfDay: TimeOfDay): ClothingItem[] => {
+  const items: ClothingItem[] = [];
+  if (temperatureC < -10) items.push('heavy_insulated');
+  else if (temperatureC < 0) items.push('winter_coat');
+  else if (temperatureC < 10) items.push('warm_coat');
+  else if (temperatureC < 18) items.push('light_jacket');
+  else if (temperatureC < 26) items.push('light_layers');
+  else items.push('breathable');
+
+  if (weather === 'rain' || weather === 'storm') items.push('waterproof');
+  if (weather === 'snow') items.push('boots');
+  if ((timeOfDay === 'night' || timeOfDay === 'dusk' || timeOfDay === 'dawn') && temperatureC < 20) items.push('extra_layer');
+  if (weather === 'clear' && (timeOfDay === 'midday' || timeOfDay === 'afternoon') && temperatureC >= 22) items.push('sun_hat');
+  return items;
+};
+
+export interface SceneConditionsQuery {
+  lat: number;
+  lng: number;
+  year?: number;
+}
+
+/**
+ * Resolves the scene's weather and light. Unset overrides are filled from the
+ * source's normals for the current month and the local time at the location.
+ */
+export const resolveSceneConditions = async (
+  source: WeatherSource,
+  query: SceneConditionsQuery,
+  overrides: ConditionOverrides = {},
+  now: Date = new Date(),
+  signal?: AbortSignal
+): Promise<SceneConditions> => {
+  const { lat, lng, year } = query;
+  const month = overrides.season ? monthForSeason(lat, overrides.season) : now.getUTCMonth();
+  const normals = await source.normals({ lat, lng, month, year }, signal);
+
+  const daylight = daylightHours(lat, month);
+  const season = overrides.season || seasonForMonth(lat, month);
+  const timeOfDay = overrides.timeOfDay || timeOfDayAt(lng, daylight, now);
+  const weather = overrides.weather || typicalWeather(normals);
+
+  // Drier places swing more between day and night
+  const diurnalScale = normals.precipitationMm < 30 ? 1.5 : 1;
+  let temperatureC = normals.temperatureC + DIURNAL_OFFSET[timeOfDay] * diurnalScale + WEATHER_OFFSET[weather];
+  if (weather === 'snow') temperatureC = Math.min(temperatureC, 0);
+  temperatureC = Math.round(temperatureC);
+  const clothingItems = recommendClothing(temperatureC, weather, timeOfDay);
+
+  return {
+    month,
+    season,
+    timeOfDay,
+    weather,
+    temperatureC,
+    precipitationMm: Math.round(normals.precipitationMm),
+    daylightHours: Math.round(daylight * 10) / 10,
+    source: source.label,
+    summary: `${WEATHER_LABELS[weather]}, ${temperatureC}°C, ${season} ${timeOfDay}`,
+    clothing: clothingItems.map(item => CLOTHING_LABELS[item]).join(', '),
+    clothingItems,
+  };
+};
@@ -0,0 +1,40 @@
+import { TimeEra } from "../types";
+import { DEFAULT_LOCALE, Locale } from "./i18n";
+import { formatHistoricalDate, parseHistoricalDate } from "./historicalDate";
+
+export const MAX_TIMELINE_FRAMES = 12;
+
+// e.g. "500 BCE", "mid-16th century", "기원전 500년"; input that can't be read is shown as typed
+export const formatYearDisplay = (valStr: string, locale: Locale = DEFAULT_LOCALE) => {
+    const date = parseHistoricalDate(valStr);
+    return date ? formatHistoricalDate(date, locale) : valStr;
+};
+
+/**
+ * Picks the era a given year falls into, relative to today.
+ */
+export const eraForYear = (year: number): TimeEra => {
+    const currentYear = new Date().getFullYear();
+    if (year > currentYear) return TimeEra.FUTURE;
+    if (year === currentYear) return TimeEra.PRESENT;
+    return TimeEra.PAST;
+};
+
+/**
+ * Expands a start/end/step range into the list of years to render.
+ * The end year is always included; ranges are capped at MAX_TIMELINE_FRAMES.
+ */
+export const buildTimelineYears = (startYear: number, endYear: number, step: number): string[] => {
+    if ([startYear, endYear, step].some(v => !Number.isFinite(v)) || step <= 0) return [];
+
+    const direction = endYear >= startYear ? 1 : -1;
+    const years: number[] = [];
+    for (let y = startYear; direction > 0 ? y <= endYear : y >= endYear; y += step * direction) {
+        years.push(y);
+        if (years.length >= MAX_TIMELINE_FRAMES) break;
+    }
+    if (years[years.length - 1] !== endYear && years.length < MAX_TIMELINE_FRAMES) {
+        years.push(endYear);
+    }
+    return years.map(String);
+};
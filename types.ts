@@ -21,18 +21,355 @@ export interface LocationContext {
   nearbyPOIs?: PointOfInterest[];
 }
 
+export type LocationAnalysisErrorKind = 'no_response' | 'parse_failed' | 'invalid_schema';
+
+/**
+ * Why analyzeLocation could not produce a usable LocationContext.
+ * `issues` lists the individual validation problems, if any.
+ */
+export interface LocationAnalysisError {
+  kind: LocationAnalysisErrorKind;
+  message: string;
+  issues: string[];
+}
+
+export type LocationAnalysisResult =
+  | { kind: 'success'; context: LocationContext; warnings: string[] }
+  | { kind: 'failure'; error: LocationAnalysisError };
+
+export type PlausibilityVerdict = 'plausible' | 'questionable' | 'implausible';
+
+/**
+ * What a place looked like at the target date, checked before generation
+ * (services/plausibility.ts) and passed to the photo prompt.
+ */
+export interface PlausibilityReport {
+  verdict: PlausibilityVerdict;
+  summary: string;
+  settlement: string; // e.g. "Roman Londinium, a walled town of ~30,000"
+  landscape: string;
+  structures: string[]; // notable structures standing at the time
+  anachronisms: string[]; // what the request would get wrong, e.g. "The Eiffel Tower was built in 1889"
+  suggestedElements: string[]; // period details worth showing
+}
+
+// Failures reuse the analysis error kinds: no reply, unreadable reply, wrong shape
+export type PlausibilityResult =
+  | { kind: 'success'; report: PlausibilityReport; warnings: string[] }
+  | { kind: 'failure'; error: LocationAnalysisError };
+
+// The Sidebar's view of the check for the current place and date
+export type PlausibilityCheck =
+  | { kind: 'idle' }
+  | { kind: 'checking' }
+  | { kind: 'ready'; report: PlausibilityReport }
+  | { kind: 'failed'; message: string };
+
+export interface ReferenceImage {
+  data: string; // base64 without the data URL prefix
+  mimeType: string;
+}
+
+/**
+ * A person to place in the shot, as edited in the Sidebar.
+ */
+export interface Traveler {
+  id: string;
+  name: string;
+  photos: File[];
+}
+
+/**
+ * A traveler ready to send to the model: labeled, with encoded photos.
+ */
+export interface ReferencePerson {
+  name: string;
+  images: ReferenceImage[];
+}
+
+export interface GeocodeResult {
+  name: string;
+  detail?: string; // region/country shown under the name
+  coords: Coordinates;
+  isCoordinates?: boolean; // typed as "lat, lng" rather than found by name
+}
+
 export enum TimeEra {
   PAST = 'Past (Ancient/Historical)',
   PRESENT = 'Present Day',
   FUTURE = 'Future (Sci-Fi/Advanced)',
 }
 
-// Restricted styles as per request
-export type VisualStyle = 'Realistic' | 'Cinematic' | 'Documentary';
+export type DatePrecision = 'year' | 'decade' | 'century' | 'range';
+export type DatePart = 'early' | 'mid' | 'late';
+
+/**
+ * A point or span in time, parsed from what the user typed (services/historicalDate.ts).
+ * Years are astronomical (1 BCE is 0, 2 BCE is -1) so spans and midpoints are plain arithmetic.
+ */
+export interface HistoricalDate {
+  start: number;
+  end: number; // inclusive; equals start for a single year
+  precision: DatePrecision;
+  part?: DatePart; // e.g. the "mid" in "mid-16th century"
+  approximate: boolean; // "c. 1500", "~1500"
+}
+
+// Aspect ratios accepted by imageConfig.aspectRatio
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+/**
+ * An entry in the style catalog (services/styleCatalog.ts).
+ * `promptFragment` and `negativeConstraints` are injected into the photo prompt.
+ */
+export interface VisualStyle {
+  id: string;
+  label: string;
+  thumbnail: string; // image URL, usually a data URL
+  promptFragment: string;
+  negativeConstraints?: string;
+  defaultAspectRatio?: AspectRatio; // used for shots that don't set their own
+  builtIn?: boolean;
+}
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn';
+export type TimeOfDay = 'dawn' | 'morning' | 'midday' | 'afternoon' | 'dusk' | 'night';
+export type WeatherKind = 'clear' | 'partly_cloudy' | 'overcast' | 'fog' | 'rain' | 'storm' | 'snow';
+export type ClothingItem = 'heavy_insulated' | 'winter_coat' | 'warm_coat' | 'light_jacket' | 'light_layers' | 'breathable' | 'waterproof' | 'boots' | 'extra_layer' | 'sun_hat';
+
+/**
+ * User overrides for the computed scene conditions. Missing fields mean "auto".
+ */
+export interface ConditionOverrides {
+  season?: Season;
+  timeOfDay?: TimeOfDay;
+  weather?: WeatherKind;
+}
+
+/**
+ * Weather and light at the scene, as produced by services/weather.ts.
+ */
+export interface SceneConditions {
+  month: number; // 0-11
+  season: Season;
+  timeOfDay: TimeOfDay;
+  weather: WeatherKind;
+  temperatureC: number;
+  precipitationMm: number; // monthly total
+  daylightHours: number;
+  source: string; // which weather source produced the normals
+  summary: string; // e.g. "light rain, 12°C, autumn afternoon"
+  clothing: string; // English, for the prompt
+  clothingItems: ClothingItem[]; // the same advice as codes, translated for display
+}
+
+/**
+ * The Sidebar's scene controls. Mirrored into the URL for deep links.
+ */
+export interface SceneSettings {
+  era: TimeEra;
+  year: string;
+  style: string; // VisualStyle id
+  customPrompt: string;
+  conditions: ConditionOverrides;
+}
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  era: TimeEra.PRESENT,
+  year: '',
+  style: 'realistic',
+  customPrompt: '',
+  conditions: {},
+};
+
+/**
+ * One planned shot in a generation batch.
+ * `description` is sent to the model as the shot variation.
+ */
+export interface ShotSpec {
+  id: string;
+  label: string;
+  description: string;
+  aspectRatio?: AspectRatio;
+}
+
+export type ShotState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Progress of one planned shot inside the current batch.
+ */
+export interface ShotRun {
+  shot: ShotSpec;
+  state: ShotState;
+  imageUrl?: string;
+  prompt?: string; // final prompt text sent for this shot
+  mimeType?: string;
+  error?: string;
+  report?: GenerationReport; // finish reason, safety and model text; also kept for refused shots
+  savedShotId?: string; // gallery entry of the generated image
+  versions?: ImageVersion[]; // edit history, root first; empty until the first edit
+  activeVersionId?: string; // version currently shown as imageUrl
+}
+
+/**
+ * One image in an edit history. The root is the original generation
+ * (no parent, no instruction); every edit points at the version it was applied to.
+ * Ids match the gallery entries of the same images.
+ */
+export interface ImageVersion {
+  id: string;
+  parentId: string | null;
+  instruction: string | null;
+  imageUrl: string;
+  prompt: string;
+  createdAt: number;
+}
+
+export type QueuedGenerationState = 'waiting' | 'sending' | 'done' | 'failed';
+
+/**
+ * A generation requested while offline, sent once the connection returns.
+ * Results go straight to the gallery.
+ */
+export interface QueuedGeneration {
+  id: string;
+  label: string; // e.g. "Colosseum, Rome · 1850"
+  createdAt: number;
+  state: QueuedGenerationState;
+  total: number; // images requested
+  completed: number;
+  failed: number;
+  error?: string; // last failure
+  firstShotId?: string; // gallery entry of the first finished image
+}
+
+/**
+ * One stop of a multi-stop trip, with its own place, time and style.
+ */
+export interface TripStop {
+  id: string;
+  coords: Coordinates;
+  label: string; // place name once analyzed, coordinates until then
+  era: TimeEra;
+  year: string;
+  style: string; // VisualStyle id
+}
+
+export type TripStopState = 'queued' | 'analyzing' | 'generating' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Progress of one stop in a trip run. `stop` is a snapshot taken when the run
+ * started, so reordering or editing the plan doesn't reshuffle the album.
+ */
+export interface TripStopRun {
+  stop: TripStop;
+  state: TripStopState;
+  locationInfo?: LocationContext;
+  imageUrl?: string;
+  prompt?: string;
+  error?: string;
+  savedShotId?: string;
+}
 
 export type AppStatus = 'idle' | 'analyzing_location' | 'ready_to_generate' | 'generating_image' | 'complete' | 'error';
 
-export interface GeneratedImageResult {
+export interface TimelineSettings {
+  startYear: number;
+  endYear: number;
+  step: number;
+}
+
+export interface TimelineFrame {
+  year: string;
   imageUrl: string;
+  mimeType: string;
+}
+
+export interface TimelineRun {
+  years: string[];
+  frames: TimelineFrame[];
+}
+
+/**
+ * Editable prompt templates, see services/promptTemplates.ts for the syntax.
+ * `revision` goes up on every save so results can be traced to an exact version.
+ */
+export interface PromptPreset {
+  id: string;
+  name: string;
+  revision: number;
+  builtIn?: boolean;
+  analysisTemplate: string;
+  photoTemplate: string;
+  updatedAt: number;
+}
+
+// Which preset (and which revision of it) produced a result
+export interface PromptPresetRef {
+  id: string;
+  name: string;
+  revision: number;
+}
+
+export interface SafetyRating {
+  category: string; // e.g. "HARM_CATEGORY_DANGEROUS_CONTENT"
+  probability: string; // e.g. "MEDIUM"
+  blocked: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * What the model reported about one image request, whether or not an image came back.
+ * Reason codes are the provider's own (e.g. finishReason "IMAGE_SAFETY").
+ */
+export interface GenerationReport {
+  finishReason: string | null;
+  blockReason: string | null; // set when the prompt itself was refused
+  safetyRatings: SafetyRating[];
+  modelText: string; // commentary or refusal explanation sent alongside (or instead of) the image
+  usage: TokenUsage | null;
   promptUsed: string;
-}
\ No newline at end of file
+}
+
+export interface GeneratedImageResult extends GenerationReport {
+  imageUrl: string;
+  mimeType: string;
+}
+
+/**
+ * A generation persisted to the local gallery.
+ * Shots produced by the same "Generate" click share a batchId.
+ */
+export interface SavedShot {
+  id: string;
+  batchId: string;
+  createdAt: number;
+  coords: Coordinates;
+  locationInfo: LocationContext;
+  era: TimeEra;
+  year?: string;
+  style: string; // VisualStyle id (older shots stored the label)
+  variation: string;
+  prompt: string;
+  promptPreset?: PromptPresetRef;
+  imageUrl: string;
+  parentId?: string; // set on edits: the shot the instruction was applied to
+  editInstruction?: string;
+}
+
+/**
+ * An image the lightbox can show or compare: a shot of the current batch or a gallery shot.
+ */
+export interface LightboxImage {
+  id: string;
+  imageUrl: string;
+  label: string; // shot variation, e.g. "Wide Shot"
+  year?: string; // as typed; empty means today
+}
+
+export type LightboxMode = 'single' | 'split' | 'side';
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.GEOCODER': JSON.stringify(env.GEOCODER),
+        'process.env.WEATHER_SOURCE': JSON.stringify(env.WEATHER_SOURCE),
+        'process.env.SERVICE_WORKER': JSON.stringify(env.SERVICE_WORKER || (mode === 'production' ? 'on' : 'off'))
       },
       resolve: {
         alias: {